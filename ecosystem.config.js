@@ -9,5 +9,9 @@ module.exports = {
       name: 'ethereum-node',
       script: 'hardhat node --config test/hardhat.config.ts',
     },
+    {
+      name: 'dynamodb-local',
+      script: 'docker run --rm -p 8000:8000 amazon/dynamodb-local',
+    },
   ],
 };
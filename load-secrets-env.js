@@ -2,8 +2,21 @@ const fs = require('fs');
 const path = require('path');
 const dotenv = require('dotenv');
 
+const DEFAULT_MNEMONIC_SECRET_NAME = 'AIRNODE_WALLET_MNEMONIC';
+
+// Name of the secret that config.json interpolates into nodeSettings.airnodeWalletMnemonic
+const getMnemonicSecretName = () => {
+  const configPath = path.resolve(__dirname, 'config', 'config.json');
+  if (!fs.existsSync(configPath)) {
+    return DEFAULT_MNEMONIC_SECRET_NAME;
+  }
+  const { nodeSettings = {} } = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+  const match = /^\$\{([A-Za-z_][A-Za-z0-9_]*)\}$/.exec(nodeSettings.airnodeWalletMnemonic || '');
+  return match ? match[1] : DEFAULT_MNEMONIC_SECRET_NAME;
+};
+
 // eslint-disable-next-line functional/immutable-data
-module.exports = async ({ _options, _resolveConfigurationProperty }) => {
+module.exports = async ({ _options, resolveConfigurationProperty }) => {
   const secretsPath = path.resolve(__dirname, 'config', 'secrets.env');
   const envVars = fs.existsSync(secretsPath)
     ? dotenv.config({
@@ -11,10 +24,19 @@ module.exports = async ({ _options, _resolveConfigurationProperty }) => {
         path: secretsPath,
       }).parsed
     : {};
-  // Return all env vars that don't start with "AWS_"
-  return Object.keys(envVars)
+  const mnemonicSecretName = getMnemonicSecretName();
+  // Return all env vars that don't start with "AWS_". The mnemonic is only given to the functions that sign so that
+  // the PSP coordinator runs without it
+  const envSecrets = Object.keys(envVars)
     .filter((key) => !key.startsWith('AWS_'))
-    .reduce((obj, key) => {
-      return { ...obj, [key]: envVars[key] };
-    }, {});
+    .reduce(
+      (secrets, key) =>
+        key === mnemonicSecretName
+          ? { ...secrets, mnemonic: { ...secrets.mnemonic, [key]: envVars[key] } }
+          : { ...secrets, shared: { ...secrets.shared, [key]: envVars[key] } },
+      { shared: {}, mnemonic: {} }
+    );
+  // The state store table is declared in serverless.yml and its name is given to every function from there
+  const stateStoreTable = await resolveConfigurationProperty(['custom', 'stateStoreTable']);
+  return { ...envSecrets, shared: { ...envSecrets.shared, STATE_STORE_TABLE: stateStoreTable } };
 };
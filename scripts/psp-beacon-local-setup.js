@@ -124,6 +124,7 @@ async function main() {
     )
   );
   console.log('🆔 ~ beaconUpdateSubscriptionId', beaconUpdateSubscriptionId);
+  await airnodeProtocol.connect(roles.sponsor).setPspSponsorshipStatus(beaconUpdateSubscriptionId, true);
   console.log('👛 ~ roles.sponsor.address', roles.sponsor.address);
   console.log(
     "📄 ~ dapiServer.interface.getSighash('fulfillPspBeaconUpdate')",
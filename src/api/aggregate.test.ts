@@ -0,0 +1,71 @@
+import { ethers } from 'ethers';
+import { aggregateApiValues, calculateMean, calculateMedian } from './aggregate';
+import { encodeApiValues } from './call-api';
+
+const buildApiValue = (value: string, type = 'int256') => ({
+  type,
+  values: [value],
+  encodedValue: encodeApiValues(type, [value]),
+});
+
+describe('calculateMedian', () => {
+  it('returns the middle value of an odd number of values', () => {
+    const values = [300, 100, 200].map((value) => ethers.BigNumber.from(value));
+    expect(calculateMedian(values)).toEqual(ethers.BigNumber.from(200));
+  });
+
+  it('returns the mean of the two middle values of an even number of values', () => {
+    const values = [400, -100, 100, 200].map((value) => ethers.BigNumber.from(value));
+    expect(calculateMedian(values)).toEqual(ethers.BigNumber.from(150));
+  });
+});
+
+describe('calculateMean', () => {
+  it('returns the mean of the values rounded towards zero', () => {
+    const values = [100, 200, 201].map((value) => ethers.BigNumber.from(value));
+    expect(calculateMean(values)).toEqual(ethers.BigNumber.from(167));
+  });
+});
+
+describe('aggregateApiValues', () => {
+  const apiValues = [buildApiValue('723392028'), buildApiValue('723392000'), buildApiValue('800000000')];
+
+  it('aggregates API values using the median', () => {
+    const [logs, data] = aggregateApiValues(apiValues, { templateIds: [], method: 'median', minimumResponses: 2 });
+
+    expect(logs).toEqual([{ level: 'DEBUG', message: 'Aggregated 3 API values using median: 723392028' }]);
+    expect(data).toEqual(buildApiValue('723392028'));
+  });
+
+  it('aggregates API values using the mean', () => {
+    const [logs, data] = aggregateApiValues(apiValues, { templateIds: [], method: 'mean', minimumResponses: 3 });
+
+    expect(logs).toEqual([{ level: 'DEBUG', message: 'Aggregated 3 API values using mean: 748928009' }]);
+    expect(data).toEqual(buildApiValue('748928009'));
+  });
+
+  it('returns null if there are not enough API values', () => {
+    const [logs, data] = aggregateApiValues(apiValues, { templateIds: [], method: 'median', minimumResponses: 4 });
+
+    expect(logs).toEqual([
+      { level: 'ERROR', message: 'Received 3 successful API responses but at least 4 are required' },
+    ]);
+    expect(data).toEqual(null);
+  });
+
+  it('returns null if API values cannot be aggregated', () => {
+    const [logs, data] = aggregateApiValues([buildApiValue('1'), buildApiValue('2', 'uint256')], {
+      templateIds: [],
+      method: 'median',
+      minimumResponses: 1,
+    });
+
+    expect(logs).toEqual([
+      {
+        level: 'ERROR',
+        message: 'Unable to aggregate API values of type int256, uint256. Only int256 or uint256 are supported',
+      },
+    ]);
+    expect(data).toEqual(null);
+  });
+});
@@ -0,0 +1,46 @@
+import * as node from '@api3/airnode-node';
+import * as utils from '@api3/airnode-utilities';
+import { ethers } from 'ethers';
+import uniq from 'lodash/uniq';
+import { encodeApiValues } from './call-api';
+import { ApiValue } from '../types';
+import { Aggregation } from '../validator';
+
+// Only single numeric values can be aggregated
+const AGGREGATABLE_TYPES = ['int256', 'uint256'];
+
+export const calculateMedian = (values: ethers.BigNumber[]) => {
+  const sortedValues = [...values].sort((a, b) => (a.lt(b) ? -1 : a.gt(b) ? 1 : 0));
+  const middle = Math.floor(sortedValues.length / 2);
+  return sortedValues.length % 2 === 0
+    ? sortedValues[middle - 1].add(sortedValues[middle]).div(2)
+    : sortedValues[middle];
+};
+
+export const calculateMean = (values: ethers.BigNumber[]) =>
+  values.reduce((sum, value) => sum.add(value), ethers.constants.Zero).div(values.length);
+
+export const aggregateApiValues = (apiValues: ApiValue[], aggregation: Aggregation): node.LogsData<ApiValue | null> => {
+  const { method, minimumResponses } = aggregation;
+
+  if (apiValues.length < minimumResponses) {
+    const message = `Received ${apiValues.length} successful API responses but at least ${minimumResponses} are required`;
+    const log = utils.logger.pend('ERROR', message);
+    return [[log], null];
+  }
+
+  const types = uniq(apiValues.map(({ type }) => type));
+  if (types.length !== 1 || !AGGREGATABLE_TYPES.includes(types[0])) {
+    const message = `Unable to aggregate API values of type ${types.join(', ')}. Only int256 or uint256 are supported`;
+    const log = utils.logger.pend('ERROR', message);
+    return [[log], null];
+  }
+
+  const [type] = types;
+  const values = apiValues.map(({ values }) => ethers.BigNumber.from(values[0]));
+  const aggregatedValue = (method === 'median' ? calculateMedian(values) : calculateMean(values)).toString();
+  const message = `Aggregated ${apiValues.length} API values using ${method}: ${aggregatedValue}`;
+  const log = utils.logger.pend('DEBUG', message);
+
+  return [[log], { type, values: [aggregatedValue], encodedValue: encodeApiValues(type, [aggregatedValue]) }];
+};
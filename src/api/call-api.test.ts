@@ -4,7 +4,7 @@ import * as abi from '@api3/airnode-abi';
 import * as adapter from '@api3/airnode-adapter';
 import * as node from '@api3/airnode-node';
 import { ethers } from 'ethers';
-import { callApi } from './call-api';
+import { callApi, encodeApiValues } from './call-api';
 import { AirkeeperConfig } from '../validator';
 import { mergeConfigs } from '../config';
 
@@ -41,7 +41,11 @@ describe('callApi', () => {
     expect(logs).toHaveLength(1);
     expect(logs).toEqual(expect.arrayContaining([{ level: 'DEBUG', message: 'API value: 723392028' }]));
     expect(res).toBeDefined();
-    expect(res).toEqual(ethers.BigNumber.from(723392028));
+    expect(res).toEqual({
+      type: 'int256',
+      values: ['723392028'],
+      encodedValue: ethers.utils.defaultAbiCoder.encode(['int256'], [723392028]),
+    });
     expect(spy).toHaveBeenCalledTimes(1);
 
     [logs, res] = await callApi({ ...config, airnodeXpub }, endpoint, apiCallParameters);
@@ -49,7 +53,11 @@ describe('callApi', () => {
     expect(logs).toHaveLength(1);
     expect(logs).toEqual(expect.arrayContaining([{ level: 'DEBUG', message: 'API value: 723392028' }]));
     expect(res).toBeDefined();
-    expect(res).toEqual(ethers.BigNumber.from(723392028));
+    expect(res).toEqual({
+      type: 'int256',
+      values: ['723392028'],
+      encodedValue: ethers.utils.defaultAbiCoder.encode(['int256'], [723392028]),
+    });
     expect(spy).toHaveBeenCalledTimes(2);
   });
 
@@ -96,3 +104,43 @@ describe('callApi', () => {
     expect(extractAndEncodeResponseSpy).toHaveBeenCalledWith(apiResponse.data, expect.any(Object));
   });
 });
+
+describe('encodeApiValues', () => {
+  it('encodes a single value according to its type', () => {
+    expect(encodeApiValues('uint256', ['723392028'])).toEqual(
+      ethers.utils.defaultAbiCoder.encode(['uint256'], [723392028])
+    );
+    expect(encodeApiValues('bool', [true])).toEqual(ethers.utils.defaultAbiCoder.encode(['bool'], [true]));
+    expect(encodeApiValues('address', [ethers.constants.AddressZero])).toEqual(
+      ethers.utils.defaultAbiCoder.encode(['address'], [ethers.constants.AddressZero])
+    );
+    expect(encodeApiValues('bytes32', [ethers.constants.HashZero])).toEqual(
+      ethers.utils.defaultAbiCoder.encode(['bytes32'], [ethers.constants.HashZero])
+    );
+  });
+
+  it('encodes Airnode specific types the same way Airnode does', () => {
+    expect(encodeApiValues('string32', ['ETH'])).toEqual(
+      ethers.utils.defaultAbiCoder.encode(['bytes32'], [ethers.utils.formatBytes32String('ETH')])
+    );
+    expect(encodeApiValues('timestamp', ['1650000000'])).toEqual(
+      ethers.utils.defaultAbiCoder.encode(['uint256'], [1650000000])
+    );
+    expect(encodeApiValues('string32[]', [['ETH', 'BTC']])).toEqual(
+      ethers.utils.defaultAbiCoder.encode(
+        ['bytes32[]'],
+        [[ethers.utils.formatBytes32String('ETH'), ethers.utils.formatBytes32String('BTC')]]
+      )
+    );
+  });
+
+  it('encodes multiple values as a tuple', () => {
+    expect(encodeApiValues('int256,bool,string', ['-723392028', false, 'ETH'])).toEqual(
+      ethers.utils.defaultAbiCoder.encode(['int256', 'bool', 'string'], [-723392028, false, 'ETH'])
+    );
+  });
+
+  it('throws if the values do not match the type', () => {
+    expect(() => encodeApiValues('address', ['not an address'])).toThrow();
+  });
+});
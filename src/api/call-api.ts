@@ -1,37 +1,82 @@
 import * as node from '@api3/airnode-node';
 import * as utils from '@api3/airnode-utilities';
+import { goSync } from '@api3/promise-utils';
 import { ethers } from 'ethers';
-import { Config } from '../types';
+import { recordApiCall } from '../metrics';
+import { ApiValue, Config } from '../types';
 import { Endpoint } from '../validator';
 
+const getResponseType = (config: Config, endpoint: Endpoint, parameters: node.ApiCallParameters) => {
+  const oisEndpoint = config.ois
+    .find((ois) => ois.title === endpoint.oisTitle)
+    ?.endpoints.find((oisEndpoint) => oisEndpoint.name === endpoint.endpointName);
+  const typeParameter = oisEndpoint?.reservedParameters.find((reservedParameter) => reservedParameter.name === '_type');
+  return typeParameter?.fixed || parameters._type || typeParameter?.default;
+};
+
+// Airnode response types that are not Solidity types are encoded the same way Airnode encodes them
+const toSolidityType = (type: string) => type.replace(/^string32/, 'bytes32').replace(/^timestamp/, 'uint256');
+
+const toSolidityValue = (value: unknown, type: string): unknown => {
+  if (type.endsWith(']')) {
+    const baseType = type.substring(0, type.lastIndexOf('['));
+    return (value as unknown[]).map((item) => toSolidityValue(item, baseType));
+  }
+  if (type === 'string32') {
+    // Strings longer than 31 characters are truncated to fit in bytes32
+    return ethers.utils.formatBytes32String((value as string).substring(0, 31));
+  }
+  return value;
+};
+
+export const encodeApiValues = (type: string, values: unknown[]) => {
+  // Multiple values are requested with comma separated types (e.g. "int256,uint256")
+  const types = type.split(',');
+  return ethers.utils.defaultAbiCoder.encode(
+    types.map(toSolidityType),
+    values.map((value, index) => toSolidityValue(value, types[index]))
+  );
+};
+
 export const callApi = async (
   config: Config,
   endpoint: Endpoint,
   parameters: node.ApiCallParameters
-): Promise<node.LogsData<ethers.BigNumber | null>> => {
+): Promise<node.LogsData<ApiValue | null>> => {
   // Note: airnodeAddress, endpointId, id are not used in callApi verification, but are required by the node.AggregatedApiCall type
-  const airnodeHDNode = ethers.utils.HDNode.fromMnemonic(config.nodeSettings.airnodeWalletMnemonic);
-  const airnodeAddress = (
-    config.airnodeXpub
-      ? ethers.utils.HDNode.fromExtendedKey(config.airnodeXpub).derivePath('0/0')
-      : airnodeHDNode.derivePath(ethers.utils.defaultPath)
-  ).address;
+  const airnodeAddress = config.airnodeAddress || ethers.constants.AddressZero;
   const endpointId = ethers.utils.keccak256(
     ethers.utils.defaultAbiCoder.encode(['string', 'string'], [endpoint.oisTitle, endpoint.endpointName])
   );
   const id = utils.randomHexString(16);
 
+  const startedAt = Date.now();
   const [logs, apiCallResponse] = await node.handlers.callApi({
     config,
     aggregatedApiCall: { type: 'http-gateway', airnodeAddress, endpointId, id, parameters, ...endpoint },
   });
+  recordApiCall(endpointId, Date.now() - startedAt, apiCallResponse.success);
   if (!apiCallResponse.success) {
     return [logs, null];
   }
 
   const parsedData = JSON.parse(apiCallResponse.value);
-  const [apiValue] = parsedData.values;
-  const messageApiValue = `API value: ${apiValue}`;
+  const values: unknown[] = parsedData.values;
+  const messageApiValue = `API value: ${values.join(', ')}`;
   const logApiValue = utils.logger.pend('DEBUG', messageApiValue);
-  return [[...logs, logApiValue], ethers.BigNumber.from(apiValue)];
+
+  const type = getResponseType(config, endpoint, parameters);
+  if (!type) {
+    const log = utils.logger.pend('ERROR', "Reserved parameter '_type' is missing");
+    return [[...logs, logApiValue, log], null];
+  }
+
+  // The fulfillment data is encoded according to the '_type' reserved parameter of the template
+  const goEncodedValue = goSync(() => encodeApiValues(type, values));
+  if (!goEncodedValue.success) {
+    const log = utils.logger.pend('ERROR', `Failed to encode API value as ${type}`, goEncodedValue.error);
+    return [[...logs, logApiValue, log], null];
+  }
+
+  return [[...logs, logApiValue], { type, values, encodedValue: goEncodedValue.data }];
 };
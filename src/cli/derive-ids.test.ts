@@ -0,0 +1,35 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { deriveIds } from './derive-ids';
+import { AirkeeperConfig } from '../validator';
+
+describe('deriveIds', () => {
+  const airkeeperConfig: AirkeeperConfig = {
+    ...JSON.parse(readFileSync(join(__dirname, '../../config/airkeeper.example.json')).toString()),
+    airnodeAddress: '0xA30CA71Ba54E83127214D3271aEA8F5D6bD4Dace',
+  };
+
+  it('derives the IDs used as keys in airkeeper.json', () => {
+    const ids = deriveIds(airkeeperConfig);
+
+    expect(ids.endpoints.map(({ endpointId }) => endpointId)).toEqual(Object.keys(airkeeperConfig.endpoints));
+    expect(ids.templates.map(({ templateId }) => templateId)).toEqual(Object.keys(airkeeperConfig.templates));
+    expect(ids.subscriptions.map(({ subscriptionId }) => subscriptionId)).toEqual(
+      Object.keys(airkeeperConfig.subscriptions)
+    );
+    expect(ids.rrpBeaconServerKeeperJobs.map(({ templateId }) => templateId)).toEqual(
+      airkeeperConfig.triggers.rrpBeaconServerKeeperJobs.map(({ templateId }) => templateId)
+    );
+  });
+
+  it('derives beacon IDs', () => {
+    const ids = deriveIds({
+      ...airkeeperConfig,
+      beaconSets: {},
+    });
+
+    expect(ids.subscriptions[0].beaconId).toMatch(/^0x[a-f0-9]{64}$/);
+    expect(ids.rrpBeaconServerKeeperJobs[0].beaconId).toMatch(/^0x[a-f0-9]{64}$/);
+    expect(ids.beaconSets).toEqual([]);
+  });
+});
@@ -0,0 +1,46 @@
+import * as abi from '@api3/airnode-abi';
+import {
+  deriveBeaconId,
+  deriveBeaconSetId,
+  deriveEndpointId,
+  deriveRrpBeaconId,
+  deriveRrpTemplateId,
+  deriveSubscriptionId,
+  deriveTemplateId,
+} from '../ids';
+import { AirkeeperConfig } from '../validator';
+
+/**
+ * Derives the IDs of the entries of airkeeper.json from their contents so that they can be used as their keys.
+ */
+export const deriveIds = (config: AirkeeperConfig) => ({
+  endpoints: Object.values(config.endpoints).map((endpoint) => ({
+    ...endpoint,
+    endpointId: deriveEndpointId(endpoint),
+  })),
+  templates: Object.values(config.templates).map((template) => ({
+    ...template,
+    templateId: deriveTemplateId(template),
+  })),
+  subscriptions: Object.values(config.subscriptions).map((subscription) => ({
+    chainId: subscription.chainId,
+    templateId: subscription.templateId,
+    sponsor: subscription.sponsor,
+    subscriptionId: deriveSubscriptionId(subscription),
+    beaconId: deriveBeaconId(subscription.airnodeAddress, subscription.templateId),
+  })),
+  beaconSets: Object.values(config.beaconSets || {}).map(({ beaconIds }) => ({
+    beaconIds,
+    beaconSetId: deriveBeaconSetId(beaconIds),
+  })),
+  rrpBeaconServerKeeperJobs: config.triggers.rrpBeaconServerKeeperJobs.map(({ endpointId, templateParameters }) => {
+    const encodedParameters = abi.encode(templateParameters);
+    const templateId = deriveRrpTemplateId(config.airnodeAddress, endpointId, encodedParameters);
+    return {
+      endpointId,
+      templateParameters,
+      templateId,
+      beaconId: deriveRrpBeaconId(templateId, encodedParameters),
+    };
+  }),
+});
@@ -0,0 +1,65 @@
+#!/usr/bin/env node
+import fs from 'fs';
+import path from 'path';
+import { goSync } from '@api3/promise-utils';
+import dotenv from 'dotenv';
+import { deriveIds } from './derive-ids';
+import { deriveSponsorWallets } from './sponsor-wallets';
+import { validateConfigFiles } from './validate';
+import { loadAirkeeperConfig } from '../config';
+
+export * from './derive-ids';
+export * from './sponsor-wallets';
+export * from './validate';
+
+const USAGE = `Usage: airkeeper <command> [options]
+
+Commands:
+  validate                           Validates config.json and airkeeper.json and reports every problem found
+  derive-ids                         Derives the endpoint, template, subscription, beacon and beacon set IDs
+  sponsor-wallets [--sponsor <address>...]
+                                     Derives the PSP and RRP keeper sponsor wallet addresses`;
+
+const SECRETS_PATH = path.resolve(__dirname, '..', '..', 'config', 'secrets.env');
+
+const printJson = (value: unknown) => console.log(JSON.stringify(value, null, 2));
+
+// Returns the values of every occurrence of the option (e.g. --sponsor 0x1 --sponsor 0x2)
+export const parseOption = (args: string[], name: string) =>
+  args.flatMap((arg, index) => (arg === `--${name}` && args[index + 1] ? [args[index + 1]] : []));
+
+export const runCommand = (args: string[]) => {
+  const [command, ...options] = args;
+  // Both config files reference the secrets the same way they do when deployed
+  if (fs.existsSync(SECRETS_PATH)) {
+    dotenv.config({ path: SECRETS_PATH });
+  }
+  switch (command) {
+    case 'validate': {
+      const problems = validateConfigFiles();
+      if (problems.length > 0) {
+        console.error(`Found ${problems.length} problem(s):\n${problems.map((problem) => `- ${problem}`).join('\n')}`);
+        return 1;
+      }
+      console.log('Configuration is valid');
+      return 0;
+    }
+    case 'derive-ids':
+      printJson(deriveIds(loadAirkeeperConfig()));
+      return 0;
+    case 'sponsor-wallets':
+      printJson(deriveSponsorWallets(loadAirkeeperConfig(), parseOption(options, 'sponsor')));
+      return 0;
+    default:
+      console.error(USAGE);
+      return 1;
+  }
+};
+
+if (require.main === module) {
+  const goRun = goSync(() => runCommand(process.argv.slice(2)));
+  if (!goRun.success) {
+    console.error(goRun.error.message);
+  }
+  process.exit(goRun.success ? goRun.data : 1);
+}
@@ -0,0 +1,45 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import * as node from '@api3/airnode-node';
+import uniq from 'lodash/uniq';
+import { deriveSponsorWallets } from './sponsor-wallets';
+import { PROTOCOL_ID_PSP, PROTOCOL_ID_RRP_KEEPER } from '../constants';
+import { AirkeeperConfig } from '../validator';
+
+const airnodeWalletMnemonic = 'achieve climb couple wait accident symbol spy blouse reduce foil echo label';
+const airnodeXpub =
+  'xpub6C8tvRgYkjNVaGMtpyZf4deBcUQHf7vgWUraVxY6gYiZhBYbPkFkLLWJzUUeVFdkKpVtatmXHX8kB76xgfmTpVZWbVWdq1rneaAY6a8RtbY';
+const sponsor = '0x61648B2Ec3e6b3492E90184Ef281C2ba28a675ec';
+
+describe('deriveSponsorWallets', () => {
+  const airkeeperConfig: AirkeeperConfig = {
+    ...JSON.parse(readFileSync(join(__dirname, '../../config/airkeeper.example.json')).toString()),
+    airnodeXpub,
+  };
+
+  it('derives the same sponsor wallets as the airnode mnemonic', () => {
+    const sponsorWallets = deriveSponsorWallets(airkeeperConfig, [sponsor]);
+
+    sponsorWallets.psp.forEach(({ sponsor, sponsorWallet }) =>
+      expect(sponsorWallet).toEqual(
+        node.evm.deriveSponsorWalletFromMnemonic(airnodeWalletMnemonic, sponsor, PROTOCOL_ID_PSP).address
+      )
+    );
+    sponsorWallets.rrpKeeper.forEach(({ sponsor, sponsorWallet }) =>
+      expect(sponsorWallet).toEqual(
+        node.evm.deriveSponsorWalletFromMnemonic(airnodeWalletMnemonic, sponsor, PROTOCOL_ID_RRP_KEEPER).address
+      )
+    );
+  });
+
+  it('includes the sponsors of the config and the additional sponsors once', () => {
+    const sponsorWallets = deriveSponsorWallets(airkeeperConfig, [sponsor, sponsor]);
+
+    expect(sponsorWallets.psp.map(({ sponsor }) => sponsor)).toEqual(
+      uniq([...Object.values(airkeeperConfig.subscriptions).map(({ sponsor }) => sponsor), sponsor])
+    );
+    expect(sponsorWallets.rrpKeeper.map(({ sponsor }) => sponsor)).toEqual(
+      uniq([...airkeeperConfig.triggers.rrpBeaconServerKeeperJobs.map(({ keeperSponsor }) => keeperSponsor), sponsor])
+    );
+  });
+});
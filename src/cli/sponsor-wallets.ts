@@ -0,0 +1,31 @@
+import uniq from 'lodash/uniq';
+import { PROTOCOL_ID_PSP, PROTOCOL_ID_RRP_KEEPER } from '../constants';
+import { AirkeeperConfig } from '../validator';
+import { deriveSponsorWalletAddress } from '../wallet';
+
+/**
+ * Derives the PSP and RRP keeper sponsor wallet addresses of the sponsors in airkeeper.json together with the
+ * additional sponsors given.
+ */
+export const deriveSponsorWallets = (config: AirkeeperConfig, additionalSponsors: string[] = []) => {
+  const pspSponsors = uniq([
+    ...Object.values(config.subscriptions).map(({ sponsor }) => sponsor),
+    ...Object.values(config.beaconSets || {}).map(({ sponsor }) => sponsor),
+    ...additionalSponsors,
+  ]);
+  const rrpKeeperSponsors = uniq([
+    ...config.triggers.rrpBeaconServerKeeperJobs.map(({ keeperSponsor }) => keeperSponsor),
+    ...additionalSponsors,
+  ]);
+
+  return {
+    psp: pspSponsors.map((sponsor) => ({
+      sponsor,
+      sponsorWallet: deriveSponsorWalletAddress(config.airnodeXpub, sponsor, PROTOCOL_ID_PSP),
+    })),
+    rrpKeeper: rrpKeeperSponsors.map((sponsor) => ({
+      sponsor,
+      sponsorWallet: deriveSponsorWalletAddress(config.airnodeXpub, sponsor, PROTOCOL_ID_RRP_KEEPER),
+    })),
+  };
+};
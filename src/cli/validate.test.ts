@@ -0,0 +1,68 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import * as node from '@api3/airnode-node';
+import { findConfigProblems } from './validate';
+import { mergeConfigs } from '../config';
+import { AirkeeperConfig } from '../validator';
+
+const airnodeWalletMnemonic = 'achieve climb couple wait accident symbol spy blouse reduce foil echo label';
+const airnodeXpub =
+  'xpub6C8tvRgYkjNVaGMtpyZf4deBcUQHf7vgWUraVxY6gYiZhBYbPkFkLLWJzUUeVFdkKpVtatmXHX8kB76xgfmTpVZWbVWdq1rneaAY6a8RtbY';
+const airnodeAddress = '0xA30CA71Ba54E83127214D3271aEA8F5D6bD4Dace';
+
+const buildConfig = (airkeeperConfigOverrides: Partial<AirkeeperConfig> = {}) => {
+  const airnodeConfig: node.Config = JSON.parse(
+    readFileSync(join(__dirname, '../../config/config.example.json')).toString()
+  );
+  const airkeeperConfig: AirkeeperConfig = JSON.parse(
+    readFileSync(join(__dirname, '../../config/airkeeper.example.json')).toString()
+  );
+  return mergeConfigs(
+    { ...airnodeConfig, nodeSettings: { ...airnodeConfig.nodeSettings, airnodeWalletMnemonic } },
+    { ...airkeeperConfig, airnodeAddress, airnodeXpub, ...airkeeperConfigOverrides }
+  );
+};
+
+describe('findConfigProblems', () => {
+  it('returns no problems for a valid config', () => {
+    expect(findConfigProblems(buildConfig())).toEqual([]);
+  });
+
+  it('accepts a lowercase Airnode address', () => {
+    expect(findConfigProblems(buildConfig({ airnodeAddress: airnodeAddress.toLowerCase() }))).toEqual([]);
+  });
+
+  it('returns every problem at once', () => {
+    const config = buildConfig();
+    const [[templateId, template]] = Object.entries(config.templates);
+    const [[subscriptionId, subscription]] = Object.entries(config.subscriptions);
+    const [job] = config.triggers.rrpBeaconServerKeeperJobs;
+    const wrongId = '0x' + '1'.repeat(64);
+
+    const problems = findConfigProblems({
+      ...config,
+      airnodeAddress: '0x61648B2Ec3e6b3492E90184Ef281C2ba28a675ec',
+      templates: { [wrongId]: template },
+      subscriptions: { [subscriptionId]: { ...subscription, sponsor: '0x61648B2Ec3e6b3492E90184Ef281C2ba28a675ec' } },
+      aggregations: { [templateId]: { templateIds: [templateId], method: 'median', minimumResponses: 2 } },
+      beaconSets: {
+        [wrongId]: {
+          chainIds: ['31337'],
+          beaconIds: [wrongId, templateId],
+          deviationPercentage: '1',
+          sponsor: subscription.sponsor,
+        },
+      },
+      triggers: { ...config.triggers, rrpBeaconServerKeeperJobs: [{ ...job, deviationPercentage: '0.001' }] },
+    });
+
+    expect(problems).toEqual([
+      `xpub does not belong to Airnode: ${airnodeAddress}`,
+      `TemplateId ${wrongId} does not match expected ${templateId}`,
+      expect.stringMatching(new RegExp(`^SubscriptionId ${subscriptionId} does not match expected 0x[a-f0-9]{64}$`)),
+      `TemplateId ${templateId} has 1 source templates but requires at least 2 responses`,
+      expect.stringMatching(new RegExp(`^BeaconSetId ${wrongId} does not match expected 0x[a-f0-9]{64}$`)),
+      'DeviationPercentage 0.001 must be a number larger than 0 and less then or equal to 100 with no more than 2 decimal places',
+    ]);
+  });
+});
@@ -0,0 +1,128 @@
+import * as abi from '@api3/airnode-abi';
+import { goSync } from '@api3/promise-utils';
+import { ethers } from 'ethers';
+import { loadAirnodeConfig, mergeConfigs, readAirkeeperConfig } from '../config';
+import {
+  deriveBeaconSetId,
+  deriveEndpointId,
+  deriveRrpTemplateId,
+  deriveSubscriptionId,
+  deriveTemplateId,
+} from '../ids';
+import { Config } from '../types';
+import {
+  findReferenceProblems,
+  formatValidationIssues,
+  isValidDeviationPercentage,
+  validateConfig,
+} from '../validator';
+import { deriveAirnodeAddress } from '../wallet';
+
+/**
+ * Runs the same ID checks that the handlers run when initializing their state. Handlers skip the invalid entries with
+ * a warning while this function returns every problem found. References are expected to be checked beforehand.
+ */
+export const findConfigProblems = (config: Config): string[] => {
+  const { endpoints, templates, subscriptions, aggregations, beaconSets, triggers } = config;
+
+  const airnodeAddress = config.airnodeXpub
+    ? deriveAirnodeAddress(config.airnodeXpub)
+    : ethers.Wallet.fromMnemonic(config.nodeSettings.airnodeWalletMnemonic).address;
+  const airnodeProblems =
+    config.airnodeAddress && ethers.utils.getAddress(config.airnodeAddress) !== airnodeAddress
+      ? [`xpub does not belong to Airnode: ${airnodeAddress}`]
+      : [];
+
+  const endpointProblems = Object.entries(endpoints).flatMap(([endpointId, endpoint]) => {
+    const expectedEndpointId = deriveEndpointId(endpoint);
+    return expectedEndpointId !== endpointId
+      ? [`EndpointId ${endpointId} does not match expected ${expectedEndpointId}`]
+      : [];
+  });
+
+  const templateProblems = Object.entries(templates).flatMap(([templateId, template]) => {
+    const expectedTemplateId = deriveTemplateId(template);
+    return expectedTemplateId !== templateId
+      ? [`TemplateId ${templateId} does not match expected ${expectedTemplateId}`]
+      : [];
+  });
+
+  const subscriptionProblems = Object.entries(subscriptions).flatMap(([subscriptionId, subscription]) => {
+    const expectedSubscriptionId = deriveSubscriptionId(subscription);
+    return expectedSubscriptionId !== subscriptionId
+      ? [`SubscriptionId ${subscriptionId} does not match expected ${expectedSubscriptionId}`]
+      : [];
+  });
+
+  const aggregationProblems = Object.entries(aggregations).flatMap(([templateId, aggregation]) =>
+    aggregation.minimumResponses > aggregation.templateIds.length
+      ? [
+          `TemplateId ${templateId} has ${aggregation.templateIds.length} source templates but requires at least ${aggregation.minimumResponses} responses`,
+        ]
+      : []
+  );
+
+  const beaconSetProblems = Object.entries(beaconSets).flatMap(([beaconSetId, beaconSet]) => {
+    const expectedBeaconSetId = deriveBeaconSetId(beaconSet.beaconIds);
+    return expectedBeaconSetId !== beaconSetId
+      ? [`BeaconSetId ${beaconSetId} does not match expected ${expectedBeaconSetId}`]
+      : [];
+  });
+
+  const rrpProblems = triggers.rrpBeaconServerKeeperJobs.flatMap(
+    ({ templateId, templateParameters, endpointId, deviationPercentage }) => {
+      const expectedEndpointId = deriveEndpointId(endpoints[endpointId]);
+      const expectedTemplateId = deriveRrpTemplateId(airnodeAddress, endpointId, abi.encode(templateParameters));
+      return [
+        ...(expectedEndpointId !== endpointId
+          ? [`EndpointId ${endpointId} does not match expected ${expectedEndpointId}`]
+          : []),
+        ...(expectedTemplateId !== templateId
+          ? [`TemplateId ${templateId} does not match expected ${expectedTemplateId}`]
+          : []),
+        ...(!isValidDeviationPercentage(deviationPercentage)
+          ? [
+              `DeviationPercentage ${deviationPercentage} must be a number larger than 0 and less then or equal to 100 with no more than 2 decimal places`,
+            ]
+          : []),
+      ];
+    }
+  );
+
+  return [
+    ...airnodeProblems,
+    ...endpointProblems,
+    ...templateProblems,
+    ...subscriptionProblems,
+    ...aggregationProblems,
+    ...beaconSetProblems,
+    ...rrpProblems,
+  ];
+};
+
+/**
+ * Loads, validates and merges config.json and airkeeper.json and returns every problem found in them.
+ */
+export const validateConfigFiles = (): string[] => {
+  const airnodeConfig = goSync(loadAirnodeConfig);
+  const airkeeperConfig = goSync(readAirkeeperConfig);
+  const validationOutput = airkeeperConfig.success ? validateConfig(airkeeperConfig.data) : null;
+
+  const loadProblems = [
+    ...(airnodeConfig.success ? [] : [airnodeConfig.error.message]),
+    ...(airkeeperConfig.success ? [] : [`Failed to read airkeeper.json: ${airkeeperConfig.error.message}`]),
+    ...(validationOutput && !validationOutput.success
+      ? formatValidationIssues(validationOutput.error).map((issue) => `airkeeper.json ${issue}`)
+      : []),
+  ];
+  if (!airnodeConfig.success || !validationOutput?.success) {
+    return loadProblems;
+  }
+
+  const referenceProblems = findReferenceProblems(airnodeConfig.data, validationOutput.data);
+  if (referenceProblems.length > 0) {
+    return referenceProblems.map((problem) => `airkeeper.json ${problem}`);
+  }
+
+  return findConfigProblems(mergeConfigs(airnodeConfig.data, validationOutput.data));
+};
@@ -0,0 +1,186 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import * as node from '@api3/airnode-node';
+import {
+  interpolateSecrets,
+  loadAirnodeConfigWithoutMnemonic,
+  mergeAirkeeperConfigFiles,
+  readAirkeeperConfig,
+} from './config';
+import { AirkeeperConfig } from './validator';
+
+describe('interpolateSecrets', () => {
+  const config = {
+    chains: [{ id: '31337', contracts: { DapiServer: '${DAPI_SERVER_ADDRESS}' } }],
+    subscriptions: { '0x1': { sponsor: '${SPONSOR_ADDRESS}', parameters: '0x' } },
+    heartbeatIntervalSeconds: 86400,
+  };
+
+  it('replaces the referenced environment variables', () => {
+    expect(
+      interpolateSecrets(config, {
+        DAPI_SERVER_ADDRESS: '0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0',
+        SPONSOR_ADDRESS: '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC',
+      })
+    ).toEqual({
+      chains: [{ id: '31337', contracts: { DapiServer: '0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0' } }],
+      subscriptions: { '0x1': { sponsor: '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC', parameters: '0x' } },
+      heartbeatIntervalSeconds: 86400,
+    });
+  });
+
+  it('replaces multiple references in the same value', () => {
+    expect(interpolateSecrets({ url: 'https://${HOST}/${PATH}' }, { HOST: 'example.com', PATH: 'beacons' })).toEqual({
+      url: 'https://example.com/beacons',
+    });
+  });
+
+  it('throws listing every missing environment variable', () => {
+    expect(() => interpolateSecrets(config, { SPONSOR_ADDRESS: '' })).toThrow(
+      'Missing environment variables in Airkeeper configuration file: DAPI_SERVER_ADDRESS (referenced at chains[0].contracts.DapiServer)'
+    );
+    expect(() => interpolateSecrets(config, {})).toThrow(
+      'Missing environment variables in Airkeeper configuration file: DAPI_SERVER_ADDRESS (referenced at chains[0].contracts.DapiServer), SPONSOR_ADDRESS (referenced at subscriptions.0x1.sponsor)'
+    );
+  });
+});
+
+describe('loadAirnodeConfigWithoutMnemonic', () => {
+  const rawConfig = JSON.parse(fs.readFileSync(path.join(__dirname, '../config/config.example.json')).toString());
+  const secrets = { PROVIDER_URL: 'http://127.0.0.1:8545', SS_CURRENCY_CONVERTER_API_KEY: 'api-key' };
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('validates config.json without the mnemonic and the templates', () => {
+    const template = { templateId: '0x' + '1'.repeat(64), endpointId: '0x' + '2'.repeat(64), encodedParameters: '0x' };
+    jest.spyOn(fs, 'readFileSync').mockReturnValueOnce(JSON.stringify({ ...rawConfig, templates: [template] }));
+    const safeParseSpy = jest
+      .spyOn(node.config.configSchema, 'safeParse')
+      .mockImplementationOnce((config) => ({ success: true, data: config as node.Config }));
+
+    const config = loadAirnodeConfigWithoutMnemonic(secrets);
+
+    expect(safeParseSpy).toHaveBeenCalledWith(config);
+    expect(config.nodeSettings.airnodeWalletMnemonic).toEqual('');
+    expect(config.templates).toEqual([]);
+    expect(config.chains[0].providers.local.url).toEqual('http://127.0.0.1:8545');
+  });
+
+  it('throws if the other secrets are missing', () => {
+    jest.spyOn(fs, 'readFileSync').mockReturnValueOnce(JSON.stringify(rawConfig));
+
+    expect(() => loadAirnodeConfigWithoutMnemonic({ PROVIDER_URL: 'http://127.0.0.1:8545' })).toThrow(
+      'Missing environment variables in Airnode configuration file: SS_CURRENCY_CONVERTER_API_KEY (referenced at apiCredentials[0].securitySchemeValue)'
+    );
+  });
+});
+
+describe('readAirkeeperConfig', () => {
+  const airkeeperConfig: AirkeeperConfig = JSON.parse(
+    fs.readFileSync(path.join(__dirname, '../config/airkeeper.example.json')).toString()
+  );
+  const { subscriptions, templates, triggers, ...common } = airkeeperConfig;
+  let directory: string;
+
+  const writeConfigFile = (fileName: string, config: unknown) =>
+    fs.writeFileSync(path.join(directory, fileName), JSON.stringify(config));
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'airkeeper-config-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('reads the file set by AIRKEEPER_CONFIG_PATH', () => {
+    writeConfigFile('airkeeper.json', airkeeperConfig);
+
+    expect(readAirkeeperConfig({ AIRKEEPER_CONFIG_PATH: path.join(directory, 'airkeeper.json') })).toEqual(
+      airkeeperConfig
+    );
+  });
+
+  it('merges every .json file of the directory set by AIRKEEPER_CONFIG_PATH', () => {
+    writeConfigFile('common.json', {
+      ...common,
+      triggers: { rrpBeaconServerKeeperJobs: triggers.rrpBeaconServerKeeperJobs, protoPsp: [] },
+    });
+    writeConfigFile('eth-usd.json', {
+      subscriptions,
+      templates,
+      triggers: { rrpBeaconServerKeeperJobs: [], protoPsp: triggers.protoPsp },
+    });
+    writeConfigFile('README.md', '# Not a config file');
+
+    expect(readAirkeeperConfig({ AIRKEEPER_CONFIG_PATH: directory })).toEqual(airkeeperConfig);
+  });
+
+  it('throws if the directory has no config files', () => {
+    expect(() => readAirkeeperConfig({ AIRKEEPER_CONFIG_PATH: directory })).toThrow(
+      `No .json files found in ${directory}`
+    );
+  });
+
+  it('throws naming the file that cannot be parsed', () => {
+    fs.writeFileSync(path.join(directory, 'broken.json'), '{');
+
+    expect(() => readAirkeeperConfig({ AIRKEEPER_CONFIG_PATH: directory })).toThrow(
+      `Failed to parse ${path.join(directory, 'broken.json')}`
+    );
+  });
+
+  it('throws naming the file that does not contain an object', () => {
+    fs.writeFileSync(path.join(directory, 'chains.json'), '[]');
+
+    expect(() => readAirkeeperConfig({ AIRKEEPER_CONFIG_PATH: directory })).toThrow(
+      `${path.join(directory, 'chains.json')} must contain a JSON object`
+    );
+  });
+});
+
+describe('mergeAirkeeperConfigFiles', () => {
+  const subscriptionId = '0xc1ed31de05a9aa74410c24bccd6aa40235006f9063f1c65d47401e97ad04560e';
+  const templateId = '0xea30f92923ece1a97af69d450a8418db31be5a26a886540a13c09c739ba8eaaa';
+
+  it('throws listing every ID defined more than once and every conflicting field', () => {
+    const file = {
+      airnodeAddress: '0xA30CA71Ba54E83127214D3271aEA8F5D6bD4Dace',
+      chains: [{ id: '31337' }],
+      subscriptions: { [subscriptionId]: {} },
+      triggers: { rrpBeaconServerKeeperJobs: [{ templateId }], protoPsp: [subscriptionId] },
+    };
+
+    expect(() =>
+      mergeAirkeeperConfigFiles([
+        { name: 'eth-usd.json', config: file },
+        { name: 'btc-usd.json', config: { ...file, airnodeAddress: '0x15391C3E06Db67FD72bd80747D131d514E1EA674' } },
+        { name: 'common.json', config: { chains: [{ id: '1' }, { id: '1' }] } },
+      ])
+    ).toThrow(
+      [
+        'Invalid Airkeeper configuration files:',
+        `subscriptions.${subscriptionId} is defined more than once (eth-usd.json, btc-usd.json)`,
+        'Chain 31337 is defined more than once (eth-usd.json, btc-usd.json)',
+        `RRP beacon server keeper job of templateId ${templateId} is defined more than once (eth-usd.json, btc-usd.json)`,
+        `Proto-PSP subscriptionId ${subscriptionId} is defined more than once (eth-usd.json, btc-usd.json)`,
+        'Chain 1 is defined more than once (common.json, common.json)',
+        'airnodeAddress has conflicting values (eth-usd.json, btc-usd.json)',
+      ].join('\n')
+    );
+  });
+
+  it('allows the same shared field value in multiple files', () => {
+    const airnodeAddress = '0xA30CA71Ba54E83127214D3271aEA8F5D6bD4Dace';
+
+    expect(
+      mergeAirkeeperConfigFiles([
+        { name: 'a.json', config: { airnodeAddress, chains: [{ id: '1' }] } },
+        { name: 'b.json', config: { airnodeAddress, chains: [{ id: '31337' }] } },
+      ])
+    ).toEqual({ airnodeAddress, chains: [{ id: '1' }, { id: '31337' }] });
+  });
+});
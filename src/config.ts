@@ -1,44 +1,220 @@
 import fs from 'fs';
 import path from 'path';
 import * as node from '@api3/airnode-node';
-import isNil from 'lodash/isNil';
+import { goSync } from '@api3/promise-utils';
+import mapValues from 'lodash/mapValues';
 import merge from 'lodash/merge';
-import { AirkeeperConfig, validateConfig } from './validator';
+import mergeWith from 'lodash/mergeWith';
+import uniq from 'lodash/uniq';
+import {
+  AirkeeperConfig,
+  findReferenceProblems,
+  formatIssuePath,
+  formatValidationIssues,
+  validateConfig,
+} from './validator';
 
-export const loadAirnodeConfig = () => {
-  // This file must be the same as the one used by the @api3/airnode-node
-  const nodeConfigPath = path.resolve(__dirname, '..', 'config', `config.json`);
-  return node.config.loadConfig(nodeConfigPath, process.env);
+// This file must be the same as the one used by the @api3/airnode-node
+export const AIRNODE_CONFIG_PATH = path.resolve(__dirname, '..', 'config', `config.json`);
+export const DEFAULT_AIRKEEPER_CONFIG_PATH = path.resolve(__dirname, '..', 'config', `airkeeper.json`);
+
+// Either a single airkeeper.json file or a directory of files that are merged into one
+export const getAirkeeperConfigPath = (env: Record<string, string | undefined> = process.env) =>
+  env.AIRKEEPER_CONFIG_PATH ? path.resolve(env.AIRKEEPER_CONFIG_PATH) : DEFAULT_AIRKEEPER_CONFIG_PATH;
+
+export const loadAirnodeConfig = () => node.config.loadConfig(AIRNODE_CONFIG_PATH, process.env);
+
+const SECRET_PATTERN = /\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g;
+
+const findSecretReferences = (value: unknown, path: (string | number)[]): { name: string; path: string }[] => {
+  if (typeof value === 'string') {
+    return (value.match(SECRET_PATTERN) || []).map((match) => ({
+      name: match.slice(2, -1),
+      path: formatIssuePath(path),
+    }));
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap((item, index) => findSecretReferences(item, [...path, index]));
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.entries(value).flatMap(([key, item]) => findSecretReferences(item, [...path, key]));
+  }
+  return [];
+};
+
+const replaceSecrets = (value: unknown, secrets: Record<string, string | undefined>): unknown => {
+  if (typeof value === 'string') {
+    return value.replace(SECRET_PATTERN, (_match, name: string) => secrets[name]!);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => replaceSecrets(item, secrets));
+  }
+  if (value !== null && typeof value === 'object') {
+    return mapValues(value, (item) => replaceSecrets(item, secrets));
+  }
+  return value;
+};
+
+/**
+ * Replaces the `${VAR}` references in the string values of the config the same way Airnode does for config.json.
+ * Throws listing every referenced variable that is not defined.
+ */
+export const interpolateSecrets = <T>(
+  config: T,
+  secrets: Record<string, string | undefined>,
+  configName = 'Airkeeper configuration file'
+): T => {
+  const missingSecrets = findSecretReferences(config, []).filter(({ name }) => secrets[name] === undefined);
+  if (missingSecrets.length > 0) {
+    const missing = missingSecrets.map(({ name, path }) => `${name} (referenced at ${path})`).join(', ');
+    throw new Error(`Missing environment variables in ${configName}: ${missing}`);
+  }
+
+  return replaceSecrets(config, secrets) as T;
 };
 
+/**
+ * Loads config.json for the processes that never sign with the Airnode mnemonic, such as the PSP coordinator, so that
+ * the mnemonic does not have to be in their environment. The mnemonic is left empty and the templates of config.json,
+ * which Airnode verifies against the mnemonic and which are replaced by the ones in airkeeper.json, are dropped.
+ */
+export const loadAirnodeConfigWithoutMnemonic = (env: Record<string, string | undefined> = process.env) => {
+  const goRawConfig = goSync(() => JSON.parse(fs.readFileSync(AIRNODE_CONFIG_PATH, 'utf8')));
+  if (!goRawConfig.success) {
+    throw new Error('Failed to parse config file');
+  }
+  const rawConfig = goRawConfig.data;
+
+  const parsedConfig = node.config.configSchema.safeParse(
+    interpolateSecrets(
+      { ...rawConfig, nodeSettings: { ...rawConfig.nodeSettings, airnodeWalletMnemonic: '' }, templates: [] },
+      env,
+      'Airnode configuration file'
+    )
+  );
+  if (!parsedConfig.success) {
+    throw new Error(`Invalid Airnode configuration file: ${parsedConfig.error}`);
+  }
+  return parsedConfig.data;
+};
+
+// The files are validated only after being merged so their contents are unknown until then
+interface AirkeeperConfigFile {
+  name: string;
+  config: Record<string, unknown>;
+}
+
+const ENTRY_SECTIONS = ['subscriptions', 'templates', 'aggregations', 'beaconSets', 'endpoints'];
+const SHARED_FIELDS = ['airnodeAddress', 'airnodeXpub'];
+
+const asRecord = (value: unknown): Record<string, unknown> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+
+const asArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+// Describes every ID that a file defines so that IDs defined more than once can be reported
+const listDefinedIds = ({ config }: AirkeeperConfigFile): string[] => {
+  const triggers = asRecord(config.triggers);
+  return [
+    ...ENTRY_SECTIONS.flatMap((section) => Object.keys(asRecord(config[section])).map((id) => `${section}.${id}`)),
+    ...asArray(config.chains).map((chain) => `Chain ${asRecord(chain).id}`),
+    ...asArray(triggers.rrpBeaconServerKeeperJobs).map(
+      (job) => `RRP beacon server keeper job of templateId ${asRecord(job).templateId}`
+    ),
+    ...asArray(triggers.protoPsp).map((subscriptionId) => `Proto-PSP subscriptionId ${subscriptionId}`),
+  ];
+};
+
+/**
+ * Merges the config files in order. Arrays (e.g. chains or RRP beacon server keeper jobs) are concatenated and objects
+ * are deep merged. Throws listing every ID that is defined more than once and every conflicting shared field.
+ */
+export const mergeAirkeeperConfigFiles = (files: AirkeeperConfigFile[]) => {
+  const definedIds = files.reduce(
+    (ids, file) => listDefinedIds(file).reduce((acc, id) => acc.set(id, [...(acc.get(id) || []), file.name]), ids),
+    new Map<string, string[]>()
+  );
+  const duplicateProblems = Array.from(definedIds.entries())
+    .filter(([, fileNames]) => fileNames.length > 1)
+    .map(([id, fileNames]) => `${id} is defined more than once (${fileNames.join(', ')})`);
+  const conflictProblems = SHARED_FIELDS.flatMap((field) => {
+    const definingFiles = files.filter(({ config }) => config[field] !== undefined);
+    return uniq(definingFiles.map(({ config }) => config[field])).length > 1
+      ? [`${field} has conflicting values (${definingFiles.map(({ name }) => name).join(', ')})`]
+      : [];
+  });
+  const problems = [...duplicateProblems, ...conflictProblems];
+  if (problems.length > 0) {
+    throw new Error(`Invalid Airkeeper configuration files:\n${problems.join('\n')}`);
+  }
+
+  return files.reduce<Record<string, unknown>>(
+    (merged, { config }) =>
+      mergeWith({}, merged, config, (objValue: unknown, srcValue: unknown) =>
+        Array.isArray(objValue) && Array.isArray(srcValue) ? [...objValue, ...srcValue] : undefined
+      ),
+    {}
+  );
+};
+
+const readAirkeeperConfigFiles = (configPath: string): AirkeeperConfigFile[] => {
+  const filePaths = fs.statSync(configPath).isDirectory()
+    ? fs
+        .readdirSync(configPath)
+        .filter((fileName) => fileName.endsWith('.json'))
+        .sort()
+        .map((fileName) => path.join(configPath, fileName))
+    : [configPath];
+  if (filePaths.length === 0) {
+    throw new Error(`No .json files found in ${configPath}`);
+  }
+
+  return filePaths.map((filePath) => {
+    const goConfig = goSync(() => JSON.parse(fs.readFileSync(filePath, 'utf8')));
+    if (!goConfig.success) {
+      throw new Error(`Failed to parse ${filePath}: ${goConfig.error.message}`);
+    }
+    if (goConfig.data === null || typeof goConfig.data !== 'object' || Array.isArray(goConfig.data)) {
+      throw new Error(`${filePath} must contain a JSON object`);
+    }
+    return { name: path.basename(filePath), config: goConfig.data as Record<string, unknown> };
+  });
+};
+
+export const readAirkeeperConfig = (env: Record<string, string | undefined> = process.env) =>
+  interpolateSecrets(mergeAirkeeperConfigFiles(readAirkeeperConfigFiles(getAirkeeperConfigPath(env))), env);
+
 export const loadAirkeeperConfig = () => {
-  const configPath = path.resolve(__dirname, '..', 'config', `airkeeper.json`);
-  const airkeeperConfig = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+  const airkeeperConfig = readAirkeeperConfig();
 
   const validationOutput = validateConfig(airkeeperConfig);
   if (!validationOutput.success) {
-    throw new Error(`Invalid Airkeeper configuration file: ${JSON.stringify(validationOutput.error, null, 2)}`);
+    const issues = formatValidationIssues(validationOutput.error);
+    throw new Error(`Invalid Airkeeper configuration file:\n${issues.join('\n')}`);
   }
 
   return validationOutput.data;
 };
 
 export const mergeConfigs = (airnodeConfig: node.Config, airkeeperConfig: AirkeeperConfig) => {
+  // Every dangling reference is reported at once instead of being skipped with a warning at runtime
+  const referenceProblems = findReferenceProblems(airnodeConfig, airkeeperConfig);
+  if (referenceProblems.length > 0) {
+    throw new Error(`Invalid references in Airkeeper configuration file:\n${referenceProblems.join('\n')}`);
+  }
+
   return {
     ...airnodeConfig,
-    chains: airkeeperConfig.chains.map((chain) => {
-      if (isNil(chain.id)) {
-        throw new Error(`Missing 'id' property in chain config: ${JSON.stringify(chain)}`);
-      }
-      const configChain = airnodeConfig.chains.find((c) => c.id === chain.id);
-      if (isNil(configChain)) {
-        throw new Error(`Chain id ${chain.id} not found in node config.json`);
-      }
-      return merge(configChain, chain);
-    }),
+    airnodeAddress: airkeeperConfig.airnodeAddress,
+    airnodeXpub: airkeeperConfig.airnodeXpub,
+    chains: airkeeperConfig.chains.map((chain) => merge(airnodeConfig.chains.find((c) => c.id === chain.id)!, chain)),
     triggers: { ...airnodeConfig.triggers, ...airkeeperConfig.triggers },
     subscriptions: airkeeperConfig.subscriptions,
     templates: airkeeperConfig.templates,
+    aggregations: airkeeperConfig.aggregations || {},
+    beaconSets: airkeeperConfig.beaconSets || {},
     endpoints: airkeeperConfig.endpoints,
   };
 };
+
+export const isDryRun = (event: { dryRun?: boolean } = {}) => event.dryRun === true || process.env.DRY_RUN === 'true';
@@ -7,14 +7,38 @@ export const TIMEOUT_MS = 5_000;
 // The default amount of retries
 export const RETRIES = 1;
 
+// The default interval between the start of two consecutive PSP or RRP cycles when running as a daemon
+export const DAEMON_CYCLE_INTERVAL_MS = 60_000;
+
+// The default port of the Prometheus metrics endpoint when running as a daemon
+export const DAEMON_METRICS_PORT = 9464;
+
 // The Priority Fee in Wei
 export const PRIORITY_FEE_IN_WEI = 3_120_000_000;
 
 // The Base Fee to Max Fee multiplier
 export const BASE_FEE_MULTIPLIER = 2;
 
+// The default percentage by which the fees of a stuck transaction are bumped when it is replaced
+export const STUCK_TRANSACTION_FEE_BUMP_PERCENTAGE = 20;
+
+// DapiServer rejects PSP fulfillments whose signed timestamp is more than an hour old
+export const FULFILLMENT_VALIDITY_SECONDS = 60 * 60;
+
 // The default gas limit for transactions
 export const GAS_LIMIT = 500_000;
 
+// The maximum number of slots to enumerate for each allocator when discovering active subscriptions
+export const ALLOCATOR_SLOT_LIMIT = 100;
+
+// The multiplier applied to the minimum sponsor wallet balance to get the default low balance warning threshold
+export const LOW_BALANCE_WARNING_MULTIPLIER = 2;
+
+// The protocol id for RRP used when deriving the sponsor wallet addresses of RRP requests
+export const PROTOCOL_ID_RRP = '1';
+
 // The protocol id for PSP used when deriving sponsor wallet addresses
 export const PROTOCOL_ID_PSP = '2';
+
+// The protocol id for RRP beacon server keeper jobs used when deriving keeper sponsor wallet addresses
+export const PROTOCOL_ID_RRP_KEEPER = '12345';
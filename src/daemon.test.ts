@@ -0,0 +1,33 @@
+import { parseIntervalMs, parseMetricsPort } from './daemon';
+import { DAEMON_CYCLE_INTERVAL_MS, DAEMON_METRICS_PORT } from './constants';
+
+describe('parseIntervalMs', () => {
+  it('returns the default interval if the value is not set', () => {
+    expect(parseIntervalMs('PSP_INTERVAL_MS')).toEqual(DAEMON_CYCLE_INTERVAL_MS);
+    expect(parseIntervalMs('PSP_INTERVAL_MS', '')).toEqual(DAEMON_CYCLE_INTERVAL_MS);
+  });
+
+  it('parses sub-minute intervals', () => {
+    expect(parseIntervalMs('PSP_INTERVAL_MS', '15000')).toEqual(15_000);
+  });
+
+  it('throws if the interval is not a positive integer', () => {
+    expect(() => parseIntervalMs('RRP_INTERVAL_MS', '0')).toThrow(
+      'RRP_INTERVAL_MS must be a positive integer number of milliseconds but it was 0'
+    );
+    expect(() => parseIntervalMs('RRP_INTERVAL_MS', 'fast')).toThrow();
+    expect(() => parseIntervalMs('RRP_INTERVAL_MS', '1.5')).toThrow();
+  });
+});
+
+describe('parseMetricsPort', () => {
+  it('returns the default port if the value is not set', () => {
+    expect(parseMetricsPort()).toEqual(DAEMON_METRICS_PORT);
+    expect(parseMetricsPort('')).toEqual(DAEMON_METRICS_PORT);
+  });
+
+  it('throws if the value is not a valid port', () => {
+    expect(() => parseMetricsPort('0')).toThrow('METRICS_PORT must be a valid port number but it was 0');
+    expect(() => parseMetricsPort('70000')).toThrow();
+  });
+});
@@ -0,0 +1,144 @@
+import * as utils from '@api3/airnode-utilities';
+import { goSync } from '@api3/promise-utils';
+import isNil from 'lodash/isNil';
+import {
+  isDryRun,
+  loadAirkeeperConfig,
+  loadAirnodeConfig,
+  loadAirnodeConfigWithoutMnemonic,
+  mergeConfigs,
+} from './config';
+import { DAEMON_CYCLE_INTERVAL_MS, DAEMON_METRICS_PORT } from './constants';
+import { updateBeacon as updatePspBeacons } from './handlers/psp';
+import { updateBeacon as updateRrpBeacons } from './handlers/rrp';
+import { serveMetrics } from './metrics';
+import { scheduleCycle } from './scheduler';
+import { createSigner, isMnemonicRequired } from './signer';
+import { createStateStore } from './state-store';
+import { Config, LocalWorkerResources } from './types';
+
+export interface DaemonOptions {
+  pspIntervalMs: number;
+  rrpIntervalMs: number;
+  dryRun: boolean;
+}
+
+export const parseIntervalMs = (name: string, value?: string) => {
+  if (isNil(value) || value === '') {
+    return DAEMON_CYCLE_INTERVAL_MS;
+  }
+  const intervalMs = Number(value);
+  if (!Number.isInteger(intervalMs) || intervalMs <= 0) {
+    throw new Error(`${name} must be a positive integer number of milliseconds but it was ${value}`);
+  }
+  return intervalMs;
+};
+
+export const parseMetricsPort = (value?: string) => {
+  if (isNil(value) || value === '') {
+    return DAEMON_METRICS_PORT;
+  }
+  const port = Number(value);
+  if (!Number.isInteger(port) || port <= 0 || port > 65_535) {
+    throw new Error(`METRICS_PORT must be a valid port number but it was ${value}`);
+  }
+  return port;
+};
+
+export const startDaemon = (
+  config: Config,
+  localWorkerResources: LocalWorkerResources,
+  { pspIntervalMs, rrpIntervalMs, dryRun }: DaemonOptions
+) => {
+  const baseLogOptions = utils.buildBaseOptions(config, { coordinatorId: utils.randomHexString(8) });
+  utils.logger.info(
+    `Starting Airkeeper daemon with PSP interval of ${pspIntervalMs}ms and RRP interval of ${rrpIntervalMs}ms`,
+    baseLogOptions
+  );
+
+  // Subscriptions are processed by the local worker since there are no Lambda functions to invoke
+  const cycles = [
+    scheduleCycle(
+      'PSP beacon update',
+      pspIntervalMs,
+      () => updatePspBeacons(config, dryRun, 'local', localWorkerResources),
+      baseLogOptions
+    ),
+    scheduleCycle(
+      'RRP beacon update',
+      rrpIntervalMs,
+      () => updateRrpBeacons(config, dryRun, localWorkerResources),
+      baseLogOptions
+    ),
+  ];
+
+  return {
+    stop: async () => {
+      utils.logger.info('Stopping Airkeeper daemon. Waiting for running cycles to finish...', baseLogOptions);
+      await Promise.all(cycles.map((cycle) => cycle.stop()));
+      utils.logger.info('Airkeeper daemon stopped', baseLogOptions);
+    },
+  };
+};
+
+export const main = () => {
+  const airnodeConfig = goSync(() => (isMnemonicRequired() ? loadAirnodeConfig() : loadAirnodeConfigWithoutMnemonic()));
+  if (!airnodeConfig.success) {
+    utils.logger.error(airnodeConfig.error.message);
+    throw airnodeConfig.error;
+  }
+  // This file will be merged with config.json from above
+  const airkeeperConfig = goSync(loadAirkeeperConfig);
+  if (!airkeeperConfig.success) {
+    utils.logger.error(airkeeperConfig.error.message);
+    throw airkeeperConfig.error;
+  }
+  // Config is only loaded once for the lifetime of the daemon
+  const config = goSync(() => mergeConfigs(airnodeConfig.data, airkeeperConfig.data));
+  if (!config.success) {
+    utils.logger.error(config.error.message);
+    throw config.error;
+  }
+
+  // The local worker and the RRP cycles use the same signer and state store instead of loading them again
+  const airnodeSigner = goSync(() =>
+    createSigner({
+      airnodeWalletMnemonic: config.data.nodeSettings.airnodeWalletMnemonic,
+      airnodeXpub: config.data.airnodeXpub,
+    })
+  );
+  if (!airnodeSigner.success) {
+    utils.logger.error(airnodeSigner.error.message);
+    throw airnodeSigner.error;
+  }
+  const stateStore = goSync(createStateStore);
+  if (!stateStore.success) {
+    utils.logger.error(stateStore.error.message);
+    throw stateStore.error;
+  }
+
+  const daemon = startDaemon(
+    config.data,
+    { airnodeSigner: airnodeSigner.data, stateStore: stateStore.data },
+    {
+      pspIntervalMs: parseIntervalMs('PSP_INTERVAL_MS', process.env.PSP_INTERVAL_MS),
+      rrpIntervalMs: parseIntervalMs('RRP_INTERVAL_MS', process.env.RRP_INTERVAL_MS),
+      dryRun: isDryRun(),
+    }
+  );
+  const metricsPort = parseMetricsPort(process.env.METRICS_PORT);
+  const metricsServer = serveMetrics(metricsPort);
+  utils.logger.info(`Serving Prometheus metrics on port ${metricsPort} at /metrics`);
+
+  const shutdown = () =>
+    daemon
+      .stop()
+      .then(() => metricsServer.close())
+      .then(() => process.exit(0));
+  process.once('SIGTERM', shutdown);
+  process.once('SIGINT', shutdown);
+};
+
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,118 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { ethers } from 'ethers';
+import { fetchSponsorshipStatus, fetchSubscription, fetchTemplate } from './airnode-protocol';
+import { deriveSubscriptionId, deriveTemplateId } from '../ids';
+import { AirkeeperConfig } from '../validator';
+
+const airkeeperConfig: AirkeeperConfig = JSON.parse(
+  readFileSync(join(__dirname, '../../config/airkeeper.example.json')).toString()
+);
+const [subscriptionId] = Object.keys(airkeeperConfig.subscriptions);
+const subscription = airkeeperConfig.subscriptions[subscriptionId];
+const [templateId] = Object.keys(airkeeperConfig.templates);
+const template = airkeeperConfig.templates[templateId];
+
+describe('fetchSubscription', () => {
+  it('returns the subscription stored in AirnodeProtocol', async () => {
+    const subscriptionsSpy = jest.fn().mockResolvedValue({
+      ...subscription,
+      chainId: ethers.BigNumber.from(subscription.chainId),
+      airnode: subscription.airnodeAddress,
+    });
+    const airnodeProtocol = { subscriptions: subscriptionsSpy } as any;
+
+    const [logs, data] = await fetchSubscription(airnodeProtocol, subscriptionId);
+
+    expect(subscriptionsSpy).toHaveBeenCalledWith(subscriptionId);
+    expect(logs).toEqual([]);
+    expect(data).toEqual(subscription);
+    expect(deriveSubscriptionId(data!)).toEqual(subscriptionId);
+  });
+
+  it('returns null if subscription is not stored in AirnodeProtocol', async () => {
+    const airnodeProtocol = {
+      subscriptions: jest.fn().mockResolvedValue({
+        chainId: ethers.constants.Zero,
+        airnode: ethers.constants.AddressZero,
+      }),
+    } as any;
+
+    const [logs, data] = await fetchSubscription(airnodeProtocol, subscriptionId);
+
+    expect(logs).toEqual([{ level: 'DEBUG', message: `Subscription ${subscriptionId} not found in AirnodeProtocol` }]);
+    expect(data).toEqual(null);
+  });
+
+  it('returns null with error log if the call fails', async () => {
+    const airnodeProtocol = { subscriptions: jest.fn().mockRejectedValue(new Error('Network error')) } as any;
+
+    const [logs, data] = await fetchSubscription(airnodeProtocol, subscriptionId);
+
+    expect(logs).toEqual([
+      {
+        level: 'ERROR',
+        message: `Failed to fetch subscription ${subscriptionId} from AirnodeProtocol`,
+        error: new Error('Network error'),
+      },
+    ]);
+    expect(data).toEqual(null);
+  });
+});
+
+describe('fetchTemplate', () => {
+  it('returns the template stored in AirnodeProtocol', async () => {
+    const templatesSpy = jest
+      .fn()
+      .mockResolvedValue({ endpointId: template.endpointId, parameters: template.templateParameters });
+    const airnodeProtocol = { templates: templatesSpy } as any;
+
+    const [logs, data] = await fetchTemplate(airnodeProtocol, templateId);
+
+    expect(templatesSpy).toHaveBeenCalledWith(templateId);
+    expect(logs).toEqual([]);
+    expect(data).toEqual(template);
+    expect(deriveTemplateId(data!)).toEqual(templateId);
+  });
+
+  it('returns null if template is not stored in AirnodeProtocol', async () => {
+    const airnodeProtocol = {
+      templates: jest.fn().mockResolvedValue({ endpointId: ethers.constants.HashZero, parameters: '0x' }),
+    } as any;
+
+    const [logs, data] = await fetchTemplate(airnodeProtocol, templateId);
+
+    expect(logs).toEqual([{ level: 'DEBUG', message: `Template ${templateId} not found in AirnodeProtocol` }]);
+    expect(data).toEqual(null);
+  });
+});
+
+describe('fetchSponsorshipStatus', () => {
+  it('returns the PSP sponsorship status of the sponsor for the subscription', async () => {
+    const sponsorshipStatusSpy = jest.fn().mockResolvedValue(true);
+    const airnodeProtocol = { sponsorToSubscriptionIdToPspSponsorshipStatus: sponsorshipStatusSpy } as any;
+
+    const [logs, data] = await fetchSponsorshipStatus(airnodeProtocol, subscription.sponsor, subscriptionId);
+
+    expect(sponsorshipStatusSpy).toHaveBeenCalledWith(subscription.sponsor, subscriptionId);
+    expect(logs).toEqual([]);
+    expect(data).toEqual(true);
+  });
+
+  it('returns null with error log if the call fails', async () => {
+    const airnodeProtocol = {
+      sponsorToSubscriptionIdToPspSponsorshipStatus: jest.fn().mockRejectedValue(new Error('Network error')),
+    } as any;
+
+    const [logs, data] = await fetchSponsorshipStatus(airnodeProtocol, subscription.sponsor, subscriptionId);
+
+    expect(logs).toEqual([
+      {
+        level: 'ERROR',
+        message: `Failed to fetch PSP sponsorship status of sponsor ${subscription.sponsor} for subscription ${subscriptionId}`,
+        error: new Error('Network error'),
+      },
+    ]);
+    expect(data).toEqual(null);
+  });
+});
@@ -0,0 +1,88 @@
+import * as node from '@api3/airnode-node';
+import * as utils from '@api3/airnode-utilities';
+import { go } from '@api3/promise-utils';
+import { ethers } from 'ethers';
+import { TIMEOUT_MS, RETRIES } from '../constants';
+import { Subscription, Template } from '../validator';
+
+export const fetchSubscription = async (
+  airnodeProtocol: ethers.Contract,
+  subscriptionId: string
+): Promise<node.LogsData<Subscription | null>> => {
+  const goSubscription = await go<ethers.utils.Result, Error>(() => airnodeProtocol.subscriptions(subscriptionId), {
+    attemptTimeoutMs: TIMEOUT_MS,
+    retries: RETRIES,
+  });
+  if (!goSubscription.success) {
+    const message = `Failed to fetch subscription ${subscriptionId} from AirnodeProtocol`;
+    const log = utils.logger.pend('ERROR', message, goSubscription.error);
+    return [[log], null];
+  }
+
+  // Subscriptions that have not been stored are returned with all fields set to zero values
+  const { chainId, airnode, templateId, parameters, conditions, relayer, sponsor, requester, fulfillFunctionId } =
+    goSubscription.data;
+  if (airnode === ethers.constants.AddressZero) {
+    const message = `Subscription ${subscriptionId} not found in AirnodeProtocol`;
+    const log = utils.logger.pend('DEBUG', message);
+    return [[log], null];
+  }
+
+  return [
+    [],
+    {
+      chainId: chainId.toString(),
+      airnodeAddress: airnode,
+      templateId,
+      parameters,
+      conditions,
+      relayer,
+      sponsor,
+      requester,
+      fulfillFunctionId,
+    },
+  ];
+};
+
+export const fetchTemplate = async (
+  airnodeProtocol: ethers.Contract,
+  templateId: string
+): Promise<node.LogsData<Template | null>> => {
+  const goTemplate = await go<ethers.utils.Result, Error>(() => airnodeProtocol.templates(templateId), {
+    attemptTimeoutMs: TIMEOUT_MS,
+    retries: RETRIES,
+  });
+  if (!goTemplate.success) {
+    const message = `Failed to fetch template ${templateId} from AirnodeProtocol`;
+    const log = utils.logger.pend('ERROR', message, goTemplate.error);
+    return [[log], null];
+  }
+
+  // Templates that have not been stored are returned with all fields set to zero values
+  const { endpointId, parameters } = goTemplate.data;
+  if (endpointId === ethers.constants.HashZero) {
+    const message = `Template ${templateId} not found in AirnodeProtocol`;
+    const log = utils.logger.pend('DEBUG', message);
+    return [[log], null];
+  }
+
+  return [[], { endpointId, templateParameters: parameters }];
+};
+
+export const fetchSponsorshipStatus = async (
+  airnodeProtocol: ethers.Contract,
+  sponsor: string,
+  subscriptionId: string
+): Promise<node.LogsData<boolean | null>> => {
+  const goStatus = await go<boolean, Error>(
+    () => airnodeProtocol.sponsorToSubscriptionIdToPspSponsorshipStatus(sponsor, subscriptionId),
+    { attemptTimeoutMs: TIMEOUT_MS, retries: RETRIES }
+  );
+  if (!goStatus.success) {
+    const message = `Failed to fetch PSP sponsorship status of sponsor ${sponsor} for subscription ${subscriptionId}`;
+    const log = utils.logger.pend('ERROR', message, goStatus.error);
+    return [[log], null];
+  }
+
+  return [[], goStatus.data];
+};
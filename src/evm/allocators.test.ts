@@ -0,0 +1,113 @@
+import { AllocatorWithManager__factory as AllocatorWithManagerFactory } from '@api3/airnode-protocol-v1';
+import { ethers } from 'ethers';
+import { fetchAllocatorSubscriptionIds } from './allocators';
+
+describe('fetchAllocatorSubscriptionIds', () => {
+  const airnodeAddress = '0xA30CA71Ba54E83127214D3271aEA8F5D6bD4Dace';
+  const allocatorAddress = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+  const subscriptionIds = [
+    '0xc1ed31de05a9aa74410c24bccd6aa40235006f9063f1c65d47401e97ad04560e',
+    '0x8b7f8ad5d8a25e4fa4a5b7b9d4e49cad9f08e48a7f6c4a8c7c4c9c2c0e2b9d8f',
+  ];
+  const futureTimestamp = ethers.BigNumber.from(Math.floor(Date.now() / 1000) + 3600);
+  const emptySlot = { subscriptionId: ethers.constants.HashZero, expirationTimestamp: ethers.constants.Zero };
+
+  const allocatorInterface = new ethers.utils.Interface(AllocatorWithManagerFactory.abi);
+  const encodeSlots = (slots: { subscriptionId: string; expirationTimestamp: ethers.BigNumber }[]) =>
+    slots.map(({ subscriptionId, expirationTimestamp }) =>
+      allocatorInterface.encodeFunctionResult('airnodeToSlotIndexToSlot', [
+        subscriptionId,
+        ethers.constants.AddressZero,
+        expirationTimestamp,
+      ])
+    );
+
+  let multicallSpy: jest.Mock;
+  let airnodeToSlotIndexToSlotSpy: jest.Mock;
+  let allocator: any;
+
+  beforeEach(() => {
+    multicallSpy = jest.fn();
+    airnodeToSlotIndexToSlotSpy = jest.fn();
+    allocator = {
+      address: allocatorAddress,
+      interface: allocatorInterface,
+      callStatic: { multicall: multicallSpy },
+      airnodeToSlotIndexToSlot: airnodeToSlotIndexToSlotSpy,
+    };
+  });
+
+  it('reads all slots up to the slot limit with a single multicall and skips empty slots', async () => {
+    multicallSpy.mockResolvedValueOnce(
+      encodeSlots([
+        { subscriptionId: subscriptionIds[0], expirationTimestamp: futureTimestamp },
+        emptySlot,
+        { subscriptionId: subscriptionIds[1], expirationTimestamp: futureTimestamp },
+        emptySlot,
+        emptySlot,
+      ])
+    );
+
+    const [logs, data] = await fetchAllocatorSubscriptionIds(allocator, airnodeAddress, 5);
+
+    expect(multicallSpy).toHaveBeenCalledTimes(1);
+    expect(multicallSpy).toHaveBeenCalledWith(
+      [0, 1, 2, 3, 4].map((slotIndex) =>
+        allocatorInterface.encodeFunctionData('airnodeToSlotIndexToSlot', [airnodeAddress, slotIndex])
+      )
+    );
+    expect(airnodeToSlotIndexToSlotSpy).not.toHaveBeenCalled();
+    expect(logs).toEqual([]);
+    expect(data).toEqual(subscriptionIds);
+  });
+
+  it('skips expired slots', async () => {
+    multicallSpy.mockResolvedValueOnce(
+      encodeSlots([
+        { subscriptionId: subscriptionIds[0], expirationTimestamp: ethers.BigNumber.from(1) },
+        { subscriptionId: subscriptionIds[1], expirationTimestamp: futureTimestamp },
+        emptySlot,
+      ])
+    );
+
+    const [logs, data] = await fetchAllocatorSubscriptionIds(allocator, airnodeAddress, 3);
+
+    expect(logs).toEqual([{ level: 'DEBUG', message: `Slot 0 of allocator ${allocatorAddress} has expired` }]);
+    expect(data).toEqual([subscriptionIds[1]]);
+  });
+
+  it('reads the slots individually and keeps the ones that can be read if the multicall fails', async () => {
+    multicallSpy.mockRejectedValue(new Error('Network error'));
+    const slots = [
+      { subscriptionId: subscriptionIds[0], expirationTimestamp: futureTimestamp },
+      null,
+      { subscriptionId: subscriptionIds[1], expirationTimestamp: futureTimestamp },
+      emptySlot,
+    ];
+    airnodeToSlotIndexToSlotSpy.mockImplementation((_airnodeAddress: string, slotIndex: number) =>
+      slots[slotIndex] ? Promise.resolve(slots[slotIndex]) : Promise.reject(new Error('Network error'))
+    );
+
+    const [logs, data] = await fetchAllocatorSubscriptionIds(allocator, airnodeAddress, 4);
+
+    expect(airnodeToSlotIndexToSlotSpy).toHaveBeenCalledWith(airnodeAddress, 3);
+    expect(logs).toEqual([
+      {
+        level: 'ERROR',
+        message: `Failed to fetch slot 1 from allocator ${allocatorAddress}`,
+        error: new Error('Network error'),
+      },
+    ]);
+    expect(data).toEqual(subscriptionIds);
+  });
+
+  it('returns null if none of the slots can be read', async () => {
+    multicallSpy.mockRejectedValue(new Error('Network error'));
+    airnodeToSlotIndexToSlotSpy.mockRejectedValue(new Error('Network error'));
+
+    const [logs, data] = await fetchAllocatorSubscriptionIds(allocator, airnodeAddress, 2);
+
+    expect(logs).toHaveLength(2);
+    expect(data).toBeNull();
+  });
+});
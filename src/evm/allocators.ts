@@ -0,0 +1,96 @@
+import * as node from '@api3/airnode-node';
+import * as utils from '@api3/airnode-utilities';
+import { go, goSync } from '@api3/promise-utils';
+import { ethers } from 'ethers';
+import isNil from 'lodash/isNil';
+import range from 'lodash/range';
+import { ALLOCATOR_SLOT_LIMIT, TIMEOUT_MS, RETRIES } from '../constants';
+
+interface Slot {
+  subscriptionId: string;
+  expirationTimestamp: ethers.BigNumber;
+}
+
+const fetchSlot = async (
+  allocator: ethers.Contract,
+  airnodeAddress: string,
+  slotIndex: number
+): Promise<node.LogsData<Slot | null>> => {
+  const goSlot = await go<ethers.utils.Result, Error>(
+    () => allocator.airnodeToSlotIndexToSlot(airnodeAddress, slotIndex),
+    { attemptTimeoutMs: TIMEOUT_MS, retries: RETRIES }
+  );
+  if (!goSlot.success) {
+    const message = `Failed to fetch slot ${slotIndex} from allocator ${allocator.address}`;
+    return [[utils.logger.pend('ERROR', message, goSlot.error)], null];
+  }
+
+  const { subscriptionId, expirationTimestamp } = goSlot.data;
+  return [[], { subscriptionId, expirationTimestamp: ethers.BigNumber.from(expirationTimestamp) }];
+};
+
+const fetchSlots = async (
+  allocator: ethers.Contract,
+  airnodeAddress: string,
+  slotIndices: number[]
+): Promise<node.LogsData<Slot | null>[]> => {
+  // All slots are read with a single multicall
+  const callDatas = slotIndices.map((slotIndex) =>
+    allocator.interface.encodeFunctionData('airnodeToSlotIndexToSlot', [airnodeAddress, slotIndex])
+  );
+  const multicallResult = await go<string[], Error>(() => allocator.callStatic.multicall(callDatas), {
+    attemptTimeoutMs: TIMEOUT_MS,
+    retries: RETRIES,
+  });
+  // Slots are read individually as a fallback so that a single failing read does not discard the other slots
+  if (!multicallResult.success) {
+    return Promise.all(slotIndices.map((slotIndex) => fetchSlot(allocator, airnodeAddress, slotIndex)));
+  }
+
+  return multicallResult.data.map((returndata, index): node.LogsData<Slot | null> => {
+    const goSlot = goSync(() => allocator.interface.decodeFunctionResult('airnodeToSlotIndexToSlot', returndata));
+    if (!goSlot.success) {
+      const message = `Failed to decode slot ${slotIndices[index]} from allocator ${allocator.address}`;
+      return [[utils.logger.pend('ERROR', message, goSlot.error)], null];
+    }
+
+    const { subscriptionId, expirationTimestamp } = goSlot.data;
+    return [[], { subscriptionId, expirationTimestamp: ethers.BigNumber.from(expirationTimestamp) }];
+  });
+};
+
+/**
+ * Returns the subscription IDs of the active slots of the Airnode in the allocator. Slots that cannot be read are
+ * logged and skipped, and null is only returned if none of the slots could be read.
+ */
+export const fetchAllocatorSubscriptionIds = async (
+  allocator: ethers.Contract,
+  airnodeAddress: string,
+  slotLimit = ALLOCATOR_SLOT_LIMIT
+): Promise<node.LogsData<string[] | null>> => {
+  // Slots can be emptied in any order so all of them are enumerated up to the limit
+  const slotIndices = range(slotLimit);
+  const slotResults = await fetchSlots(allocator, airnodeAddress, slotIndices);
+
+  const logs: utils.PendingLog[] = [];
+  const subscriptionIds: string[] = [];
+  const currentTimestamp = Math.floor(Date.now() / 1000);
+
+  slotResults.forEach(([slotLogs, slot], index) => {
+    logs.push(...slotLogs);
+    if (isNil(slot) || slot.subscriptionId === ethers.constants.HashZero) {
+      return;
+    }
+    if (slot.expirationTimestamp.lte(currentTimestamp)) {
+      logs.push(utils.logger.pend('DEBUG', `Slot ${slotIndices[index]} of allocator ${allocator.address} has expired`));
+      return;
+    }
+
+    subscriptionIds.push(slot.subscriptionId);
+  });
+
+  if (slotResults.every(([_logs, slot]) => isNil(slot))) {
+    return [logs, null];
+  }
+  return [logs, subscriptionIds];
+};
@@ -0,0 +1,54 @@
+import { ethers } from 'ethers';
+import { checkRequesterAuthorization } from './authorizers';
+
+describe('checkRequesterAuthorization', () => {
+  const airnodeAddress = '0xA30CA71Ba54E83127214D3271aEA8F5D6bD4Dace';
+  const endpointId = '0x13dea3311fe0d6b84f4daeab831befbc49e19e6494c41e9e065a09c3c68f43b6';
+  const requester = '0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0';
+
+  const buildAuthorizer = (isAuthorized: jest.Mock) =>
+    ({ address: ethers.utils.getAddress(ethers.utils.hexlify(ethers.utils.randomBytes(20))), isAuthorized } as any);
+
+  it('returns true if no authorizers are configured', async () => {
+    const [logs, data] = await checkRequesterAuthorization([], airnodeAddress, endpointId, requester);
+
+    expect(logs).toEqual([]);
+    expect(data).toEqual(true);
+  });
+
+  it('returns true if any authorizer authorizes the requester', async () => {
+    const isAuthorizedSpy = jest.fn().mockResolvedValue(true);
+    const authorizers = [buildAuthorizer(jest.fn().mockResolvedValue(false)), buildAuthorizer(isAuthorizedSpy)];
+
+    const [logs, data] = await checkRequesterAuthorization(authorizers, airnodeAddress, endpointId, requester);
+
+    expect(isAuthorizedSpy).toHaveBeenCalledWith(airnodeAddress, endpointId, requester);
+    expect(logs).toEqual([]);
+    expect(data).toEqual(true);
+  });
+
+  it('returns false if no authorizer authorizes the requester', async () => {
+    const authorizers = [buildAuthorizer(jest.fn().mockResolvedValue(false))];
+
+    const [logs, data] = await checkRequesterAuthorization(authorizers, airnodeAddress, endpointId, requester);
+
+    expect(logs).toEqual([]);
+    expect(data).toEqual(false);
+  });
+
+  it('returns null with error log if an authorizer cannot be evaluated', async () => {
+    const failingAuthorizer = buildAuthorizer(jest.fn().mockRejectedValue(new Error('Network error')));
+    const authorizers = [failingAuthorizer, buildAuthorizer(jest.fn().mockResolvedValue(false))];
+
+    const [logs, data] = await checkRequesterAuthorization(authorizers, airnodeAddress, endpointId, requester);
+
+    expect(logs).toEqual([
+      {
+        level: 'ERROR',
+        message: `Failed to check authorization of requester ${requester} with authorizer ${failingAuthorizer.address}`,
+        error: new Error('Network error'),
+      },
+    ]);
+    expect(data).toEqual(null);
+  });
+});
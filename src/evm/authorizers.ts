@@ -0,0 +1,37 @@
+import * as node from '@api3/airnode-node';
+import * as utils from '@api3/airnode-utilities';
+import { go } from '@api3/promise-utils';
+import { ethers } from 'ethers';
+import isEmpty from 'lodash/isEmpty';
+import { TIMEOUT_MS, RETRIES } from '../constants';
+
+export const checkRequesterAuthorization = async (
+  authorizers: ethers.Contract[],
+  airnodeAddress: string,
+  endpointId: string,
+  requester: string
+): Promise<node.LogsData<boolean | null>> => {
+  // Airnode considers all requesters authorized when no authorizers are configured
+  if (isEmpty(authorizers)) {
+    return [[], true];
+  }
+
+  const logs: utils.PendingLog[] = [];
+  for (const authorizer of authorizers) {
+    const goAuthorized = await go<boolean, Error>(
+      () => authorizer.isAuthorized(airnodeAddress, endpointId, requester),
+      { attemptTimeoutMs: TIMEOUT_MS, retries: RETRIES }
+    );
+    if (!goAuthorized.success) {
+      const message = `Failed to check authorization of requester ${requester} with authorizer ${authorizer.address}`;
+      logs.push(utils.logger.pend('ERROR', message, goAuthorized.error));
+      continue;
+    }
+    if (goAuthorized.data) {
+      return [logs, true];
+    }
+  }
+
+  // The requester is only considered unauthorized if every authorizer could be evaluated
+  return [logs, isEmpty(logs) ? false : null];
+};
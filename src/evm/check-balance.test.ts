@@ -0,0 +1,49 @@
+import { ethers } from 'ethers';
+import { checkSponsorWalletBalance } from './check-balance';
+
+describe('checkSponsorWalletBalance', () => {
+  const sponsorWalletBalance = { minimum: '0.01', lowBalanceWarning: '0.1' };
+
+  it('returns true if balance is above the low balance warning threshold', () => {
+    const [logs, data] = checkSponsorWalletBalance(ethers.utils.parseEther('1'), sponsorWalletBalance);
+
+    expect(logs).toEqual([]);
+    expect(data).toEqual(true);
+  });
+
+  it('returns true with warn log if balance is below the low balance warning threshold', () => {
+    const [logs, data] = checkSponsorWalletBalance(ethers.utils.parseEther('0.05'), sponsorWalletBalance);
+
+    expect(logs).toEqual([
+      { level: 'WARN', message: 'Sponsor wallet balance 0.05 is below the low balance warning threshold of 0.1' },
+    ]);
+    expect(data).toEqual(true);
+  });
+
+  it('defaults the low balance warning threshold to a multiple of the minimum balance', () => {
+    const [logs, data] = checkSponsorWalletBalance(ethers.utils.parseEther('0.015'), { minimum: '0.01' });
+
+    expect(logs).toEqual([
+      { level: 'WARN', message: 'Sponsor wallet balance 0.015 is below the low balance warning threshold of 0.02' },
+    ]);
+    expect(data).toEqual(true);
+  });
+
+  it('returns false with error log if balance does not exceed the minimum balance', () => {
+    const [logs, data] = checkSponsorWalletBalance(ethers.utils.parseEther('0.01'), sponsorWalletBalance);
+
+    expect(logs).toEqual([
+      {
+        level: 'ERROR',
+        message: 'Sponsor wallet balance 0.01 does not exceed the minimum balance of 0.01. Skipping sponsor...',
+      },
+    ]);
+    expect(data).toEqual(false);
+  });
+
+  it('returns false if balance is zero and no minimum balance is configured', () => {
+    const [_logs, data] = checkSponsorWalletBalance(ethers.constants.Zero);
+
+    expect(data).toEqual(false);
+  });
+});
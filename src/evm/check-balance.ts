@@ -0,0 +1,33 @@
+import * as node from '@api3/airnode-node';
+import * as utils from '@api3/airnode-utilities';
+import { ethers } from 'ethers';
+import { LOW_BALANCE_WARNING_MULTIPLIER } from '../constants';
+import { SponsorWalletBalance } from '../validator';
+
+export const checkSponsorWalletBalance = (
+  balance: ethers.BigNumber,
+  sponsorWalletBalance?: SponsorWalletBalance
+): node.LogsData<boolean> => {
+  // Balance thresholds are defined in ether units
+  const minimumBalance = ethers.utils.parseEther(sponsorWalletBalance?.minimum || '0');
+  const lowBalanceWarning = sponsorWalletBalance?.lowBalanceWarning
+    ? ethers.utils.parseEther(sponsorWalletBalance.lowBalanceWarning)
+    : minimumBalance.mul(LOW_BALANCE_WARNING_MULTIPLIER);
+
+  const formattedBalance = ethers.utils.formatEther(balance);
+  if (balance.lte(minimumBalance)) {
+    const formattedMinimumBalance = ethers.utils.formatEther(minimumBalance);
+    const message = `Sponsor wallet balance ${formattedBalance} does not exceed the minimum balance of ${formattedMinimumBalance}. Skipping sponsor...`;
+    const log = utils.logger.pend('ERROR', message);
+    return [[log], false];
+  }
+
+  if (balance.lt(lowBalanceWarning)) {
+    const formattedLowBalanceWarning = ethers.utils.formatEther(lowBalanceWarning);
+    const message = `Sponsor wallet balance ${formattedBalance} is below the low balance warning threshold of ${formattedLowBalanceWarning}`;
+    const log = utils.logger.pend('WARN', message);
+    return [[log], true];
+  }
+
+  return [[], true];
+};
@@ -17,7 +17,11 @@ describe('checkSubscriptionCondition', () => {
     fulfillFunctionId: '0x206b48f4',
     id: '0x168194af62ab1b621eff3be1df9646f198dcef36f9eace0474fd19d47b2e0039',
   };
-  const apiValue = ethers.BigNumber.from(723392020);
+  const apiValue = {
+    type: 'int256',
+    values: ['723392020'],
+    encodedValue: ethers.utils.defaultAbiCoder.encode(['int256'], [723392020]),
+  };
   const getFunctionMock = (_nameOrSignatureOrSighash: string) => {
     return {
       name: 'conditionPspBeaconUpdate',
@@ -1,10 +1,11 @@
 import * as abi from '@api3/airnode-abi';
 import * as node from '@api3/airnode-node';
 import * as utils from '@api3/airnode-utilities';
-import { go } from '@api3/promise-utils';
+import { go, goSync } from '@api3/promise-utils';
 import { ethers } from 'ethers';
+import isEmpty from 'lodash/isEmpty';
 import { TIMEOUT_MS, RETRIES } from '../constants';
-import { Id } from '../types';
+import { ApiValue, CheckedSubscription, Id } from '../types';
 import { Subscription } from '../validator';
 
 const decodeConditions = (conditions: string, contract: ethers.Contract) => {
@@ -23,11 +24,11 @@ const decodeConditions = (conditions: string, contract: ethers.Contract) => {
 
 export const checkSubscriptionCondition = async (
   subscription: Id<Subscription>,
-  apiValue: ethers.BigNumber,
+  apiValue: ApiValue,
   contract: ethers.Contract,
   voidSigner: ethers.VoidSigner
 ): Promise<node.LogsData<boolean>> => {
-  const encodedFulfillmentData = ethers.utils.defaultAbiCoder.encode(['int256'], [apiValue]);
+  const encodedFulfillmentData = apiValue.encodedValue;
   let conditionFunction: ethers.utils.FunctionFragment;
   let conditionParameters: string;
   try {
@@ -70,3 +71,69 @@ export const checkSubscriptionCondition = async (
 
   return [[], true];
 };
+
+export const checkSubscriptionsConditions = async (
+  subscriptions: CheckedSubscription[],
+  contract: ethers.Contract,
+  voidSigner: ethers.VoidSigner
+): Promise<node.LogsData<boolean>[]> => {
+  // Encode the condition function call of each subscription so that all of them can be evaluated with a single
+  // multicall instead of one eth_call per subscription
+  const conditionCalls = subscriptions.map((subscription) =>
+    goSync(() => {
+      const { conditionFunction, conditionParameters } = decodeConditions(subscription.conditions, contract);
+      const callData = contract.interface.encodeFunctionData(conditionFunction, [
+        subscription.id,
+        subscription.apiValue.encodedValue,
+        conditionParameters,
+      ]);
+      return { conditionFunction, callData };
+    })
+  );
+  const callDatas = conditionCalls.flatMap((conditionCall) =>
+    conditionCall.success ? [conditionCall.data.callData] : []
+  );
+
+  const multicallResult = await go<string[], Error>(
+    () => (isEmpty(callDatas) ? Promise.resolve([]) : contract.connect(voidSigner).callStatic.multicall(callDatas)),
+    {
+      attemptTimeoutMs: TIMEOUT_MS,
+      retries: RETRIES,
+    }
+  );
+  // A single reverting condition function call reverts the whole multicall so conditions are checked
+  // individually as a fallback
+  if (!multicallResult.success) {
+    return Promise.all(
+      subscriptions.map((subscription) =>
+        checkSubscriptionCondition(subscription, subscription.apiValue, contract, voidSigner)
+      )
+    );
+  }
+
+  let returndataIndex = 0;
+  return conditionCalls.map((conditionCall): node.LogsData<boolean> => {
+    if (!conditionCall.success) {
+      const message = 'Failed to decode conditions';
+      const log = utils.logger.pend('ERROR', message, conditionCall.error);
+      return [[log], false];
+    }
+
+    const returndata = multicallResult.data[returndataIndex++];
+    const goResult = goSync(() =>
+      contract.interface.decodeFunctionResult(conditionCall.data.conditionFunction, returndata)
+    );
+    if (!goResult.success) {
+      const message = 'Failed to check conditions';
+      const log = utils.logger.pend('ERROR', message, goResult.error);
+      return [[log], false];
+    }
+    if (!goResult.data[0]) {
+      const message = 'Conditions not met. Skipping update...';
+      const log = utils.logger.pend('WARN', message);
+      return [[log], false];
+    }
+
+    return [[], true];
+  });
+};
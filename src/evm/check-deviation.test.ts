@@ -0,0 +1,59 @@
+import { ethers } from 'ethers';
+import { calculateDeviation, checkBeaconDeviation } from './check-deviation';
+
+describe('calculateDeviation', () => {
+  it('returns the deviation percentage with 16 decimals', () => {
+    const deviation = calculateDeviation(ethers.BigNumber.from(1000), ethers.BigNumber.from(1100));
+
+    expect(ethers.utils.formatUnits(deviation, 16)).toEqual('10.0');
+  });
+
+  it('returns zero if values are equal', () => {
+    const deviation = calculateDeviation(ethers.BigNumber.from(1000), ethers.BigNumber.from(1000));
+
+    expect(deviation).toEqual(ethers.constants.Zero);
+  });
+
+  it('uses one as initial value if beacon value is zero', () => {
+    const deviation = calculateDeviation(ethers.constants.Zero, ethers.BigNumber.from(5));
+
+    expect(ethers.utils.formatUnits(deviation, 16)).toEqual('500.0');
+  });
+});
+
+describe('checkBeaconDeviation', () => {
+  const beaconValue = ethers.BigNumber.from(723392020);
+
+  it('returns true if deviation is above the threshold', () => {
+    const [logs, data] = checkBeaconDeviation(beaconValue, beaconValue.mul(106).div(100), '5');
+
+    expect(logs).toEqual([{ level: 'INFO', message: expect.stringMatching(/^Deviation \(%\): 5\.99/) }]);
+    expect(data).toEqual(true);
+  });
+
+  it('supports deviation percentages with 2 decimal places', () => {
+    const [_logs, data] = checkBeaconDeviation(ethers.BigNumber.from(10000), ethers.BigNumber.from(10016), '0.15');
+
+    expect(data).toEqual(true);
+  });
+
+  it('returns false with warn log if deviation is within the threshold', () => {
+    const [logs, data] = checkBeaconDeviation(beaconValue, beaconValue.mul(105).div(100), '5');
+
+    expect(logs).toEqual([
+      { level: 'INFO', message: expect.stringMatching(/^Deviation \(%\): 5\.0/) },
+      {
+        level: 'WARN',
+        message: 'Delta between beacon value and API value is within threshold. Skipping update...',
+      },
+    ]);
+    expect(data).toEqual(false);
+  });
+
+  it('returns false with warn log if beacon is up-to-date', () => {
+    const [logs, data] = checkBeaconDeviation(beaconValue, beaconValue, '5');
+
+    expect(logs).toEqual([{ level: 'WARN', message: 'Beacon is up-to-date. Skipping update...' }]);
+    expect(data).toEqual(false);
+  });
+});
@@ -0,0 +1,40 @@
+import * as node from '@api3/airnode-node';
+import * as utils from '@api3/airnode-utilities';
+import { ethers } from 'ethers';
+
+export const calculateDeviation = (beaconValue: ethers.BigNumber, apiValue: ethers.BigNumber) => {
+  const delta = beaconValue.sub(apiValue).abs();
+  if (delta.eq(0)) {
+    return ethers.constants.Zero;
+  }
+
+  // Avoid division by zero when the beacon has never been updated
+  const initialValue = beaconValue.isZero() ? ethers.constants.One : beaconValue;
+  const basisPoints = ethers.utils.parseUnits('1', 16);
+  return delta.mul(basisPoints).mul(100).div(initialValue);
+};
+
+export const checkBeaconDeviation = (
+  beaconValue: ethers.BigNumber,
+  apiValue: ethers.BigNumber,
+  deviationPercentage: string
+): node.LogsData<boolean> => {
+  const deviation = calculateDeviation(beaconValue, apiValue);
+  if (deviation.isZero()) {
+    const message = 'Beacon is up-to-date. Skipping update...';
+    const log = utils.logger.pend('WARN', message);
+    return [[log], false];
+  }
+  const deviationLog = utils.logger.pend('INFO', `Deviation (%): ${ethers.utils.formatUnits(deviation, 16)}`);
+
+  // Support for percentages up to 2 decimal places
+  const basisPoints = ethers.utils.parseUnits('1', 16);
+  const percentageThreshold = basisPoints.mul(Math.round(Number(deviationPercentage) * 100)).div(100);
+  if (deviation.lte(percentageThreshold)) {
+    const message = 'Delta between beacon value and API value is within threshold. Skipping update...';
+    const log = utils.logger.pend('WARN', message);
+    return [[deviationLog, log], false];
+  }
+
+  return [[deviationLog], true];
+};
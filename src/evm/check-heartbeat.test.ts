@@ -0,0 +1,33 @@
+import { checkBeaconHeartbeat } from './check-heartbeat';
+
+describe('checkBeaconHeartbeat', () => {
+  const now = Math.floor(Date.now() / 1000);
+
+  it('returns true with info log if beacon is older than the heartbeat interval', () => {
+    const [logs, data] = checkBeaconHeartbeat(now - 3600, 1800);
+
+    expect(logs).toEqual([
+      {
+        level: 'INFO',
+        message: expect.stringMatching(
+          /^Beacon was last updated 36\d\ds ago which exceeds the heartbeat interval of 1800s$/
+        ),
+      },
+    ]);
+    expect(data).toEqual(true);
+  });
+
+  it('returns false if beacon is newer than the heartbeat interval', () => {
+    const [logs, data] = checkBeaconHeartbeat(now - 60, 1800);
+
+    expect(logs).toEqual([]);
+    expect(data).toEqual(false);
+  });
+
+  it('returns false if heartbeat interval is not defined', () => {
+    const [logs, data] = checkBeaconHeartbeat(0);
+
+    expect(logs).toEqual([]);
+    expect(data).toEqual(false);
+  });
+});
@@ -0,0 +1,21 @@
+import * as node from '@api3/airnode-node';
+import * as utils from '@api3/airnode-utilities';
+import isNil from 'lodash/isNil';
+
+export const checkBeaconHeartbeat = (
+  beaconTimestamp: number,
+  heartbeatIntervalSeconds?: number
+): node.LogsData<boolean> => {
+  if (isNil(heartbeatIntervalSeconds)) {
+    return [[], false];
+  }
+
+  const beaconAgeSeconds = Math.floor(Date.now() / 1000) - beaconTimestamp;
+  if (beaconAgeSeconds < heartbeatIntervalSeconds) {
+    return [[], false];
+  }
+
+  const message = `Beacon was last updated ${beaconAgeSeconds}s ago which exceeds the heartbeat interval of ${heartbeatIntervalSeconds}s`;
+  const log = utils.logger.pend('INFO', message);
+  return [[log], true];
+};
@@ -0,0 +1,91 @@
+import { ethers } from 'ethers';
+import { checkPendingBeaconUpdateRequest } from './check-pending-request';
+
+describe('checkPendingBeaconUpdateRequest', () => {
+  const beaconId = '0xd26a6df7afccec180867f34d22b5bbaae85fd0689205f2cc0d9480537dadffd0';
+  const requestSponsor = '0x61648B2Ec3e6b3492E90184Ef281C2ba28a675ec';
+  const keeperSponsorWalletAddress = '0x2479808b1216E998309A727df8A0A98A1130A162';
+  const currentBlock = 1000;
+  const blockHistoryLimit = 300;
+  const requestId = '0x' + 'a'.repeat(64);
+
+  let queryFilterSpy: any;
+  let requestIsAwaitingFulfillmentSpy: any;
+  let rrpBeaconServerMock: any;
+  let airnodeRrpMock: any;
+
+  beforeEach(() => {
+    queryFilterSpy = jest
+      .fn()
+      .mockResolvedValueOnce([{ args: { requestId } }])
+      .mockResolvedValueOnce([]);
+    requestIsAwaitingFulfillmentSpy = jest.fn().mockResolvedValue(true);
+    rrpBeaconServerMock = {
+      filters: {
+        RequestedBeaconUpdate: jest.fn().mockReturnValue('requestedBeaconUpdateFilter'),
+        UpdatedBeacon: jest.fn().mockReturnValue('updatedBeaconFilter'),
+      },
+      queryFilter: queryFilterSpy,
+    };
+    airnodeRrpMock = { requestIsAwaitingFulfillment: requestIsAwaitingFulfillmentSpy };
+  });
+
+  const checkPendingRequest = () =>
+    checkPendingBeaconUpdateRequest(
+      airnodeRrpMock as ethers.Contract,
+      rrpBeaconServerMock as ethers.Contract,
+      beaconId,
+      requestSponsor,
+      keeperSponsorWalletAddress,
+      currentBlock,
+      blockHistoryLimit
+    );
+
+  it('returns true if a previous request is awaiting fulfillment', async () => {
+    const [logs, data] = await checkPendingRequest();
+
+    expect(rrpBeaconServerMock.filters.RequestedBeaconUpdate).toHaveBeenCalledWith(
+      beaconId,
+      requestSponsor,
+      keeperSponsorWalletAddress
+    );
+    expect(rrpBeaconServerMock.filters.UpdatedBeacon).toHaveBeenCalledWith(beaconId);
+    expect(queryFilterSpy).toHaveBeenNthCalledWith(1, 'requestedBeaconUpdateFilter', -300, currentBlock);
+    expect(queryFilterSpy).toHaveBeenNthCalledWith(2, 'updatedBeaconFilter', -300, currentBlock);
+    expect(requestIsAwaitingFulfillmentSpy).toHaveBeenCalledWith(requestId);
+    expect(logs).toEqual([{ level: 'WARN', message: 'Request is awaiting fulfillment. Skipping update...' }]);
+    expect(data).toEqual(true);
+  });
+
+  it('returns false if every request has a matching UpdatedBeacon event', async () => {
+    queryFilterSpy.mockReset();
+    queryFilterSpy.mockResolvedValue([{ args: { requestId } }]);
+
+    const [logs, data] = await checkPendingRequest();
+
+    expect(requestIsAwaitingFulfillmentSpy).not.toHaveBeenCalled();
+    expect(logs).toEqual([]);
+    expect(data).toEqual(false);
+  });
+
+  it('returns false if the unmatched request is no longer awaiting fulfillment', async () => {
+    requestIsAwaitingFulfillmentSpy.mockResolvedValue(false);
+
+    const [logs, data] = await checkPendingRequest();
+
+    expect(requestIsAwaitingFulfillmentSpy).toHaveBeenCalledTimes(1);
+    expect(logs).toEqual([]);
+    expect(data).toEqual(false);
+  });
+
+  it('returns null with error log if events cannot be fetched', async () => {
+    const error = new Error('could not detect network');
+    queryFilterSpy.mockReset();
+    queryFilterSpy.mockRejectedValue(error);
+
+    const [logs, data] = await checkPendingRequest();
+
+    expect(logs).toEqual([{ level: 'ERROR', message: 'Failed to fetch RequestedBeaconUpdate events', error }]);
+    expect(data).toEqual(null);
+  });
+});
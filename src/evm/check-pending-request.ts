@@ -0,0 +1,75 @@
+import * as node from '@api3/airnode-node';
+import * as utils from '@api3/airnode-utilities';
+import { go } from '@api3/promise-utils';
+import { ethers } from 'ethers';
+import isNil from 'lodash/isNil';
+import { TIMEOUT_MS, RETRIES } from '../constants';
+
+/**
+ * Checks if a previous beacon update request is still waiting to be fulfilled to prevent
+ * sending the same request more than once. A request is considered pending if a RequestedBeaconUpdate
+ * event was emitted but no matching UpdatedBeacon event was emitted and AirnodeRrp still reports the
+ * request as awaiting fulfillment.
+ */
+export const checkPendingBeaconUpdateRequest = async (
+  airnodeRrp: ethers.Contract,
+  rrpBeaconServer: ethers.Contract,
+  beaconId: string,
+  requestSponsor: string,
+  keeperSponsorWalletAddress: string,
+  currentBlock: number,
+  blockHistoryLimit: number
+): Promise<node.LogsData<boolean | null>> => {
+  // Fetch RequestedBeaconUpdate events by beaconId, sponsor and sponsorWallet
+  const requestedBeaconUpdateFilter = rrpBeaconServer.filters.RequestedBeaconUpdate(
+    beaconId,
+    requestSponsor,
+    keeperSponsorWalletAddress
+  );
+  const requestedBeaconUpdateEvents = await go(
+    () => rrpBeaconServer.queryFilter(requestedBeaconUpdateFilter, blockHistoryLimit * -1, currentBlock),
+    { attemptTimeoutMs: TIMEOUT_MS, retries: RETRIES }
+  );
+  if (!requestedBeaconUpdateEvents.success) {
+    const message = 'Failed to fetch RequestedBeaconUpdate events';
+    const log = utils.logger.pend('ERROR', message, requestedBeaconUpdateEvents.error);
+    return [[log], null];
+  }
+
+  // Fetch UpdatedBeacon events by beaconId
+  const updatedBeaconFilter = rrpBeaconServer.filters.UpdatedBeacon(beaconId);
+  const updatedBeaconEvents = await go(
+    () => rrpBeaconServer.queryFilter(updatedBeaconFilter, blockHistoryLimit * -1, currentBlock),
+    { attemptTimeoutMs: TIMEOUT_MS, retries: RETRIES }
+  );
+  if (!updatedBeaconEvents.success) {
+    const message = 'Failed to fetch UpdatedBeacon events';
+    const log = utils.logger.pend('ERROR', message, updatedBeaconEvents.error);
+    return [[log], null];
+  }
+
+  // Match these events by requestId and unmatched events are the ones that are still waiting to be fulfilled
+  const [pendingRequestedBeaconUpdateEvent] = requestedBeaconUpdateEvents.data.filter(
+    (rbue) => !updatedBeaconEvents.data.some((ub) => rbue.args!['requestId'] === ub.args!['requestId'])
+  );
+  if (isNil(pendingRequestedBeaconUpdateEvent)) {
+    return [[], false];
+  }
+
+  const requestIsAwaitingFulfillment = await go(
+    () => airnodeRrp.requestIsAwaitingFulfillment(pendingRequestedBeaconUpdateEvent.args!['requestId']),
+    { attemptTimeoutMs: TIMEOUT_MS, retries: RETRIES }
+  );
+  if (!requestIsAwaitingFulfillment.success) {
+    const message = 'Failed to check if request is awaiting fulfillment';
+    const log = utils.logger.pend('ERROR', message, requestIsAwaitingFulfillment.error);
+    return [[log], null];
+  }
+  if (requestIsAwaitingFulfillment.data) {
+    const message = 'Request is awaiting fulfillment. Skipping update...';
+    const log = utils.logger.pend('WARN', message);
+    return [[log], true];
+  }
+
+  return [[], false];
+};
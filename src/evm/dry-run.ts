@@ -0,0 +1,12 @@
+import * as node from '@api3/airnode-node';
+import { ethers } from 'ethers';
+import isNil from 'lodash/isNil';
+
+// BigNumber values might have been serialized to JSON when passed to a worker
+export const serializeGasTarget = (gasTarget: node.GasTarget) =>
+  Object.entries(gasTarget).reduce((acc: { [key: string]: string }, [key, value]) => {
+    if (isNil(value)) {
+      return acc;
+    }
+    return { ...acc, [key]: ethers.BigNumber.from(value).toString() };
+  }, {});
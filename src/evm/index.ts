@@ -2,3 +2,15 @@ export * from './initialize-provider';
 export * from './check-conditions';
 export * from './transaction-count';
 export * from './process-sponsor-wallet';
+export * from './process-beacon-sets';
+export * from './check-deviation';
+export * from './check-pending-request';
+export * from './check-heartbeat';
+export * from './check-balance';
+export * from './dry-run';
+export * from './provider-redundancy';
+export * from './transaction-receipt';
+export * from './stuck-transactions';
+export * from './airnode-protocol';
+export * from './allocators';
+export * from './authorizers';
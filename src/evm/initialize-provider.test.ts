@@ -1,6 +1,7 @@
 import { ethers } from 'ethers';
 import { initializeEvmState, initializeProvider } from './initialize-provider';
 import { BASE_FEE_MULTIPLIER, PRIORITY_FEE_IN_WEI } from '../constants';
+import * as mnemonic from '../signer/mnemonic';
 import { ChainConfig } from '../types';
 
 describe('initializeEvmState', () => {
@@ -117,7 +118,9 @@ describe('initializeEvmState', () => {
     const currentBlock = Math.floor(Date.now() / 1000);
     const { gasTarget } = createAndMockGasTarget('eip1559');
 
-    const data = await initializeProvider(airnodeWalletMnemonic, {
+    const airnodeSigner = mnemonic.create(airnodeWalletMnemonic);
+
+    const data = await initializeProvider(airnodeSigner, {
       providerName: 'local',
       providerUrl: 'http://localhost:8545',
       chainId: '31337',
@@ -127,7 +130,7 @@ describe('initializeEvmState', () => {
     });
     expect(data).toEqual(
       expect.objectContaining({
-        airnodeWallet: expect.any(ethers.Wallet),
+        airnodeSigner,
         provider: expect.any(ethers.providers.JsonRpcProvider),
         contracts: expect.objectContaining({
           RrpBeaconServer: expect.any(ethers.Contract),
@@ -5,14 +5,15 @@ import * as node from '@api3/airnode-node';
 import * as utils from '@api3/airnode-utilities';
 import { go } from '@api3/promise-utils';
 import { DapiServer__factory as DapiServerFactory } from '@api3/airnode-protocol-v1';
-import { ChainConfig, EVMBaseState, ProviderState } from '../types';
+import { AirnodeSigner, ChainConfig, EVMBaseState, ProviderState } from '../types';
 import { TIMEOUT_MS, RETRIES } from '../constants';
+import { recordGasPrice } from '../metrics';
 
-export const initializeProvider = async (airnodeWalletMnemonic: string, providerState: ProviderState<EVMBaseState>) => {
-  const airnodeWallet = ethers.Wallet.fromMnemonic(airnodeWalletMnemonic);
+export const initializeProvider = async (airnodeSigner: AirnodeSigner, providerState: ProviderState<EVMBaseState>) => {
   const provider = node.evm.buildEVMProvider(providerState.providerUrl, providerState.chainId);
 
   const abis: { [contractName: string]: ethers.ContractInterface } = {
+    AirnodeRrp: protocol.AirnodeRrpFactory.abi,
     RrpBeaconServer: protocol.RrpBeaconServerFactory.abi,
     DapiServer: DapiServerFactory.abi,
   };
@@ -27,7 +28,7 @@ export const initializeProvider = async (airnodeWalletMnemonic: string, provider
   );
   const voidSigner = new ethers.VoidSigner(ethers.constants.AddressZero, provider);
 
-  return { airnodeWallet, contracts, voidSigner, provider };
+  return { airnodeSigner, contracts, voidSigner, provider };
 };
 
 export const initializeEvmState = async (
@@ -66,6 +67,7 @@ export const initializeEvmState = async (
     gasTargetMessage = `Gas price (legacy) set to ${gweiPrice} Gwei`;
   }
   const gasTargetLog = utils.logger.pend('INFO', gasTargetMessage);
+  recordGasPrice(chain.id, gasTarget);
 
   return [
     [currentBlockLog, ...gasPriceLogs, gasTargetLog],
@@ -0,0 +1,330 @@
+import * as node from '@api3/airnode-node';
+import { DapiServer__factory as DapiServerFactory } from '@api3/airnode-protocol-v1';
+import { ethers } from 'ethers';
+import { processBeaconSets, readDataFeeds } from './process-beacon-sets';
+import { GAS_LIMIT, PROTOCOL_ID_PSP } from '../constants';
+import { deriveBeaconSetId } from '../ids';
+
+const dapiServerInterface = new ethers.utils.Interface(DapiServerFactory.abi);
+const encodeDataFeeds = (dataFeeds: [number, number][]) =>
+  dataFeeds.map(([value, timestamp]) =>
+    dapiServerInterface.encodeFunctionResult('readDataFeedWithId', [value, timestamp])
+  );
+
+const beaconIds = [
+  '0x2ba0526238b0f2671b7981fd7a263730619c8e849a528088fd4a92350a8c2f2c',
+  '0xa5ddf304a7dcec62fa55449b7fe66b33339fd8b249db06c18423d5b0da7716c2',
+  '0x8fa9d00cb8f2d95b1299623d97a97696ed03d0e3350e4ea638f469beabcdabcd',
+];
+const beaconSet = {
+  id: deriveBeaconSetId(beaconIds),
+  chainIds: ['31337'],
+  beaconIds,
+  deviationPercentage: '1',
+  heartbeatIntervalSeconds: 86400,
+  sponsor: '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC',
+};
+
+const provider = new ethers.providers.JsonRpcProvider('http://127.0.0.1:8545/');
+const voidSigner = new ethers.VoidSigner(ethers.constants.AddressZero, provider);
+const sponsorWallet = node.evm
+  .deriveSponsorWalletFromMnemonic(
+    'achieve climb couple wait accident symbol spy blouse reduce foil echo label',
+    beaconSet.sponsor,
+    PROTOCOL_ID_PSP
+  )
+  .connect(provider);
+const gasTarget = {
+  maxPriorityFeePerGas: ethers.BigNumber.from(3120000000),
+  maxFeePerGas: ethers.BigNumber.from(3866792752),
+};
+const chainId = '31337';
+const transactionCount = 5;
+
+let multicallSpy: any;
+let updateBeaconSetWithBeaconsSpy: any;
+let dapiServerMock: any;
+
+beforeEach(() => {
+  multicallSpy = jest.fn();
+  updateBeaconSetWithBeaconsSpy = jest
+    .fn()
+    .mockResolvedValue({ hash: ethers.utils.keccak256(ethers.utils.randomBytes(32)) });
+  dapiServerMock = {
+    connect(_signerOrProvider: ethers.Signer | ethers.providers.Provider | string) {
+      return this;
+    },
+    interface: dapiServerInterface,
+    callStatic: { multicall: multicallSpy },
+    updateBeaconSetWithBeacons: updateBeaconSetWithBeaconsSpy,
+  };
+});
+
+describe('readDataFeeds', () => {
+  it('reads all data feeds with a single multicall', async () => {
+    multicallSpy.mockResolvedValueOnce(
+      encodeDataFeeds([
+        [100, 1650000000],
+        [200, 1650000100],
+      ])
+    );
+
+    const [logs, data] = await readDataFeeds(dapiServerMock, voidSigner, beaconIds.slice(0, 2));
+
+    expect(multicallSpy).toHaveBeenCalledWith(
+      beaconIds.slice(0, 2).map((beaconId) => dapiServerInterface.encodeFunctionData('readDataFeedWithId', [beaconId]))
+    );
+    expect(logs).toEqual([]);
+    expect(data).toEqual([
+      { value: ethers.BigNumber.from(100), timestamp: 1650000000 },
+      { value: ethers.BigNumber.from(200), timestamp: 1650000100 },
+    ]);
+  });
+
+  it('returns null if the multicall fails', async () => {
+    multicallSpy.mockRejectedValue(new Error('Network error'));
+
+    const [logs, data] = await readDataFeeds(dapiServerMock, voidSigner, beaconIds);
+
+    expect(logs).toEqual([{ level: 'ERROR', message: 'Failed to read data feeds', error: new Error('Network error') }]);
+    expect(data).toEqual(null);
+  });
+});
+
+describe('processBeaconSets', () => {
+  const now = Math.floor(Date.now() / 1000);
+
+  it('updates the beacon set if the aggregated beacon value has deviated', async () => {
+    multicallSpy.mockResolvedValueOnce(
+      encodeDataFeeds([
+        [100, now - 100],
+        [110, now - 10],
+        [120, now - 20],
+        [90, now - 30],
+      ])
+    );
+
+    const [[logs, data]] = await processBeaconSets(
+      chainId,
+      dapiServerMock,
+      gasTarget,
+      [beaconSet],
+      sponsorWallet,
+      voidSigner,
+      transactionCount
+    );
+
+    expect(updateBeaconSetWithBeaconsSpy).toHaveBeenCalledWith(beaconIds, {
+      gasLimit: GAS_LIMIT,
+      ...gasTarget,
+      nonce: transactionCount,
+    });
+    expect(logs).toEqual(
+      expect.arrayContaining([
+        { level: 'INFO', message: 'Beacon set value: 100. Aggregated beacon value: 110' },
+        { level: 'INFO', message: expect.stringMatching(/Tx submitted: 0x[A-Fa-f0-9]{64}/) },
+      ])
+    );
+    expect(data).toEqual({
+      ...beaconSet,
+      value: '110',
+      nonce: transactionCount,
+      txHash: expect.stringMatching(/^0x[A-Fa-f0-9]{64}$/),
+    });
+  });
+
+  it('updates the beacon set if it is older than the heartbeat interval', async () => {
+    multicallSpy.mockResolvedValueOnce(
+      encodeDataFeeds([
+        [110, now - 90000],
+        [110, now - 10],
+        [110, now - 20],
+        [110, now - 30],
+      ])
+    );
+
+    const [[logs]] = await processBeaconSets(
+      chainId,
+      dapiServerMock,
+      gasTarget,
+      [beaconSet],
+      sponsorWallet,
+      voidSigner,
+      transactionCount
+    );
+
+    expect(updateBeaconSetWithBeaconsSpy).toHaveBeenCalledTimes(1);
+    expect(logs).toEqual(
+      expect.arrayContaining([
+        {
+          level: 'INFO',
+          message: expect.stringMatching(/^Beacon was last updated \d+s ago which exceeds the heartbeat interval/),
+        },
+      ])
+    );
+  });
+
+  it('skips the heartbeat update if the beacons have not been updated since the beacon set', async () => {
+    multicallSpy.mockResolvedValueOnce(
+      encodeDataFeeds([
+        [100, now - 90000],
+        [100, now - 90010],
+        [100, now - 90000],
+        [100, now - 89990],
+      ])
+    );
+
+    const [[logs, data]] = await processBeaconSets(
+      chainId,
+      dapiServerMock,
+      gasTarget,
+      [beaconSet],
+      sponsorWallet,
+      voidSigner,
+      transactionCount
+    );
+
+    expect(updateBeaconSetWithBeaconsSpy).not.toHaveBeenCalled();
+    expect(logs).toEqual(
+      expect.arrayContaining([
+        {
+          level: 'WARN',
+          message: 'Beacons have not been updated since the beacon set. Skipping heartbeat update...',
+        },
+        { level: 'WARN', message: 'Beacon is up-to-date. Skipping update...' },
+      ])
+    );
+    expect(data).toEqual(beaconSet);
+  });
+
+  it('skips the beacon set if the aggregated beacon value is within the deviation threshold', async () => {
+    multicallSpy.mockResolvedValueOnce(
+      encodeDataFeeds([
+        [1000, now - 100],
+        [1005, now - 10],
+        [1001, now - 20],
+        [900, now - 30],
+      ])
+    );
+
+    const [[logs, data]] = await processBeaconSets(
+      chainId,
+      dapiServerMock,
+      gasTarget,
+      [beaconSet],
+      sponsorWallet,
+      voidSigner,
+      transactionCount
+    );
+
+    expect(updateBeaconSetWithBeaconsSpy).not.toHaveBeenCalled();
+    expect(logs).toEqual(
+      expect.arrayContaining([
+        {
+          level: 'WARN',
+          message: 'Delta between beacon value and API value is within threshold. Skipping update...',
+        },
+      ])
+    );
+    expect(data).toEqual(beaconSet);
+  });
+
+  it('skips the beacon set if the beacons are older than the beacon set', async () => {
+    multicallSpy.mockResolvedValueOnce(
+      encodeDataFeeds([
+        [100, now - 10],
+        [200, now - 100],
+        [200, now - 100],
+        [200, now - 100],
+      ])
+    );
+
+    const [[logs]] = await processBeaconSets(
+      chainId,
+      dapiServerMock,
+      gasTarget,
+      [beaconSet],
+      sponsorWallet,
+      voidSigner,
+      transactionCount
+    );
+
+    expect(updateBeaconSetWithBeaconsSpy).not.toHaveBeenCalled();
+    expect(logs).toEqual(
+      expect.arrayContaining([{ level: 'WARN', message: 'Beacons are older than the beacon set. Skipping update...' }])
+    );
+  });
+
+  it('aggregates the beacons fulfilled in the same run instead of their values on chain', async () => {
+    multicallSpy.mockResolvedValueOnce(
+      encodeDataFeeds([
+        [1000, now - 100],
+        [1005, now - 1000],
+        [1001, now - 1000],
+        [900, now - 50],
+      ])
+    );
+
+    const [[logs, data]] = await processBeaconSets(
+      chainId,
+      dapiServerMock,
+      gasTarget,
+      [beaconSet],
+      sponsorWallet,
+      voidSigner,
+      transactionCount,
+      true,
+      [],
+      {
+        [beaconIds[0]]: { value: ethers.BigNumber.from(1200), timestamp: now - 10 },
+        [beaconIds[1]]: { value: ethers.BigNumber.from(1100), timestamp: now - 10 },
+      }
+    );
+
+    expect(logs).toEqual(
+      expect.arrayContaining([{ level: 'INFO', message: 'Beacon set value: 1000. Aggregated beacon value: 1100' }])
+    );
+    expect(data).toEqual({ ...beaconSet, value: '1100', nonce: transactionCount });
+  });
+
+  it('returns assigned nonces and aggregated values without submitting transactions in dry run mode', async () => {
+    const otherBeaconSet = {
+      ...beaconSet,
+      id: deriveBeaconSetId(beaconIds.slice(0, 2)),
+      beaconIds: beaconIds.slice(0, 2),
+    };
+    multicallSpy
+      .mockResolvedValueOnce(
+        encodeDataFeeds([
+          [100, now - 100],
+          [110, now - 10],
+          [120, now - 20],
+          [90, now - 30],
+        ])
+      )
+      .mockResolvedValueOnce(
+        encodeDataFeeds([
+          [100, now - 100],
+          [110, now - 10],
+          [121, now - 20],
+        ])
+      );
+
+    const result = await processBeaconSets(
+      chainId,
+      dapiServerMock,
+      gasTarget,
+      [beaconSet, otherBeaconSet],
+      sponsorWallet,
+      voidSigner,
+      transactionCount,
+      true
+    );
+
+    expect(updateBeaconSetWithBeaconsSpy).not.toHaveBeenCalled();
+    expect(result.map(([_logs, data]) => data)).toEqual([
+      { ...beaconSet, value: '110', nonce: transactionCount },
+      { ...otherBeaconSet, value: '115', nonce: transactionCount + 1 },
+    ]);
+  });
+});
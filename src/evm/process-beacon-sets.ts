@@ -0,0 +1,153 @@
+import * as node from '@api3/airnode-node';
+import * as utils from '@api3/airnode-utilities';
+import { go, goSync } from '@api3/promise-utils';
+import { ethers } from 'ethers';
+import { checkBeaconDeviation } from './check-deviation';
+import { checkBeaconHeartbeat } from './check-heartbeat';
+import { submitTransactionWithFallback } from './provider-redundancy';
+import { calculateMedian } from '../api/aggregate';
+import { GAS_LIMIT, TIMEOUT_MS, RETRIES } from '../constants';
+import { recordTransaction } from '../metrics';
+import { Id, NamedProvider, SponsorWallet } from '../types';
+import { BeaconSet } from '../validator';
+
+export interface DataFeed {
+  value: ethers.BigNumber;
+  timestamp: number;
+}
+
+export const readDataFeeds = async (
+  contract: ethers.Contract,
+  voidSigner: ethers.VoidSigner,
+  dataFeedIds: string[]
+): Promise<node.LogsData<DataFeed[] | null>> => {
+  // All data feeds are read with a single multicall. address(0) is considered whitelisted
+  const callDatas = dataFeedIds.map((dataFeedId) =>
+    contract.interface.encodeFunctionData('readDataFeedWithId', [dataFeedId])
+  );
+  const multicallResult = await go<string[], Error>(
+    () => contract.connect(voidSigner).callStatic.multicall(callDatas),
+    {
+      attemptTimeoutMs: TIMEOUT_MS,
+      retries: RETRIES,
+    }
+  );
+  if (!multicallResult.success) {
+    const message = 'Failed to read data feeds';
+    const log = utils.logger.pend('ERROR', message, multicallResult.error);
+    return [[log], null];
+  }
+
+  const goDataFeeds = goSync(() =>
+    multicallResult.data.map((returndata) => {
+      const { value, timestamp } = contract.interface.decodeFunctionResult('readDataFeedWithId', returndata);
+      return { value: ethers.BigNumber.from(value), timestamp: Number(timestamp) };
+    })
+  );
+  if (!goDataFeeds.success) {
+    const message = 'Failed to decode data feeds';
+    const log = utils.logger.pend('ERROR', message, goDataFeeds.error);
+    return [[log], null];
+  }
+
+  return [[], goDataFeeds.data];
+};
+
+export const processBeaconSets = async (
+  chainId: string,
+  contract: ethers.Contract,
+  gasTarget: node.GasTarget,
+  beaconSets: Id<BeaconSet>[],
+  sponsorWallet: SponsorWallet,
+  voidSigner: ethers.VoidSigner,
+  transactionCount: number,
+  dryRun = false,
+  fallbackProviders: NamedProvider[] = [],
+  fulfilledBeacons: { [beaconId: string]: DataFeed } = {}
+): Promise<node.LogsData<Id<BeaconSet> & { value?: string; nonce?: number; txHash?: string }>[]> => {
+  const logs: node.LogsData<Id<BeaconSet> & { value?: string; nonce?: number; txHash?: string }>[] = [];
+
+  let nextNonce = transactionCount;
+
+  // Process each beacon set in serial to keep nonces in order
+  for (const beaconSet of beaconSets) {
+    const { id: beaconSetId, beaconIds, deviationPercentage, heartbeatIntervalSeconds } = beaconSet;
+
+    const [readLogs, dataFeeds] = await readDataFeeds(contract, voidSigner, [beaconSetId, ...beaconIds]);
+    if (!dataFeeds) {
+      logs.push([readLogs, beaconSet]);
+      continue;
+    }
+    // The beacons fulfilled earlier in this run are not updated on chain until their transactions are mined, which
+    // happens before the beacon set update because it uses a later nonce
+    const [beaconSetDataFeed, ...readBeaconDataFeeds] = dataFeeds;
+    const beaconDataFeeds = readBeaconDataFeeds.map(
+      (dataFeed, index) => fulfilledBeacons[beaconIds[index]] ?? dataFeed
+    );
+
+    // DapiServer aggregates the beacon values with the median and the beacon timestamps with the mean
+    const value = calculateMedian(beaconDataFeeds.map((dataFeed) => dataFeed.value));
+    const timestamp = Math.floor(
+      beaconDataFeeds.reduce((sum, dataFeed) => sum + dataFeed.timestamp, 0) / beaconDataFeeds.length
+    );
+    const valueLog = utils.logger.pend(
+      'INFO',
+      `Beacon set value: ${beaconSetDataFeed.value.toString()}. Aggregated beacon value: ${value.toString()}`
+    );
+    if (timestamp < beaconSetDataFeed.timestamp) {
+      const message = 'Beacons are older than the beacon set. Skipping update...';
+      const log = utils.logger.pend('WARN', message);
+      logs.push([[...readLogs, valueLog, log], beaconSet]);
+      continue;
+    }
+
+    // Beacon sets older than the heartbeat interval are updated regardless of the deviation, unless the beacons have
+    // not been updated since the beacon set in which case the update would not refresh the beacon set timestamp
+    const [heartbeatLogs, isStale] = checkBeaconHeartbeat(beaconSetDataFeed.timestamp, heartbeatIntervalSeconds);
+    const isHeartbeatUpdate = isStale && timestamp > beaconSetDataFeed.timestamp;
+    const heartbeatSkipMessage = 'Beacons have not been updated since the beacon set. Skipping heartbeat update...';
+    const staleLogs = isStale && !isHeartbeatUpdate ? [utils.logger.pend('WARN', heartbeatSkipMessage)] : [];
+    const [deviationLogs, shouldUpdate] = isHeartbeatUpdate
+      ? [[], true]
+      : checkBeaconDeviation(beaconSetDataFeed.value, value, deviationPercentage);
+    const checkLogs = [...readLogs, valueLog, ...heartbeatLogs, ...staleLogs, ...deviationLogs];
+    if (!shouldUpdate) {
+      logs.push([checkLogs, beaconSet]);
+      continue;
+    }
+
+    const nonce = nextNonce++;
+
+    // Skip submitting the transaction and return the assigned nonce instead
+    if (dryRun) {
+      const message = `Dry run: transaction using wallet ${sponsorWallet.address} with nonce ${nonce} was not submitted`;
+      const log = utils.logger.pend('INFO', message);
+      logs.push([[...checkLogs, log], { ...beaconSet, value: value.toString(), nonce }]);
+      continue;
+    }
+
+    const [submitLogs, tx] = await submitTransactionWithFallback(sponsorWallet, fallbackProviders, (wallet) =>
+      contract.connect(wallet).updateBeaconSetWithBeacons(beaconIds, {
+        gasLimit: GAS_LIMIT,
+        ...gasTarget,
+        nonce,
+      })
+    );
+    recordTransaction(chainId, sponsorWallet.address, tx.success);
+    if (!tx.success) {
+      const message = `Failed to submit transaction using wallet ${sponsorWallet.address} with nonce ${nonce}`;
+      const log = utils.logger.pend('ERROR', message, tx.error);
+      logs.push([[...checkLogs, ...submitLogs, log], { ...beaconSet, nonce }]);
+      continue;
+    }
+
+    const message = `Tx submitted: ${tx.data.hash}`;
+    const log = utils.logger.pend('INFO', message);
+    logs.push([
+      [...checkLogs, ...submitLogs, log],
+      { ...beaconSet, value: value.toString(), nonce, txHash: tx.data.hash },
+    ]);
+  }
+
+  return logs;
+};
@@ -2,10 +2,10 @@ import * as node from '@api3/airnode-node';
 import { ethers } from 'ethers';
 import { processSponsorWallet } from './process-sponsor-wallet';
 import { GAS_LIMIT, PROTOCOL_ID_PSP } from '../constants';
+import * as mnemonic from '../signer/mnemonic';
 
-const airnodeWallet = ethers.Wallet.fromMnemonic(
-  'achieve climb couple wait accident symbol spy blouse reduce foil echo label'
-);
+const airnodeWalletMnemonic = 'achieve climb couple wait accident symbol spy blouse reduce foil echo label';
+const airnodeSigner = mnemonic.create(airnodeWalletMnemonic);
 
 const getFunctionMock = (_nameOrSignatureOrSighash: string) => {
   if (_nameOrSignatureOrSighash === '0x206b48f4')
@@ -34,6 +34,9 @@ const conditionPspBeaconUpdateMock = (
   _conditionParameters: string
 ) => Promise.resolve([true]);
 
+const encodeConditionResults = (results: boolean[]) =>
+  results.map((result) => ethers.utils.defaultAbiCoder.encode(['bool'], [result]));
+
 const gasTarget = {
   maxPriorityFeePerGas: ethers.BigNumber.from(3120000000),
   maxFeePerGas: ethers.BigNumber.from(3866792752),
@@ -51,7 +54,11 @@ const subscription1 = {
   requester: '0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0',
   fulfillFunctionId: '0x206b48f4',
   id: '0x168194af62ab1b621eff3be1df9646f198dcef36f9eace0474fd19d47b2e0039',
-  apiValue: ethers.BigNumber.from(723392020),
+  apiValue: {
+    type: 'int256',
+    values: ['723392020'],
+    encodedValue: ethers.utils.defaultAbiCoder.encode(['int256'], [723392020]),
+  },
   nonce: 0,
 };
 const subscription2 = {
@@ -66,7 +73,11 @@ const subscription2 = {
   requester: '0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0',
   fulfillFunctionId: '0x206b48f4',
   id: '0x6efac1aca63fe97cbb96498d49e600397eb118956bc84a600e08f6eaa95a882e',
-  apiValue: ethers.BigNumber.from(723392020),
+  apiValue: {
+    type: 'int256',
+    values: ['723392020'],
+    encodedValue: ethers.utils.defaultAbiCoder.encode(['int256'], [723392020]),
+  },
   nonce: 1,
 };
 const subscription3 = {
@@ -81,7 +92,11 @@ const subscription3 = {
   requester: '0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0',
   fulfillFunctionId: '0x206b48f4',
   id: '0xb8bf267396f5acdb28a2b50da3a236c0e29db1e222df25d12a50f68cb55d4f71',
-  apiValue: ethers.BigNumber.from(46640440000),
+  apiValue: {
+    type: 'int256',
+    values: ['46640440000'],
+    encodedValue: ethers.utils.defaultAbiCoder.encode(['int256'], [46640440000]),
+  },
   nonce: 2,
 };
 const subscriptions = [subscription1, subscription2, subscription3];
@@ -89,11 +104,7 @@ const subscriptions = [subscription1, subscription2, subscription3];
 const provider = new ethers.providers.JsonRpcProvider('http://127.0.0.1:8545/');
 
 const sponsorWallet = node.evm
-  .deriveSponsorWalletFromMnemonic(
-    airnodeWallet.mnemonic.phrase,
-    '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC',
-    PROTOCOL_ID_PSP
-  )
+  .deriveSponsorWalletFromMnemonic(airnodeWalletMnemonic, '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC', PROTOCOL_ID_PSP)
   .connect(provider);
 
 const voidSigner = new ethers.VoidSigner(ethers.constants.AddressZero, provider);
@@ -104,18 +115,28 @@ describe('processSponsorWallet', () => {
   let getFunctionSpy: any;
   let fulfillPspBeaconUpdateSpy: any;
   let conditionPspBeaconUpdateSpy: any;
+  let multicallSpy: any;
   let dapiServerMock: any;
 
   beforeEach(() => {
     getFunctionSpy = jest.fn().mockImplementation(getFunctionMock);
     fulfillPspBeaconUpdateSpy = jest.fn().mockImplementation(fulfillPspBeaconUpdateMock);
     conditionPspBeaconUpdateSpy = jest.fn().mockImplementation(conditionPspBeaconUpdateMock);
+    multicallSpy = jest
+      .fn()
+      .mockImplementation((callDatas: string[]) => Promise.resolve(encodeConditionResults(callDatas.map(() => true))));
     dapiServerMock = {
       connect(_signerOrProvider: ethers.Signer | ethers.providers.Provider | string) {
         return this;
       },
       interface: {
         getFunction: getFunctionSpy,
+        encodeFunctionData: (_functionFragment: any, values: any[]) => ethers.utils.hexlify(values[0]),
+        decodeFunctionResult: (_functionFragment: any, data: string) =>
+          ethers.utils.defaultAbiCoder.decode(['bool'], data),
+      },
+      callStatic: {
+        multicall: multicallSpy,
       },
       functions: {
         fulfillPspBeaconUpdate: fulfillPspBeaconUpdateSpy,
@@ -126,7 +147,7 @@ describe('processSponsorWallet', () => {
 
   it('should process all subscriptions for a single sponsor wallet', async () => {
     const logsData = await processSponsorWallet(
-      airnodeWallet,
+      airnodeSigner,
       dapiServerMock as any,
       gasTarget,
       subscriptions,
@@ -137,11 +158,15 @@ describe('processSponsorWallet', () => {
 
     // Calls to conditionFunction
     expect(getFunctionSpy).toHaveBeenNthCalledWith(1, '0xdc96acc8');
+    expect(getFunctionSpy).toHaveBeenNthCalledWith(2, '0xdc96acc8');
     expect(getFunctionSpy).toHaveBeenNthCalledWith(3, '0xdc96acc8');
-    expect(getFunctionSpy).toHaveBeenNthCalledWith(5, '0xdc96acc8');
+    // All conditions are checked with a single multicall
+    expect(multicallSpy).toHaveBeenCalledTimes(1);
+    expect(multicallSpy).toHaveBeenCalledWith(subscriptions.map(({ id }) => id));
+    expect(conditionPspBeaconUpdateSpy).not.toHaveBeenCalled();
     // Calls to updateFunction
-    expect(getFunctionSpy).toHaveBeenNthCalledWith(2, '0x206b48f4');
     expect(getFunctionSpy).toHaveBeenNthCalledWith(4, '0x206b48f4');
+    expect(getFunctionSpy).toHaveBeenNthCalledWith(5, '0x206b48f4');
     expect(getFunctionSpy).toHaveBeenNthCalledWith(6, '0x206b48f4');
     subscriptions.forEach((subscription, idx) =>
       expect(fulfillPspBeaconUpdateSpy).toHaveBeenCalledWith(
@@ -150,7 +175,7 @@ describe('processSponsorWallet', () => {
         subscription.relayer,
         subscription.sponsor,
         expect.anything(), // timestamp
-        ethers.utils.defaultAbiCoder.encode(['int256'], [subscription.apiValue]),
+        subscription.apiValue.encodedValue,
         expect.any(String), // signature
         { gasLimit: GAS_LIMIT, ...gasTarget, nonce: idx }
       )
@@ -165,7 +190,7 @@ describe('processSponsorWallet', () => {
               message: expect.stringMatching(/Tx submitted: 0x[A-Fa-f0-9]{64}/),
             },
           ],
-          subscription1,
+          { ...subscription1, txHash: expect.stringMatching(/^0x[A-Fa-f0-9]{64}$/), timestamp: expect.any(Number) },
         ],
         [
           [
@@ -174,7 +199,7 @@ describe('processSponsorWallet', () => {
               message: expect.stringMatching(/Tx submitted: 0x[A-Fa-f0-9]{64}/),
             },
           ],
-          subscription2,
+          { ...subscription2, txHash: expect.stringMatching(/^0x[A-Fa-f0-9]{64}$/), timestamp: expect.any(Number) },
         ],
         [
           [
@@ -183,7 +208,7 @@ describe('processSponsorWallet', () => {
               message: expect.stringMatching(/Tx submitted: 0x[A-Fa-f0-9]{64}/),
             },
           ],
-          subscription3,
+          { ...subscription3, txHash: expect.stringMatching(/^0x[A-Fa-f0-9]{64}$/), timestamp: expect.any(Number) },
         ],
       ])
     );
@@ -195,18 +220,18 @@ describe('processSponsorWallet', () => {
       .mockImplementationOnce(getFunctionMock)
       .mockImplementationOnce(getFunctionMock)
       .mockImplementationOnce(getFunctionMock)
+      .mockImplementationOnce(getFunctionMock)
       // The second subscription fails at getFunction due to an invalid fulfillFunctionId
       .mockImplementationOnce((_nameOrSignatureOrSighash: string) => {
         throw new Error(
           'no matching function (argument="name", value="fulfillFunctionId", code=INVALID_ARGUMENT, version=abi/5.6.0)'
         );
       })
-      .mockImplementationOnce(getFunctionMock)
       .mockImplementationOnce(getFunctionMock);
     const invalidSubscription2 = { ...subscription2, fulfillFunctionId: '0xinvalid' };
     const logsData = await processSponsorWallet(
-      airnodeWallet,
-      { ...dapiServerMock, interface: { getFunction: getFunctionMockOnceSpy } } as any,
+      airnodeSigner,
+      { ...dapiServerMock, interface: { ...dapiServerMock.interface, getFunction: getFunctionMockOnceSpy } } as any,
       gasTarget,
       [subscription1, invalidSubscription2, subscription3],
       sponsorWallet,
@@ -216,10 +241,10 @@ describe('processSponsorWallet', () => {
 
     expect(getFunctionSpy).not.toHaveBeenCalled();
     expect(getFunctionMockOnceSpy).toHaveBeenNthCalledWith(1, '0xdc96acc8');
-    expect(getFunctionMockOnceSpy).toHaveBeenNthCalledWith(2, '0x206b48f4');
+    expect(getFunctionMockOnceSpy).toHaveBeenNthCalledWith(2, '0xdc96acc8');
     expect(getFunctionMockOnceSpy).toHaveBeenNthCalledWith(3, '0xdc96acc8');
-    expect(getFunctionMockOnceSpy).toHaveBeenNthCalledWith(4, '0xinvalid');
-    expect(getFunctionMockOnceSpy).toHaveBeenNthCalledWith(5, '0xdc96acc8');
+    expect(getFunctionMockOnceSpy).toHaveBeenNthCalledWith(4, '0x206b48f4');
+    expect(getFunctionMockOnceSpy).toHaveBeenNthCalledWith(5, '0xinvalid');
     expect(getFunctionMockOnceSpy).toHaveBeenNthCalledWith(6, '0x206b48f4');
     // fulfillPspBeaconUpdateSpy called for two successful updates and 1 failure is skipped
     expect(fulfillPspBeaconUpdateSpy).toHaveBeenCalledTimes(2);
@@ -232,7 +257,7 @@ describe('processSponsorWallet', () => {
               message: expect.stringMatching(/Tx submitted: 0x[A-Fa-f0-9]{64}/),
             },
           ],
-          subscription1,
+          { ...subscription1, txHash: expect.stringMatching(/^0x[A-Fa-f0-9]{64}$/), timestamp: expect.any(Number) },
         ],
         [
           [
@@ -251,7 +276,13 @@ describe('processSponsorWallet', () => {
               message: expect.stringMatching(/Tx submitted: 0x[A-Fa-f0-9]{64}/),
             },
           ],
-          subscription3,
+          // The nonce of the skipped subscription is assigned to the next one
+          {
+            ...subscription3,
+            nonce: 1,
+            txHash: expect.stringMatching(/^0x[A-Fa-f0-9]{64}$/),
+            timestamp: expect.any(Number),
+          },
         ],
       ])
     );
@@ -270,7 +301,7 @@ describe('processSponsorWallet', () => {
       .mockImplementationOnce(fulfillPspBeaconUpdateMock);
 
     const logsData = await processSponsorWallet(
-      airnodeWallet,
+      airnodeSigner,
       {
         ...dapiServerMock,
         functions: {
@@ -286,7 +317,7 @@ describe('processSponsorWallet', () => {
     );
 
     expect(getFunctionSpy).toHaveBeenCalledTimes(6);
-    expect(conditionPspBeaconUpdateSpy).toHaveBeenCalledTimes(3);
+    expect(multicallSpy).toHaveBeenCalledTimes(1);
     expect(fulfillPspBeaconUpdateSpy).not.toHaveBeenCalled();
     expect(fulfillPspBeaconUpdateOnceSpy).toHaveBeenCalledTimes(4);
     expect(logsData).toEqual(
@@ -298,7 +329,7 @@ describe('processSponsorWallet', () => {
               message: expect.stringMatching(/Tx submitted: 0x[A-Fa-f0-9]{64}/),
             },
           ],
-          subscription1,
+          { ...subscription1, txHash: expect.stringMatching(/^0x[A-Fa-f0-9]{64}$/), timestamp: expect.any(Number) },
         ],
         [
           [
@@ -317,28 +348,18 @@ describe('processSponsorWallet', () => {
               message: expect.stringMatching(/Tx submitted: 0x[A-Fa-f0-9]{64}/),
             },
           ],
-          subscription3,
+          { ...subscription3, txHash: expect.stringMatching(/^0x[A-Fa-f0-9]{64}$/), timestamp: expect.any(Number) },
         ],
       ])
     );
   });
 
   it('returns processed subscriptions with logs and skips subscriptions where conditions check does not pass', async () => {
-    const conditionPspBeaconUpdateOnceSpy = jest
-      .fn()
-      .mockImplementationOnce(conditionPspBeaconUpdateMock)
-      .mockImplementationOnce(() => Promise.resolve([false]))
-      .mockImplementationOnce(conditionPspBeaconUpdateMock);
+    multicallSpy.mockResolvedValueOnce(encodeConditionResults([true, false, true]));
 
     const logsData = await processSponsorWallet(
-      airnodeWallet,
-      {
-        ...dapiServerMock,
-        functions: {
-          fulfillPspBeaconUpdate: fulfillPspBeaconUpdateSpy,
-          conditionPspBeaconUpdate: conditionPspBeaconUpdateOnceSpy,
-        },
-      } as any,
+      airnodeSigner,
+      dapiServerMock as any,
       gasTarget,
       subscriptions,
       sponsorWallet,
@@ -349,7 +370,7 @@ describe('processSponsorWallet', () => {
     expect(getFunctionSpy).toHaveBeenCalledTimes(5);
     expect(conditionPspBeaconUpdateSpy).not.toHaveBeenCalled();
     expect(fulfillPspBeaconUpdateSpy).toHaveBeenCalledTimes(2);
-    expect(conditionPspBeaconUpdateOnceSpy).toHaveBeenCalledTimes(3);
+    expect(multicallSpy).toHaveBeenCalledTimes(1);
     expect(logsData).toEqual(
       expect.arrayContaining([
         [
@@ -359,7 +380,7 @@ describe('processSponsorWallet', () => {
               message: expect.stringMatching(/Tx submitted: 0x[A-Fa-f0-9]{64}/),
             },
           ],
-          subscription1,
+          { ...subscription1, txHash: expect.stringMatching(/^0x[A-Fa-f0-9]{64}$/), timestamp: expect.any(Number) },
         ],
         [
           [
@@ -377,9 +398,69 @@ describe('processSponsorWallet', () => {
               message: expect.stringMatching(/Tx submitted: 0x[A-Fa-f0-9]{64}/),
             },
           ],
-          subscription3,
+          {
+            ...subscription3,
+            nonce: 1,
+            txHash: expect.stringMatching(/^0x[A-Fa-f0-9]{64}$/),
+            timestamp: expect.any(Number),
+          },
         ],
       ])
     );
   });
+
+  it('checks conditions individually if the multicall fails', async () => {
+    multicallSpy.mockRejectedValue(new Error('execution reverted'));
+
+    const logsData = await processSponsorWallet(
+      airnodeSigner,
+      dapiServerMock as any,
+      gasTarget,
+      subscriptions,
+      sponsorWallet,
+      voidSigner,
+      transactionCount
+    );
+
+    expect(multicallSpy).toHaveBeenCalledTimes(2);
+    expect(conditionPspBeaconUpdateSpy).toHaveBeenCalledTimes(3);
+    expect(fulfillPspBeaconUpdateSpy).toHaveBeenCalledTimes(3);
+    expect(logsData).toEqual(
+      expect.arrayContaining(
+        subscriptions.map((subscription) => [
+          [{ level: 'INFO', message: expect.stringMatching(/Tx submitted: 0x[A-Fa-f0-9]{64}/) }],
+          { ...subscription, txHash: expect.stringMatching(/^0x[A-Fa-f0-9]{64}$/), timestamp: expect.any(Number) },
+        ])
+      )
+    );
+  });
+
+  it('returns assigned nonces without submitting transactions in dry run mode', async () => {
+    const logsData = await processSponsorWallet(
+      airnodeSigner,
+      dapiServerMock as any,
+      gasTarget,
+      subscriptions,
+      sponsorWallet,
+      voidSigner,
+      transactionCount,
+      true
+    );
+
+    expect(multicallSpy).toHaveBeenCalledTimes(1);
+    expect(fulfillPspBeaconUpdateSpy).not.toHaveBeenCalled();
+    expect(logsData).toEqual(
+      expect.arrayContaining(
+        subscriptions.map((subscription, idx) => [
+          [
+            {
+              level: 'INFO',
+              message: `Dry run: transaction using wallet ${sponsorWallet.address} with nonce ${idx} was not submitted`,
+            },
+          ],
+          { ...subscription, nonce: idx, timestamp: expect.any(Number) },
+        ])
+      )
+    );
+  });
 });
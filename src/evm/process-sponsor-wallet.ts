@@ -1,50 +1,55 @@
 import * as node from '@api3/airnode-node';
 import * as utils from '@api3/airnode-utilities';
-import { go } from '@api3/promise-utils';
 import { ethers } from 'ethers';
-import { checkSubscriptionCondition } from './check-conditions';
-import { GAS_LIMIT, TIMEOUT_MS, RETRIES } from '../constants';
-import { CheckedSubscription } from '../types';
+import { checkSubscriptionsConditions } from './check-conditions';
+import { submitTransactionWithFallback } from './provider-redundancy';
+import { GAS_LIMIT } from '../constants';
+import { recordConditionCheck, recordTransaction } from '../metrics';
+import { AirnodeSigner, CheckedSubscription, NamedProvider, SponsorWallet } from '../types';
 
 export const processSponsorWallet = async (
-  airnodeWallet: ethers.Wallet,
+  airnodeSigner: AirnodeSigner,
   contract: ethers.Contract,
   gasTarget: node.GasTarget,
   subscriptions: CheckedSubscription[],
-  sponsorWallet: ethers.Wallet,
+  sponsorWallet: SponsorWallet,
   voidSigner: ethers.VoidSigner,
-  transactionCount: number
-): Promise<node.LogsData<CheckedSubscription>[]> => {
-  const logs: node.LogsData<CheckedSubscription>[] = [];
+  transactionCount: number,
+  dryRun = false,
+  fallbackProviders: NamedProvider[] = []
+): Promise<node.LogsData<CheckedSubscription & { nonce?: number; txHash?: string; timestamp?: number }>[]> => {
+  const logs: node.LogsData<CheckedSubscription & { nonce?: number; txHash?: string; timestamp?: number }>[] = [];
+
+  // Check the conditions of all subscriptions before assigning any nonce
+  const conditionResults = await checkSubscriptionsConditions(subscriptions, contract, voidSigner);
+  const checkedSubscriptions = subscriptions.map((subscription, index) => ({
+    subscription,
+    conditionResult: conditionResults[index],
+  }));
 
   // Keep track of nonce outside of the loop in case there is an invalid subscription and its nonce is skipped
   let nextNonce = transactionCount;
 
   // Process each subscription in serial to keep nonces in order
-  for (const subscription of subscriptions) {
+  for (const { subscription, conditionResult } of checkedSubscriptions) {
     const { id: subscriptionId, relayer, sponsor, fulfillFunctionId, apiValue } = subscription;
 
-    // Check subscription
-    const [checkSubscriptionLogs, isValid] = await checkSubscriptionCondition(
-      subscription,
-      apiValue,
-      contract,
-      voidSigner
-    );
+    const [checkSubscriptionLogs, isValid] = conditionResult;
     logs.push([checkSubscriptionLogs, subscription]);
+    recordConditionCheck(subscriptionId, isValid);
 
     // Skip processing if the subscription is invalid
     if (!isValid) {
       continue;
     }
 
-    // Encode API value
-    const encodedFulfillmentData = ethers.utils.defaultAbiCoder.encode(['int256'], [apiValue]);
+    // API value is already encoded according to its type
+    const encodedFulfillmentData = apiValue.encodedValue;
 
     // Compute signature
     const timestamp = Math.floor(Date.now() / 1000);
 
-    const signature = await airnodeWallet.signMessage(
+    const signature = await airnodeSigner.signMessage(
       ethers.utils.arrayify(
         ethers.utils.keccak256(
           ethers.utils.solidityPack(
@@ -66,36 +71,44 @@ export const processSponsorWallet = async (
       continue;
     }
     const nonce = nextNonce++;
-    const tx = await go<ethers.ContractTransaction, Error>(
-      () =>
-        contract
-          .connect(sponsorWallet)
-          .functions[fulfillFunction.name](
-            subscriptionId,
-            airnodeWallet.address,
-            relayer,
-            sponsor,
-            timestamp,
-            encodedFulfillmentData,
-            signature,
-            {
-              gasLimit: GAS_LIMIT,
-              ...gasTarget,
-              nonce,
-            }
-          ),
-      { attemptTimeoutMs: TIMEOUT_MS, retries: RETRIES }
+
+    // Skip submitting the transaction and return the assigned nonce instead
+    if (dryRun) {
+      const message = `Dry run: transaction using wallet ${sponsorWallet.address} with nonce ${nonce} was not submitted`;
+      const log = utils.logger.pend('INFO', message);
+      logs.push([[log], { ...subscription, nonce, timestamp }]);
+      continue;
+    }
+
+    const [submitLogs, tx] = await submitTransactionWithFallback(sponsorWallet, fallbackProviders, (wallet) =>
+      contract
+        .connect(wallet)
+        .functions[fulfillFunction.name](
+          subscriptionId,
+          airnodeSigner.address,
+          relayer,
+          sponsor,
+          timestamp,
+          encodedFulfillmentData,
+          signature,
+          {
+            gasLimit: GAS_LIMIT,
+            ...gasTarget,
+            nonce,
+          }
+        )
     );
+    recordTransaction(subscription.chainId, sponsorWallet.address, tx.success);
     if (!tx.success) {
       const message = `Failed to submit transaction using wallet ${sponsorWallet.address} with nonce ${nonce}`;
       const log = utils.logger.pend('ERROR', message, tx.error);
-      logs.push([[log], subscription]);
+      logs.push([[...submitLogs, log], { ...subscription, nonce }]);
       continue;
     }
 
     const message = `Tx submitted: ${tx.data.hash}`;
     const log = utils.logger.pend('INFO', message);
-    logs.push([[log], subscription]);
+    logs.push([[...submitLogs, log], { ...subscription, nonce, txHash: tx.data.hash, timestamp }]);
   }
 
   return logs;
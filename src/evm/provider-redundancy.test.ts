@@ -0,0 +1,110 @@
+import { ethers } from 'ethers';
+import { groupProviderStatesByChain, readWithFallback, submitTransactionWithFallback } from './provider-redundancy';
+
+describe('groupProviderStatesByChain', () => {
+  it('groups provider states by chain and orders them by current block', () => {
+    const providerStates = [
+      { chainId: '1', providerName: 'provider1', currentBlock: 100 },
+      { chainId: '1', providerName: 'provider2', currentBlock: 101 },
+      { chainId: '3', providerName: 'provider3', currentBlock: 50 },
+      { chainId: '1', providerName: 'provider4', currentBlock: 101 },
+    ] as any[];
+
+    const chainProviderStates = groupProviderStatesByChain(providerStates);
+
+    expect(chainProviderStates.map((states) => states.map(({ providerName }) => providerName))).toEqual([
+      ['provider2', 'provider4', 'provider1'],
+      ['provider3'],
+    ]);
+  });
+});
+
+describe('readWithFallback', () => {
+  const providerStates = [{ providerName: 'provider1' }, { providerName: 'provider2' }];
+
+  it('returns the data and provider state of the first successful read', async () => {
+    const read = jest
+      .fn()
+      .mockResolvedValueOnce([[{ level: 'ERROR', message: 'Failed to read' }], null])
+      .mockResolvedValueOnce([[], 'data']);
+
+    const [logs, data] = await readWithFallback(providerStates, read);
+
+    expect(read).toHaveBeenCalledTimes(2);
+    expect(logs).toEqual([
+      { level: 'ERROR', message: 'Failed to read' },
+      { level: 'WARN', message: 'Read using provider provider1 failed' },
+    ]);
+    expect(data).toEqual({ providerState: providerStates[1], data: 'data' });
+  });
+
+  it('returns null if the read fails with all providers', async () => {
+    const read = jest.fn().mockResolvedValue([[], null]);
+
+    const [logs, data] = await readWithFallback(providerStates, read);
+
+    expect(read).toHaveBeenCalledTimes(2);
+    expect(logs).toHaveLength(2);
+    expect(data).toEqual(null);
+  });
+});
+
+describe('submitTransactionWithFallback', () => {
+  const sponsorWallet = ethers.Wallet.createRandom().connect(
+    new ethers.providers.JsonRpcProvider('http://127.0.0.1:8545/')
+  );
+  const fallbackProvider = new ethers.providers.JsonRpcProvider('http://127.0.0.1:8546/');
+  const tx = { hash: ethers.utils.keccak256(ethers.utils.randomBytes(32)) };
+
+  it('submits the transaction once with the sponsor wallet if it succeeds', async () => {
+    const submit = jest.fn().mockResolvedValue(tx);
+
+    const [logs, result] = await submitTransactionWithFallback(
+      sponsorWallet,
+      [{ providerName: 'fallback', provider: fallbackProvider }],
+      submit
+    );
+
+    expect(submit).toHaveBeenCalledTimes(1);
+    expect(submit).toHaveBeenCalledWith(sponsorWallet);
+    expect(logs).toEqual([]);
+    expect(result).toEqual({ success: true, data: tx });
+  });
+
+  it('submits the transaction with the fallback provider if it fails', async () => {
+    const submit = jest.fn().mockRejectedValueOnce(new Error('Network error')).mockResolvedValue(tx);
+
+    const [logs, result] = await submitTransactionWithFallback(
+      sponsorWallet,
+      [{ providerName: 'fallback', provider: fallbackProvider }],
+      submit
+    );
+
+    // The first attempt is retried once with the same provider before failing over
+    expect(submit).toHaveBeenCalledTimes(2);
+    expect(submit).toHaveBeenNthCalledWith(2, sponsorWallet);
+    expect(result).toEqual({ success: true, data: tx });
+    expect(logs).toEqual([]);
+  });
+
+  it('returns the last error if the transaction cannot be submitted with any provider', async () => {
+    const submit = jest.fn().mockRejectedValue(new Error('Network error'));
+
+    const [logs, result] = await submitTransactionWithFallback(
+      sponsorWallet,
+      [{ providerName: 'fallback', provider: fallbackProvider }],
+      submit
+    );
+
+    expect(submit).toHaveBeenCalledTimes(4);
+    expect(submit.mock.calls[3][0].provider).toEqual(fallbackProvider);
+    expect(logs).toEqual([
+      {
+        level: 'WARN',
+        message: 'Failed to submit transaction. Retrying with provider fallback...',
+        error: new Error('Network error'),
+      },
+    ]);
+    expect(result).toEqual({ success: false, error: new Error('Network error') });
+  });
+});
@@ -0,0 +1,69 @@
+import * as node from '@api3/airnode-node';
+import * as utils from '@api3/airnode-utilities';
+import { go, GoResult } from '@api3/promise-utils';
+import { ethers } from 'ethers';
+import groupBy from 'lodash/groupBy';
+import isNil from 'lodash/isNil';
+import { TIMEOUT_MS, RETRIES } from '../constants';
+import { EVMBaseState, NamedProvider, ProviderState, SponsorWallet } from '../types';
+
+/**
+ * Groups provider states by chain and orders the providers of each chain from the healthiest one (the one that
+ * reported the most recent block) to the least healthy one. Ties keep the order of the providers in the config.
+ */
+export const groupProviderStatesByChain = <T extends ProviderState<EVMBaseState>>(providerStates: T[]): T[][] =>
+  Object.values(groupBy(providerStates, 'chainId')).map((chainProviderStates) =>
+    [...chainProviderStates].sort((a, b) => b.currentBlock - a.currentBlock)
+  );
+
+/**
+ * Runs the read against each provider state in order and returns the result of the first one that succeeds
+ * together with the provider state that was used.
+ */
+export const readWithFallback = async <P extends { providerName: string }, T>(
+  providerStates: P[],
+  read: (providerState: P) => Promise<node.LogsData<T | null>>
+): Promise<node.LogsData<{ providerState: P; data: T } | null>> => {
+  const logs: utils.PendingLog[] = [];
+  for (const providerState of providerStates) {
+    const [readLogs, data] = await read(providerState);
+    logs.push(...readLogs);
+    if (!isNil(data)) {
+      return [logs, { providerState, data }];
+    }
+    logs.push(utils.logger.pend('WARN', `Read using provider ${providerState.providerName} failed`));
+  }
+
+  return [logs, null];
+};
+
+/**
+ * Submits the transaction with the sponsor wallet and, if that fails, with the same sponsor wallet connected to
+ * each fallback provider in order. The transaction is built with the same nonce and arguments on every attempt so
+ * it is never submitted more than once.
+ */
+export const submitTransactionWithFallback = async (
+  sponsorWallet: SponsorWallet,
+  fallbackProviders: NamedProvider[],
+  submit: (sponsorWallet: SponsorWallet) => Promise<ethers.ContractTransaction>
+): Promise<[utils.PendingLog[], GoResult<ethers.ContractTransaction, Error>]> => {
+  const logs: utils.PendingLog[] = [];
+
+  let result = await go<ethers.ContractTransaction, Error>(() => submit(sponsorWallet), {
+    attemptTimeoutMs: TIMEOUT_MS,
+    retries: RETRIES,
+  });
+  for (const { providerName, provider } of fallbackProviders) {
+    if (result.success) {
+      break;
+    }
+    const message = `Failed to submit transaction. Retrying with provider ${providerName}...`;
+    logs.push(utils.logger.pend('WARN', message, result.error));
+    result = await go<ethers.ContractTransaction, Error>(() => submit(sponsorWallet.connect(provider)), {
+      attemptTimeoutMs: TIMEOUT_MS,
+      retries: RETRIES,
+    });
+  }
+
+  return [logs, result];
+};
@@ -0,0 +1,261 @@
+import { ethers } from 'ethers';
+import { bumpFees, processStuckTransactions } from './stuck-transactions';
+import { StateStore } from '../types';
+
+const gwei = (value: string) => ethers.utils.parseUnits(value, 'gwei');
+
+const legacyTransaction = {
+  hash: '0x3f2bd7f5ab1bd2c3e1f6d4ba0cd06f3dcb24ff6f3f7e0f2f06f3a1b5a76c8a10',
+  to: '0x2bdB2Ba3e6D6B6ab6a5Bc2Ee5C8E4fd7d2A8f5C7',
+  data: '0x206b48f4',
+  value: ethers.constants.Zero,
+  gasLimit: ethers.BigNumber.from(500_000),
+  gasPrice: gwei('10'),
+  nonce: 5,
+} as any;
+const eip1559Transaction = {
+  ...legacyTransaction,
+  gasPrice: undefined,
+  maxFeePerGas: gwei('20'),
+  maxPriorityFeePerGas: gwei('2'),
+} as any;
+const stuckTransactions = { maxPendingAgeSeconds: 300, maxGasPriceGwei: '100' };
+
+describe('bumpFees', () => {
+  it('bumps the gas price of legacy transactions', () => {
+    expect(bumpFees(legacyTransaction, { gasPrice: gwei('5') } as any, stuckTransactions)).toEqual([
+      [],
+      { gasPrice: gwei('12') },
+    ]);
+  });
+
+  it('uses the current gas target if it is higher than the bumped fees', () => {
+    expect(
+      bumpFees(eip1559Transaction, { maxFeePerGas: gwei('30'), maxPriorityFeePerGas: gwei('3') } as any, {
+        ...stuckTransactions,
+        feeBumpPercentage: 10,
+      })
+    ).toEqual([[], { maxFeePerGas: gwei('30'), maxPriorityFeePerGas: gwei('3') }]);
+  });
+
+  it('caps the fees at the maximum gas price', () => {
+    expect(
+      bumpFees(eip1559Transaction, { maxFeePerGas: gwei('200'), maxPriorityFeePerGas: gwei('150') } as any, {
+        ...stuckTransactions,
+        maxGasPriceGwei: '50',
+      })
+    ).toEqual([[], { maxFeePerGas: gwei('50'), maxPriorityFeePerGas: gwei('50') }]);
+  });
+
+  it('returns null if the bumped fee exceeds the maximum gas price', () => {
+    expect(
+      bumpFees(legacyTransaction, { gasPrice: gwei('5') } as any, { ...stuckTransactions, maxGasPriceGwei: '11' })
+    ).toEqual([[{ level: 'WARN', message: 'Bumped fee 12.0 Gwei exceeds the maximum gas price of 11 Gwei' }], null]);
+  });
+});
+
+describe('processStuckTransactions', () => {
+  const now = Math.floor(Date.now() / 1000);
+  const runState = {
+    id: '0x1',
+    apiValue: '723.39202',
+    txHash: legacyTransaction.hash,
+    nonce: 5,
+    timestamp: now - 600,
+    status: 'pending' as const,
+    kind: 'subscription' as const,
+  };
+  const replacementHash = '0x9b6d2d1f5c7f1a9e0a14e1c5b4d9a37c2bcf2e4c3b3e0f69b7a8e1f2d3c4b5a6';
+
+  let sponsorWallet: any;
+  let stateStore: StateStore;
+
+  beforeEach(() => {
+    sponsorWallet = {
+      address: '0x61648B2Ec3e6b3492E90184Ef281C2ba28a675ec',
+      provider: {
+        getTransactionCount: jest.fn().mockResolvedValue(7),
+        getTransaction: jest.fn().mockResolvedValue(legacyTransaction),
+      },
+      sendTransaction: jest.fn().mockResolvedValue({ hash: replacementHash }),
+    };
+    stateStore = { get: jest.fn(), set: jest.fn().mockResolvedValue(undefined) };
+  });
+
+  it('returns the latest transaction count if there are no pending transactions', async () => {
+    sponsorWallet.provider.getTransactionCount.mockResolvedValue(5);
+
+    const [logs, nextNonce] = await processStuckTransactions(
+      stateStore,
+      sponsorWallet,
+      { gasPrice: gwei('5') } as any,
+      [runState],
+      5,
+      stuckTransactions
+    );
+
+    expect(sponsorWallet.provider.getTransactionCount).toHaveBeenCalledWith(sponsorWallet.address, 'pending');
+    expect(logs).toEqual([]);
+    expect(nextNonce).toEqual(5);
+    expect(sponsorWallet.sendTransaction).not.toHaveBeenCalled();
+  });
+
+  it('replaces transactions that have been pending for too long', async () => {
+    const [logs, nextNonce] = await processStuckTransactions(
+      stateStore,
+      sponsorWallet,
+      { gasPrice: gwei('5') } as any,
+      [runState, { ...runState, id: '0x2', nonce: 6, timestamp: now - 10 }],
+      5,
+      stuckTransactions
+    );
+
+    expect(nextNonce).toEqual(7);
+    expect(sponsorWallet.sendTransaction).toHaveBeenCalledTimes(1);
+    expect(sponsorWallet.sendTransaction).toHaveBeenCalledWith({
+      to: legacyTransaction.to,
+      data: legacyTransaction.data,
+      value: legacyTransaction.value,
+      gasLimit: legacyTransaction.gasLimit,
+      gasPrice: gwei('12'),
+      nonce: 5,
+    });
+    expect(stateStore.set).toHaveBeenCalledWith('subscription', '0x1', {
+      apiValue: runState.apiValue,
+      txHash: replacementHash,
+      nonce: 5,
+      timestamp: expect.any(Number),
+      status: 'pending',
+    });
+    expect(logs).toEqual([
+      { level: 'INFO', message: 'Sponsor wallet has 2 pending transaction(s)' },
+      {
+        level: 'INFO',
+        message: `Replaced stuck transaction ${legacyTransaction.hash} of subscription 0x1 with ${replacementHash}`,
+      },
+    ]);
+  });
+
+  it('cancels stuck transactions with a zero value self-transfer', async () => {
+    await processStuckTransactions(stateStore, sponsorWallet, { gasPrice: gwei('5') } as any, [runState], 5, {
+      ...stuckTransactions,
+      action: 'cancel',
+    });
+
+    expect(sponsorWallet.sendTransaction).toHaveBeenCalledWith({
+      to: sponsorWallet.address,
+      value: 0,
+      gasLimit: 21_000,
+      gasPrice: gwei('12'),
+      nonce: 5,
+    });
+    expect(stateStore.set).toHaveBeenCalledWith(
+      'subscription',
+      '0x1',
+      expect.objectContaining({ txHash: replacementHash, cancelled: true })
+    );
+  });
+
+  it('cancels stuck transactions whose fulfillment data has expired instead of replacing them', async () => {
+    const [logs] = await processStuckTransactions(
+      stateStore,
+      sponsorWallet,
+      { gasPrice: gwei('5') } as any,
+      [{ ...runState, fulfillmentTimestamp: now - 3600 }],
+      5,
+      stuckTransactions
+    );
+
+    expect(sponsorWallet.sendTransaction).toHaveBeenCalledWith({
+      to: sponsorWallet.address,
+      value: 0,
+      gasLimit: 21_000,
+      gasPrice: gwei('12'),
+      nonce: 5,
+    });
+    expect(stateStore.set).toHaveBeenCalledWith(
+      'subscription',
+      '0x1',
+      expect.objectContaining({ txHash: replacementHash, cancelled: true, fulfillmentTimestamp: now - 3600 })
+    );
+    expect(logs).toContainEqual({
+      level: 'INFO',
+      message: `Fulfillment data of stuck transaction ${legacyTransaction.hash} has expired`,
+    });
+  });
+
+  it('replaces stuck transactions of different kinds sharing the sponsor wallet', async () => {
+    await processStuckTransactions(
+      stateStore,
+      sponsorWallet,
+      { gasPrice: gwei('5') } as any,
+      [runState, { ...runState, id: '31337/0x2', nonce: 6, kind: 'beaconSet' }],
+      5,
+      stuckTransactions
+    );
+
+    expect(sponsorWallet.sendTransaction).toHaveBeenCalledTimes(2);
+    expect(stateStore.set).toHaveBeenCalledWith('subscription', '0x1', expect.anything());
+    expect(stateStore.set).toHaveBeenCalledWith('beaconSet', '31337/0x2', expect.anything());
+  });
+
+  it('replaces transactions with a gas target deserialized from JSON', async () => {
+    const gasTarget = JSON.parse(JSON.stringify({ maxFeePerGas: gwei('30'), maxPriorityFeePerGas: gwei('3') }));
+    sponsorWallet.provider.getTransaction.mockResolvedValue(eip1559Transaction);
+
+    const [, nextNonce] = await processStuckTransactions(
+      stateStore,
+      sponsorWallet,
+      gasTarget,
+      [runState],
+      5,
+      stuckTransactions
+    );
+
+    expect(nextNonce).toEqual(7);
+    expect(sponsorWallet.sendTransaction).toHaveBeenCalledWith(
+      expect.objectContaining({ maxFeePerGas: gwei('30'), maxPriorityFeePerGas: gwei('3'), nonce: 5 })
+    );
+  });
+
+  it('does not replace transactions in dry run mode', async () => {
+    const [logs, nextNonce] = await processStuckTransactions(
+      stateStore,
+      sponsorWallet,
+      { gasPrice: gwei('5') } as any,
+      [runState],
+      5,
+      stuckTransactions,
+      true
+    );
+
+    expect(nextNonce).toEqual(7);
+    expect(sponsorWallet.sendTransaction).not.toHaveBeenCalled();
+    expect(logs).toContainEqual({
+      level: 'INFO',
+      message: `Dry run: stuck transaction ${legacyTransaction.hash} with nonce 5 was not replaced`,
+    });
+  });
+
+  it('falls back to the latest transaction count if the pending transaction count cannot be fetched', async () => {
+    sponsorWallet.provider.getTransactionCount.mockRejectedValue(new Error('Network error'));
+
+    const [logs, nextNonce] = await processStuckTransactions(
+      stateStore,
+      sponsorWallet,
+      { gasPrice: gwei('5') } as any,
+      [runState],
+      5,
+      stuckTransactions
+    );
+
+    expect(nextNonce).toEqual(5);
+    expect(logs).toEqual([
+      {
+        level: 'ERROR',
+        message: 'Failed to fetch the sponsor wallet pending transaction count',
+        error: new Error('Network error'),
+      },
+    ]);
+  });
+});
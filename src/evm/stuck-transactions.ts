@@ -0,0 +1,192 @@
+import * as node from '@api3/airnode-node';
+import * as utils from '@api3/airnode-utilities';
+import { go } from '@api3/promise-utils';
+import { ethers } from 'ethers';
+import isNil from 'lodash/isNil';
+import sortBy from 'lodash/sortBy';
+import { submitTransactionWithFallback } from './provider-redundancy';
+import { FULFILLMENT_VALIDITY_SECONDS, STUCK_TRANSACTION_FEE_BUMP_PERCENTAGE, TIMEOUT_MS, RETRIES } from '../constants';
+import { saveRunState } from '../state-store';
+import { Id, NamedProvider, RunState, RunStateKind, SponsorWallet, StateStore } from '../types';
+import { StuckTransactions } from '../validator';
+
+const CANCEL_GAS_LIMIT = 21_000;
+
+const RUN_STATE_KIND_NAMES: Record<RunStateKind, string> = {
+  subscription: 'subscription',
+  beaconSet: 'beacon set',
+  rrpBeacon: 'beacon',
+};
+
+// Run states of different kinds can share a sponsor wallet and therefore its nonce queue
+type TrackedRunState = Id<RunState> & { kind: RunStateKind };
+
+type FeeOverrides =
+  | { gasPrice: ethers.BigNumber }
+  | { maxFeePerGas: ethers.BigNumber; maxPriorityFeePerGas: ethers.BigNumber };
+
+// The gas target of the workers is deserialized from JSON so its fields are converted before being compared
+const max = (a: ethers.BigNumber, b?: ethers.BigNumberish | null) =>
+  isNil(b) || ethers.BigNumber.from(b).lte(a) ? a : ethers.BigNumber.from(b);
+const min = (a: ethers.BigNumber, b: ethers.BigNumber) => (b.lt(a) ? b : a);
+
+/**
+ * Bumps the fees of the stuck transaction by the configured percentage. The current gas target is used instead if it
+ * is higher and the fees are capped at the configured maximum gas price.
+ */
+export const bumpFees = (
+  transaction: ethers.providers.TransactionResponse,
+  gasTarget: node.GasTarget,
+  stuckTransactions: StuckTransactions
+): node.LogsData<FeeOverrides | null> => {
+  const feeBumpPercentage = stuckTransactions.feeBumpPercentage || STUCK_TRANSACTION_FEE_BUMP_PERCENTAGE;
+  const maxGasPrice = ethers.utils.parseUnits(stuckTransactions.maxGasPriceGwei, 'gwei');
+  const bump = (fee: ethers.BigNumber) => fee.mul(100 + feeBumpPercentage).div(100);
+
+  // The minimum fee a replacement transaction is accepted with
+  const minimumFee = bump(transaction.maxFeePerGas || transaction.gasPrice || ethers.constants.Zero);
+  if (minimumFee.gt(maxGasPrice)) {
+    const message = `Bumped fee ${ethers.utils.formatUnits(minimumFee, 'gwei')} Gwei exceeds the maximum gas price of ${
+      stuckTransactions.maxGasPriceGwei
+    } Gwei`;
+    const log = utils.logger.pend('WARN', message);
+    return [[log], null];
+  }
+
+  if (transaction.maxFeePerGas) {
+    const maxFeePerGas = min(max(minimumFee, gasTarget.maxFeePerGas), maxGasPrice);
+    const maxPriorityFeePerGas = min(
+      max(bump(transaction.maxPriorityFeePerGas || ethers.constants.Zero), gasTarget.maxPriorityFeePerGas),
+      maxFeePerGas
+    );
+    return [[], { maxFeePerGas, maxPriorityFeePerGas }];
+  }
+  return [[], { gasPrice: min(max(minimumFee, gasTarget.gasPrice), maxGasPrice) }];
+};
+
+const replaceStuckTransaction = async (
+  stateStore: StateStore | null,
+  sponsorWallet: SponsorWallet,
+  gasTarget: node.GasTarget,
+  { id, kind, ...runState }: TrackedRunState,
+  stuckTransactions: StuckTransactions,
+  fallbackProviders: NamedProvider[]
+): Promise<utils.PendingLog[]> => {
+  const goTransaction = await go(() => sponsorWallet.provider.getTransaction(runState.txHash), {
+    attemptTimeoutMs: TIMEOUT_MS,
+    retries: RETRIES,
+  });
+  if (!goTransaction.success || !goTransaction.data) {
+    const message = `Failed to fetch stuck transaction ${runState.txHash} of ${RUN_STATE_KIND_NAMES[kind]} ${id}`;
+    return [utils.logger.pend('ERROR', message, goTransaction.success ? undefined : goTransaction.error)];
+  }
+  const transaction = goTransaction.data;
+
+  const [feeLogs, fees] = bumpFees(transaction, gasTarget, stuckTransactions);
+  if (!fees) {
+    return [...feeLogs, utils.logger.pend('WARN', `Unable to replace stuck transaction ${runState.txHash}`)];
+  }
+
+  // Resending fulfillment data whose signed timestamp has expired would revert so such transactions are cancelled
+  const isExpired =
+    !isNil(runState.fulfillmentTimestamp) &&
+    Math.floor(Date.now() / 1000) - runState.fulfillmentTimestamp >= FULFILLMENT_VALIDITY_SECONDS;
+  const expiredLogs = isExpired
+    ? [utils.logger.pend('INFO', `Fulfillment data of stuck transaction ${runState.txHash} has expired`)]
+    : [];
+
+  // Cancelling sends a zero value self-transfer with the same nonce to unblock the following transactions
+  const cancel = stuckTransactions.action === 'cancel' || isExpired;
+  const [submitLogs, tx] = await submitTransactionWithFallback(sponsorWallet, fallbackProviders, (wallet) =>
+    wallet.sendTransaction({
+      ...(cancel
+        ? { to: wallet.address, value: 0, gasLimit: CANCEL_GAS_LIMIT }
+        : { to: transaction.to, data: transaction.data, value: transaction.value, gasLimit: transaction.gasLimit }),
+      ...fees,
+      nonce: transaction.nonce,
+    })
+  );
+  if (!tx.success) {
+    const message = `Failed to ${cancel ? 'cancel' : 'replace'} stuck transaction ${runState.txHash}`;
+    return [...expiredLogs, ...submitLogs, utils.logger.pend('ERROR', message, tx.error)];
+  }
+
+  const message = `${cancel ? 'Cancelled' : 'Replaced'} stuck transaction ${runState.txHash} of ${
+    RUN_STATE_KIND_NAMES[kind]
+  } ${id} with ${tx.data.hash}`;
+  const log = utils.logger.pend('INFO', message);
+  const [saveLogs] = await saveRunState(stateStore, kind, id, {
+    ...runState,
+    txHash: tx.data.hash,
+    timestamp: Math.floor(Date.now() / 1000),
+    status: 'pending',
+    ...(cancel ? { cancelled: true } : {}),
+  });
+  return [...expiredLogs, ...submitLogs, log, ...saveLogs];
+};
+
+/**
+ * Compares the latest and pending transaction counts of the sponsor wallet and replaces (or cancels) the tracked
+ * transactions that have been pending for longer than the configured age. Returns the nonce new transactions should
+ * use so that they do not conflict with the pending ones.
+ */
+export const processStuckTransactions = async (
+  stateStore: StateStore | null,
+  sponsorWallet: SponsorWallet,
+  gasTarget: node.GasTarget,
+  runStates: TrackedRunState[],
+  transactionCount: number,
+  stuckTransactions: StuckTransactions,
+  dryRun = false,
+  fallbackProviders: NamedProvider[] = []
+): Promise<node.LogsData<number>> => {
+  const goPendingTransactionCount = await go(
+    () => sponsorWallet.provider.getTransactionCount(sponsorWallet.address, 'pending'),
+    {
+      attemptTimeoutMs: TIMEOUT_MS,
+      retries: RETRIES,
+    }
+  );
+  if (!goPendingTransactionCount.success) {
+    const message = 'Failed to fetch the sponsor wallet pending transaction count';
+    const log = utils.logger.pend('ERROR', message, goPendingTransactionCount.error);
+    return [[log], transactionCount];
+  }
+  const pendingTransactionCount = goPendingTransactionCount.data;
+  if (pendingTransactionCount <= transactionCount) {
+    return [[], transactionCount];
+  }
+
+  const pendingCountMessage = `Sponsor wallet has ${pendingTransactionCount - transactionCount} pending transaction(s)`;
+  const logs = [utils.logger.pend('INFO', pendingCountMessage)];
+
+  const now = Math.floor(Date.now() / 1000);
+  const stuckRunStates = sortBy(
+    runStates.filter(
+      ({ status, nonce, timestamp }) =>
+        status === 'pending' && nonce >= transactionCount && now - timestamp >= stuckTransactions.maxPendingAgeSeconds
+    ),
+    'nonce'
+  );
+
+  // Stuck transactions are replaced in nonce order so that the oldest one is unblocked first
+  for (const runState of stuckRunStates) {
+    if (dryRun) {
+      const message = `Dry run: stuck transaction ${runState.txHash} with nonce ${runState.nonce} was not replaced`;
+      logs.push(utils.logger.pend('INFO', message));
+      continue;
+    }
+    logs.push(
+      ...(await replaceStuckTransaction(
+        stateStore,
+        sponsorWallet,
+        gasTarget,
+        runState,
+        stuckTransactions,
+        fallbackProviders
+      ))
+    );
+  }
+
+  return [logs, pendingTransactionCount];
+};
@@ -2,40 +2,60 @@ import * as node from '@api3/airnode-node';
 import { ethers } from 'ethers';
 import { getSponsorWalletAndTransactionCount } from './transaction-count';
 import { PROTOCOL_ID_PSP } from '../constants';
+import * as mnemonic from '../signer/mnemonic';
 
 describe('getSponsorWalletAndTransactionCount', () => {
-  const airnodeWallet = ethers.Wallet.fromMnemonic(
-    'achieve climb couple wait accident symbol spy blouse reduce foil echo label'
-  );
+  const airnodeWalletMnemonic = 'achieve climb couple wait accident symbol spy blouse reduce foil echo label';
+  const airnodeSigner = mnemonic.create(airnodeWalletMnemonic);
   const provider = new ethers.providers.JsonRpcProvider('http://127.0.0.1:8545/');
   const currentBlock = Math.floor(Date.now() / 1000);
   const sponsor = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
 
-  it('should return sponsor wallet and transaction count', async () => {
+  it('should return sponsor wallet, transaction count and balance', async () => {
     const getTransactionCountSpy = jest.spyOn(ethers.providers.JsonRpcProvider.prototype, 'getTransactionCount');
     const transactionCount = 25;
     getTransactionCountSpy.mockResolvedValueOnce(transactionCount);
+    const getBalanceSpy = jest.spyOn(ethers.providers.JsonRpcProvider.prototype, 'getBalance');
+    const balance = ethers.utils.parseEther('1.5');
+    getBalanceSpy.mockResolvedValueOnce(balance);
 
-    const [logs, data] = await getSponsorWalletAndTransactionCount(airnodeWallet, provider, currentBlock, sponsor);
+    const [logs, data] = await getSponsorWalletAndTransactionCount(airnodeSigner, provider, currentBlock, sponsor);
 
     expect(getTransactionCountSpy).toHaveBeenNthCalledWith(
       1,
-      node.evm.deriveSponsorWalletFromMnemonic(airnodeWallet.mnemonic.phrase, sponsor, PROTOCOL_ID_PSP).address,
+      node.evm.deriveSponsorWalletFromMnemonic(airnodeWalletMnemonic, sponsor, PROTOCOL_ID_PSP).address,
       expect.any(Number)
     );
     expect(logs).toEqual(
       expect.arrayContaining([
         { level: 'INFO', message: `Sponsor wallet 0x83F...50FF transaction count: ${transactionCount}` },
+        { level: 'INFO', message: 'Sponsor wallet 0x83F...50FF balance: 1.5' },
       ])
     );
     expect(data).toEqual(
       expect.objectContaining({
         sponsorWallet: expect.any(ethers.Wallet),
         transactionCount,
+        balance,
       })
     );
   });
 
+  it('returns null with error log if balance cannot be fetched', async () => {
+    const getTransactionCountSpy = jest.spyOn(ethers.providers.JsonRpcProvider.prototype, 'getTransactionCount');
+    getTransactionCountSpy.mockResolvedValueOnce(25);
+    const getBalanceSpy = jest.spyOn(ethers.providers.JsonRpcProvider.prototype, 'getBalance');
+    getBalanceSpy.mockRejectedValue(new Error('Network error'));
+
+    const [logs, data] = await getSponsorWalletAndTransactionCount(airnodeSigner, provider, currentBlock, sponsor);
+
+    expect(getBalanceSpy).toHaveBeenCalled();
+    expect(logs).toEqual([
+      { level: 'ERROR', message: 'Failed to fetch the sponsor wallet balance', error: new Error('Network error') },
+    ]);
+    expect(data).toEqual(null);
+  });
+
   it('returns null with error log if transaction count cannot be fetched', async () => {
     const getTransactionCountSpy = jest.spyOn(ethers.providers.JsonRpcProvider.prototype, 'getTransactionCount');
     const errorMessage = 'could not detect network (event="noNetwork", code=NETWORK_ERROR, version=providers/5.5.3)';
@@ -43,7 +63,7 @@ describe('getSponsorWalletAndTransactionCount', () => {
       throw new Error(errorMessage);
     });
 
-    const [logs, data] = await getSponsorWalletAndTransactionCount(airnodeWallet, provider, currentBlock, sponsor);
+    const [logs, data] = await getSponsorWalletAndTransactionCount(airnodeSigner, provider, currentBlock, sponsor);
 
     expect(getTransactionCountSpy).toHaveBeenCalled();
     expect(logs).toEqual(
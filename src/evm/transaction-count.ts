@@ -2,20 +2,19 @@ import * as node from '@api3/airnode-node';
 import * as utils from '@api3/airnode-utilities';
 import { go } from '@api3/promise-utils';
 import { ethers } from 'ethers';
-import { SponsorWalletTransactionCount } from '../types';
+import { AirnodeSigner, SponsorWalletTransactionCount } from '../types';
 import { TIMEOUT_MS, RETRIES, PROTOCOL_ID_PSP } from '../constants';
 import { shortenAddress } from '../wallet';
 
 export const getSponsorWalletAndTransactionCount = async (
-  airnodeWallet: ethers.Wallet,
+  airnodeSigner: AirnodeSigner,
   provider: ethers.providers.Provider,
   currentBlock: number,
-  sponsor: string
+  sponsor: string,
+  protocolId = PROTOCOL_ID_PSP
 ): Promise<node.LogsData<SponsorWalletTransactionCount | null>> => {
   // Derive sponsorWallet address
-  const sponsorWallet = node.evm
-    .deriveSponsorWalletFromMnemonic(airnodeWallet.mnemonic.phrase, sponsor, PROTOCOL_ID_PSP)
-    .connect(provider);
+  const sponsorWallet = airnodeSigner.getSponsorWallet(sponsor, protocolId).connect(provider);
 
   // Fetch sponsorWallet transaction count
   const transactionCount = await go(() => provider.getTransactionCount(sponsorWallet.address, currentBlock), {
@@ -28,7 +27,22 @@ export const getSponsorWalletAndTransactionCount = async (
     return [[log], null];
   }
 
-  const message = `Sponsor wallet ${shortenAddress(sponsorWallet.address)} transaction count: ${transactionCount.data}`;
-  const log = utils.logger.pend('INFO', message);
-  return [[log], { sponsorWallet, transactionCount: transactionCount.data }];
+  // Fetch sponsorWallet balance
+  const balance = await go(() => provider.getBalance(sponsorWallet.address, currentBlock), {
+    attemptTimeoutMs: TIMEOUT_MS,
+    retries: RETRIES,
+  });
+  if (!balance.success) {
+    const message = 'Failed to fetch the sponsor wallet balance';
+    const log = utils.logger.pend('ERROR', message, balance.error);
+    return [[log], null];
+  }
+
+  const shortSponsorWalletAddress = shortenAddress(sponsorWallet.address);
+  const transactionCountMessage = `Sponsor wallet ${shortSponsorWalletAddress} transaction count: ${transactionCount.data}`;
+  const balanceMessage = `Sponsor wallet ${shortSponsorWalletAddress} balance: ${ethers.utils.formatEther(
+    balance.data
+  )}`;
+  const logs = [utils.logger.pend('INFO', transactionCountMessage), utils.logger.pend('INFO', balanceMessage)];
+  return [logs, { sponsorWallet, transactionCount: transactionCount.data, balance: balance.data }];
 };
@@ -0,0 +1,176 @@
+import { ethers } from 'ethers';
+import { checkTransactionReceipt, decodeRevertReason, trackTransaction } from './transaction-receipt';
+import { StateStore } from '../types';
+
+const txHash = '0x3f2bd7f5ab1bd2c3e1f6d4ba0cd06f3dcb24ff6f3f7e0f2f06f3a1b5a76c8a10';
+const transaction = {
+  hash: txHash,
+  from: '0x61648B2Ec3e6b3492E90184Ef281C2ba28a675ec',
+  to: '0x2bdB2Ba3e6D6B6ab6a5Bc2Ee5C8E4fd7d2A8f5C7',
+  data: '0x206b48f4',
+  value: ethers.constants.Zero,
+  gasLimit: ethers.BigNumber.from(500_000),
+};
+const encodeError = (reason: string) =>
+  ethers.utils.hexConcat([
+    ethers.utils.id('Error(string)').substring(0, 10),
+    ethers.utils.defaultAbiCoder.encode(['string'], [reason]),
+  ]);
+
+const buildProvider = (receipt: unknown, tx: unknown = transaction, callResult = '0x') =>
+  ({
+    getTransactionReceipt: jest.fn().mockResolvedValue(receipt),
+    getTransaction: jest.fn().mockResolvedValue(tx),
+    call: jest.fn().mockResolvedValue(callResult),
+  } as any);
+
+describe('decodeRevertReason', () => {
+  it('decodes Error(string) reverts', () => {
+    expect(decodeRevertReason(encodeError('Does not update timestamp'))).toEqual('Does not update timestamp');
+  });
+
+  it('decodes Panic(uint256) reverts', () => {
+    const data = ethers.utils.hexConcat([
+      ethers.utils.id('Panic(uint256)').substring(0, 10),
+      ethers.utils.defaultAbiCoder.encode(['uint256'], [0x11]),
+    ]);
+    expect(decodeRevertReason(data)).toEqual('Panic with code 0x11');
+  });
+
+  it('returns null for custom errors or empty revert data', () => {
+    expect(decodeRevertReason('0x')).toBeNull();
+    expect(decodeRevertReason('0x12345678')).toBeNull();
+  });
+});
+
+describe('checkTransactionReceipt', () => {
+  it('returns confirmed for successful transactions', async () => {
+    const provider = buildProvider({ status: 1, blockNumber: 12 });
+
+    const [logs, data] = await checkTransactionReceipt(provider, txHash);
+
+    expect(logs).toEqual([{ level: 'INFO', message: `Transaction ${txHash} confirmed in block 12` }]);
+    expect(data).toEqual({ status: 'confirmed' });
+  });
+
+  it('returns reverted with the decoded revert reason', async () => {
+    const provider = buildProvider({ status: 0, blockNumber: 12 }, transaction, encodeError('Subscription not found'));
+
+    const [logs, data] = await checkTransactionReceipt(provider, txHash);
+
+    expect(provider.call).toHaveBeenCalledWith(
+      {
+        from: transaction.from,
+        to: transaction.to,
+        data: transaction.data,
+        value: transaction.value,
+        gasLimit: transaction.gasLimit,
+      },
+      11
+    );
+    expect(logs).toEqual([
+      { level: 'ERROR', message: `Transaction ${txHash} reverted in block 12: Subscription not found` },
+    ]);
+    expect(data).toEqual({ status: 'reverted', revertReason: 'Subscription not found' });
+  });
+
+  it('returns reverted without a reason if the revert data cannot be decoded', async () => {
+    const provider = buildProvider({ status: 0, blockNumber: 12 });
+    provider.call.mockRejectedValue(new Error('missing revert data in call exception'));
+
+    const [logs, data] = await checkTransactionReceipt(provider, txHash);
+
+    expect(logs).toEqual([{ level: 'ERROR', message: `Transaction ${txHash} reverted in block 12: unknown reason` }]);
+    expect(data).toEqual({ status: 'reverted' });
+  });
+
+  it('returns pending for transactions that are not mined yet', async () => {
+    const provider = buildProvider(null);
+
+    const [logs, data] = await checkTransactionReceipt(provider, txHash);
+
+    expect(logs).toEqual([{ level: 'INFO', message: `Transaction ${txHash} is still pending` }]);
+    expect(data).toEqual({ status: 'pending' });
+  });
+
+  it('returns dropped for transactions the provider does not know about', async () => {
+    const provider = buildProvider(null, null);
+
+    const [logs, data] = await checkTransactionReceipt(provider, txHash);
+
+    expect(logs).toEqual([{ level: 'WARN', message: `Transaction ${txHash} was dropped` }]);
+    expect(data).toEqual({ status: 'dropped' });
+  });
+
+  it('returns null if the receipt cannot be fetched', async () => {
+    const provider = buildProvider(null);
+    provider.getTransactionReceipt.mockRejectedValue(new Error('Network error'));
+
+    const [logs, data] = await checkTransactionReceipt(provider, txHash);
+
+    expect(logs).toEqual([
+      {
+        level: 'ERROR',
+        message: `Failed to fetch the receipt of transaction ${txHash}`,
+        error: new Error('Network error'),
+      },
+    ]);
+    expect(data).toBeNull();
+  });
+});
+
+describe('trackTransaction', () => {
+  const runState = {
+    apiValue: '723.39202',
+    txHash,
+    nonce: 3,
+    timestamp: 1_650_000_000,
+    status: 'pending' as const,
+  };
+
+  it('records the outcome of pending transactions', async () => {
+    const stateStore: StateStore = {
+      get: jest.fn().mockResolvedValue(runState),
+      set: jest.fn().mockResolvedValue(undefined),
+    };
+    const provider = buildProvider({ status: 0, blockNumber: 12 }, transaction, encodeError('Subscription not found'));
+
+    const [_logs, data] = await trackTransaction(stateStore, provider, '31337', 'subscription', '0x1');
+
+    const updatedRunState = { ...runState, status: 'reverted', revertReason: 'Subscription not found' };
+    expect(data).toEqual(updatedRunState);
+    expect(stateStore.set).toHaveBeenCalledWith('subscription', '0x1', updatedRunState);
+  });
+
+  it('does not check transactions whose outcome is already known', async () => {
+    const stateStore: StateStore = {
+      get: jest.fn().mockResolvedValue({ ...runState, status: 'confirmed' }),
+      set: jest.fn(),
+    };
+    const provider = buildProvider({ status: 1, blockNumber: 12 });
+
+    const [logs, data] = await trackTransaction(stateStore, provider, '31337', 'subscription', '0x1');
+
+    expect(logs).toEqual([]);
+    expect(data).toEqual({ ...runState, status: 'confirmed' });
+    expect(provider.getTransactionReceipt).not.toHaveBeenCalled();
+    expect(stateStore.set).not.toHaveBeenCalled();
+  });
+
+  it('keeps still pending transactions as pending', async () => {
+    const stateStore: StateStore = { get: jest.fn().mockResolvedValue(runState), set: jest.fn() };
+    const provider = buildProvider(null);
+
+    const [_logs, data] = await trackTransaction(stateStore, provider, '31337', 'subscription', '0x1');
+
+    expect(data).toEqual(runState);
+    expect(stateStore.set).not.toHaveBeenCalled();
+  });
+
+  it('does nothing without a state store', async () => {
+    const provider = buildProvider({ status: 1, blockNumber: 12 });
+
+    await expect(trackTransaction(null, provider, '31337', 'rrpBeacon', '31337/0x1')).resolves.toEqual([[], null]);
+    expect(provider.getTransactionReceipt).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,120 @@
+import * as node from '@api3/airnode-node';
+import * as utils from '@api3/airnode-utilities';
+import { go } from '@api3/promise-utils';
+import { ethers } from 'ethers';
+import { TIMEOUT_MS, RETRIES } from '../constants';
+import { recordTransactionOutcome } from '../metrics';
+import { loadRunState, saveRunState } from '../state-store';
+import { RunState, RunStateKind, StateStore, TransactionStatus } from '../types';
+
+// Selectors of the Error(string) and Panic(uint256) errors Solidity reverts with
+const ERROR_SELECTOR = ethers.utils.id('Error(string)').substring(0, 10);
+const PANIC_SELECTOR = ethers.utils.id('Panic(uint256)').substring(0, 10);
+
+export const decodeRevertReason = (data: string) => {
+  if (data.startsWith(ERROR_SELECTOR)) {
+    const [reason] = ethers.utils.defaultAbiCoder.decode(['string'], ethers.utils.hexDataSlice(data, 4));
+    return reason as string;
+  }
+  if (data.startsWith(PANIC_SELECTOR)) {
+    const [code] = ethers.utils.defaultAbiCoder.decode(['uint256'], ethers.utils.hexDataSlice(data, 4));
+    return `Panic with code ${ethers.BigNumber.from(code).toHexString()}`;
+  }
+  return null;
+};
+
+/**
+ * Replays the reverted transaction as a call on the state of the block before the one it was mined in and decodes the
+ * revert data the provider returns. This is best-effort: transactions mined earlier in the same block are not replayed,
+ * so the call may not revert or may revert for a different reason, and providers without archive state may reject it.
+ */
+const fetchRevertReason = async (
+  provider: ethers.providers.Provider,
+  transaction: ethers.providers.TransactionResponse,
+  blockNumber: number
+) => {
+  const { from, to, data, value, gasLimit } = transaction;
+  const goCall = await go(() => provider.call({ from, to, data, value, gasLimit }, blockNumber - 1), {
+    attemptTimeoutMs: TIMEOUT_MS,
+    retries: RETRIES,
+  });
+  if (!goCall.success) {
+    return null;
+  }
+  return decodeRevertReason(goCall.data);
+};
+
+export const checkTransactionReceipt = async (
+  provider: ethers.providers.Provider,
+  txHash: string
+): Promise<node.LogsData<{ status: TransactionStatus; revertReason?: string } | null>> => {
+  const goReceipt = await go(() => provider.getTransactionReceipt(txHash), {
+    attemptTimeoutMs: TIMEOUT_MS,
+    retries: RETRIES,
+  });
+  if (!goReceipt.success) {
+    const message = `Failed to fetch the receipt of transaction ${txHash}`;
+    const log = utils.logger.pend('ERROR', message, goReceipt.error);
+    return [[log], null];
+  }
+
+  const goTransaction = await go(() => provider.getTransaction(txHash), {
+    attemptTimeoutMs: TIMEOUT_MS,
+    retries: RETRIES,
+  });
+  if (!goTransaction.success) {
+    const message = `Failed to fetch transaction ${txHash}`;
+    const log = utils.logger.pend('ERROR', message, goTransaction.error);
+    return [[log], null];
+  }
+
+  const receipt = goReceipt.data;
+  if (!receipt) {
+    // Transactions that are neither mined nor known by the provider have been dropped or replaced
+    if (!goTransaction.data) {
+      const log = utils.logger.pend('WARN', `Transaction ${txHash} was dropped`);
+      return [[log], { status: 'dropped' }];
+    }
+    const log = utils.logger.pend('INFO', `Transaction ${txHash} is still pending`);
+    return [[log], { status: 'pending' }];
+  }
+
+  if (receipt.status === 1) {
+    const log = utils.logger.pend('INFO', `Transaction ${txHash} confirmed in block ${receipt.blockNumber}`);
+    return [[log], { status: 'confirmed' }];
+  }
+
+  const revertReason = goTransaction.data
+    ? await fetchRevertReason(provider, goTransaction.data, receipt.blockNumber)
+    : null;
+  const message = `Transaction ${txHash} reverted in block ${receipt.blockNumber}: ${revertReason || 'unknown reason'}`;
+  const log = utils.logger.pend('ERROR', message);
+  return [[log], { status: 'reverted', ...(revertReason ? { revertReason } : {}) }];
+};
+
+/**
+ * Checks the outcome of the last transaction submitted for a subscription or beacon and records it in the state
+ * store. Transactions are only checked while they are pending, so each outcome is reported once.
+ */
+export const trackTransaction = async (
+  stateStore: StateStore | null,
+  provider: ethers.providers.Provider,
+  chainId: string,
+  kind: RunStateKind,
+  id: string
+): Promise<node.LogsData<RunState | null>> => {
+  const [loadLogs, runState] = await loadRunState(stateStore, kind, id);
+  if (!runState || runState.status !== 'pending') {
+    return [loadLogs, runState];
+  }
+
+  const [checkLogs, outcome] = await checkTransactionReceipt(provider, runState.txHash);
+  if (!outcome || outcome.status === 'pending') {
+    return [[...loadLogs, ...checkLogs], runState];
+  }
+  recordTransactionOutcome(chainId, outcome.status);
+
+  const updatedRunState = { ...runState, ...outcome };
+  const [saveLogs] = await saveRunState(stateStore, kind, id, updatedRunState);
+  return [[...loadLogs, ...checkLogs, ...saveLogs], updatedRunState];
+};
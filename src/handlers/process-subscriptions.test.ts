@@ -0,0 +1,181 @@
+import * as utils from '@api3/airnode-utilities';
+import { ethers } from 'ethers';
+import { processSubscriptions } from './process-subscriptions';
+import { PROTOCOL_ID_PSP } from '../constants';
+import * as processBeaconSets from '../evm/process-beacon-sets';
+import * as processSponsorWallet from '../evm/process-sponsor-wallet';
+import { deriveBeaconId, deriveBeaconSetId } from '../ids';
+import { createSigner } from '../signer';
+
+const airnodeSigner = createSigner(
+  { airnodeWalletMnemonic: 'achieve climb couple wait accident symbol spy blouse reduce foil echo label' },
+  {}
+);
+const provider = new ethers.providers.JsonRpcProvider('http://127.0.0.1:8545/');
+const gasTarget = {
+  maxPriorityFeePerGas: ethers.BigNumber.from(3120000000),
+  maxFeePerGas: ethers.BigNumber.from(3866792752),
+};
+const transactionCount = 5;
+const logOptions: utils.LogOptions = { format: 'plain', level: 'DEBUG', meta: {} };
+
+const buildSubscription = (templateId: string, value: string) => ({
+  id: ethers.utils.keccak256(templateId),
+  chainId: '31337',
+  airnodeAddress: airnodeSigner.address,
+  templateId,
+  parameters: '0x',
+  conditions: '0x',
+  relayer: airnodeSigner.address,
+  sponsor: '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC',
+  requester: '0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0',
+  fulfillFunctionId: '0x206b48f4',
+  apiValue: {
+    type: 'int256',
+    values: [value],
+    encodedValue: ethers.utils.defaultAbiCoder.encode(['int256'], [value]),
+  },
+});
+const subscriptions = [
+  buildSubscription('0xea30f92923ece1a97af69d450a8418db31be5a26a886540a13c09c739ba8eaaa', '723392020'),
+  buildSubscription('0x0bbf5f2ec4b0e9faf5b89b4ddbed9bdad7a542cc258ffd7b106b523aeae039a6', '46640440000'),
+  buildSubscription('0x8fa9d00cb8f2d95b1299623d97a97696ed03d0e3350e4ea638f469beabcdabcd', '100'),
+];
+const beaconIds = subscriptions.map(({ airnodeAddress, templateId }) => deriveBeaconId(airnodeAddress, templateId));
+const beaconSet = {
+  id: deriveBeaconSetId(beaconIds),
+  chainIds: ['31337'],
+  beaconIds,
+  deviationPercentage: '1',
+  heartbeatIntervalSeconds: 86400,
+  sponsor: '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC',
+};
+
+const buildProviderSponsorSubscriptions = () => {
+  const providerState = {
+    airnodeSigner,
+    provider,
+    providerName: 'local',
+    providerUrl: 'http://127.0.0.1:8545/',
+    chainId: '31337',
+    chainConfig: { contracts: {}, type: 'evm', id: '31337', providers: {}, options: {} } as any,
+    contracts: { DapiServer: {} as ethers.Contract },
+    voidSigner: new ethers.VoidSigner(ethers.constants.AddressZero, provider),
+    currentBlock: 1,
+    gasTarget,
+  };
+  return {
+    sponsorAddress: beaconSet.sponsor,
+    subscriptions,
+    beaconSets: [beaconSet],
+    providerState,
+    fallbackProviderStates: [],
+  };
+};
+
+describe('processSubscriptions', () => {
+  const now = Math.floor(Date.now() / 1000);
+
+  beforeEach(() => {
+    jest.spyOn(ethers.providers.JsonRpcProvider.prototype, 'getTransactionCount').mockResolvedValue(transactionCount);
+    jest
+      .spyOn(ethers.providers.JsonRpcProvider.prototype, 'getBalance')
+      .mockResolvedValue(ethers.utils.parseEther('10'));
+  });
+
+  it('processes the beacon sets after the subscriptions with the nonces that follow theirs', async () => {
+    const [subscription1, subscription2, subscription3] = subscriptions;
+    const processSponsorWalletSpy = jest.spyOn(processSponsorWallet, 'processSponsorWallet').mockResolvedValue([
+      [[], { ...subscription1, nonce: 5, txHash: ethers.constants.HashZero, timestamp: now - 1 }],
+      // The transaction of the second subscription failed so its beacon is not updated in this run
+      [[], { ...subscription2, nonce: 6 }],
+      [[], { ...subscription3, nonce: 7, txHash: ethers.constants.HashZero, timestamp: now }],
+    ]);
+    const processBeaconSetsSpy = jest.spyOn(processBeaconSets, 'processBeaconSets').mockResolvedValue([]);
+
+    await processSubscriptions(buildProviderSponsorSubscriptions(), logOptions);
+
+    expect(processSponsorWalletSpy).toHaveBeenCalledWith(
+      airnodeSigner,
+      expect.anything(),
+      gasTarget,
+      subscriptions,
+      expect.objectContaining({ address: airnodeSigner.getSponsorWallet(beaconSet.sponsor, PROTOCOL_ID_PSP).address }),
+      expect.anything(),
+      transactionCount,
+      false,
+      []
+    );
+    expect(processBeaconSetsSpy).toHaveBeenCalledWith(
+      '31337',
+      expect.anything(),
+      gasTarget,
+      [beaconSet],
+      expect.anything(),
+      expect.anything(),
+      8,
+      false,
+      [],
+      {
+        [beaconIds[0]]: { value: ethers.BigNumber.from('723392020'), timestamp: now - 1 },
+        [beaconIds[2]]: { value: ethers.BigNumber.from('100'), timestamp: now },
+      }
+    );
+    expect(processSponsorWalletSpy.mock.invocationCallOrder[0]).toBeLessThan(
+      processBeaconSetsSpy.mock.invocationCallOrder[0]
+    );
+  });
+
+  it('saves the run states of the subscriptions and beacon sets', async () => {
+    const [subscription1] = subscriptions;
+    const txHash = ethers.utils.keccak256('0x1234');
+    const stateStore = { get: jest.fn().mockResolvedValue(null), set: jest.fn() };
+    jest
+      .spyOn(processSponsorWallet, 'processSponsorWallet')
+      .mockResolvedValue([[[], { ...subscription1, nonce: 5, txHash, timestamp: now }]]);
+    jest
+      .spyOn(processBeaconSets, 'processBeaconSets')
+      .mockResolvedValue([[[], { ...beaconSet, value: '723392020', nonce: 6, txHash }]]);
+
+    await processSubscriptions(buildProviderSponsorSubscriptions(), logOptions, false, stateStore);
+
+    expect(stateStore.get).toHaveBeenCalledWith('beaconSet', `31337/${beaconSet.id}`);
+    expect(stateStore.set).toHaveBeenCalledWith('subscription', subscription1.id, {
+      apiValue: '723392020',
+      txHash,
+      nonce: 5,
+      timestamp: expect.any(Number),
+      status: 'pending',
+      fulfillmentTimestamp: now,
+    });
+    expect(stateStore.set).toHaveBeenCalledWith('beaconSet', `31337/${beaconSet.id}`, {
+      apiValue: '723392020',
+      txHash,
+      nonce: 6,
+      timestamp: expect.any(Number),
+      status: 'pending',
+    });
+  });
+
+  it('processes the beacon sets with the first nonce if no subscription has been fulfilled', async () => {
+    jest
+      .spyOn(processSponsorWallet, 'processSponsorWallet')
+      .mockResolvedValue(subscriptions.map((subscription) => [[], subscription]));
+    const processBeaconSetsSpy = jest.spyOn(processBeaconSets, 'processBeaconSets').mockResolvedValue([]);
+
+    await processSubscriptions(buildProviderSponsorSubscriptions(), logOptions);
+
+    expect(processBeaconSetsSpy).toHaveBeenCalledWith(
+      '31337',
+      expect.anything(),
+      gasTarget,
+      [beaconSet],
+      expect.anything(),
+      expect.anything(),
+      transactionCount,
+      false,
+      [],
+      {}
+    );
+  });
+});
@@ -1,91 +1,356 @@
 import * as utils from '@api3/airnode-utilities';
 import { goSync } from '@api3/promise-utils';
+import { ethers } from 'ethers';
+import isEmpty from 'lodash/isEmpty';
 import isNil from 'lodash/isNil';
-import { loadAirnodeConfig } from '../config';
-import { getSponsorWalletAndTransactionCount, processSponsorWallet, initializeProvider } from '../evm';
+import { loadAirnodeConfig, loadAirnodeConfigWithoutMnemonic } from '../config';
+import { GAS_LIMIT } from '../constants';
+import {
+  checkSponsorWalletBalance,
+  DataFeed,
+  getSponsorWalletAndTransactionCount,
+  processBeaconSets,
+  processSponsorWallet,
+  processStuckTransactions,
+  initializeProvider,
+  readWithFallback,
+  serializeGasTarget,
+  trackTransaction,
+} from '../evm';
+import { deriveBeaconId } from '../ids';
 import { buildLogOptions } from '../logger';
+import { pushMetrics } from '../metrics';
+import { createSigner, isMnemonicRequired } from '../signer';
+import { createStateStore, saveRunState } from '../state-store';
 import { shortenAddress } from '../wallet';
-import { ProviderSponsorProcessSubscriptionsState, ProviderSponsorSubscriptionsState } from '../types';
+import {
+  BeaconSetPlannedTransaction,
+  LocalWorkerResources,
+  ProviderSponsorProcessSubscriptionsState,
+  ProviderSponsorSubscriptionsState,
+  PspPlannedTransaction,
+  StateStore,
+} from '../types';
 
 export const processSubscriptions = async (
   providerSponsorSubscriptions: ProviderSponsorProcessSubscriptionsState,
-  baseLogOptions: utils.LogOptions
-) => {
-  const { sponsorAddress, providerState, subscriptions } = providerSponsorSubscriptions;
-  const { airnodeWallet, providerName, chainId, provider, contracts, voidSigner, currentBlock, gasTarget } =
-    providerState;
-
-  const providerLogOptions = buildLogOptions('meta', { chainId, providerName }, baseLogOptions);
+  baseLogOptions: utils.LogOptions,
+  dryRun = false,
+  stateStore: StateStore | null = null
+): Promise<(PspPlannedTransaction | BeaconSetPlannedTransaction)[]> => {
+  const { sponsorAddress, subscriptions, beaconSets } = providerSponsorSubscriptions;
+  const chainProviderStates = [
+    providerSponsorSubscriptions.providerState,
+    ...providerSponsorSubscriptions.fallbackProviderStates,
+  ];
 
-  // Fetch sponsor wallet transaction counts to be able to assign nonces to subscriptions
-  const [transactionCountLogs, walletData] = await getSponsorWalletAndTransactionCount(
-    airnodeWallet,
-    provider,
-    currentBlock,
-    sponsorAddress
+  // Fetch sponsor wallet transaction counts to be able to assign nonces to subscriptions. The first provider
+  // that responds is used for the rest of the reads
+  const [transactionCountLogs, walletResult] = await readWithFallback(
+    chainProviderStates,
+    ({ airnodeSigner, provider, currentBlock }) =>
+      getSponsorWalletAndTransactionCount(airnodeSigner, provider, currentBlock, sponsorAddress)
   );
 
   // Skip processing for the current sponsorAddress if the wallet functions fail
-  if (isNil(walletData)) {
-    const sponsorLogOptions = buildLogOptions('additional', { sponsor: sponsorAddress }, providerLogOptions);
-    utils.logger.warn('Failed to fetch sponsor wallet or transaction count', sponsorLogOptions);
-    return;
+  if (isNil(walletResult)) {
+    const { chainId, providerName } = providerSponsorSubscriptions.providerState;
+    const sponsorLogOptions = buildLogOptions(
+      'additional',
+      { sponsor: sponsorAddress },
+      buildLogOptions('meta', { chainId, providerName }, baseLogOptions)
+    );
+    utils.logger.logPending(transactionCountLogs, sponsorLogOptions);
+    utils.logger.warn('Failed to fetch sponsor wallet, transaction count or balance', sponsorLogOptions);
+    return [];
   }
 
-  const { sponsorWallet, transactionCount } = walletData;
+  const {
+    providerState,
+    data: { sponsorWallet, transactionCount, balance },
+  } = walletResult;
+  const { airnodeSigner, provider, providerName, chainId, chainConfig, contracts, voidSigner, gasTarget } =
+    providerState;
+  const fallbackProviders = chainProviderStates
+    .filter((chainProviderState) => chainProviderState !== providerState)
+    .map(({ providerName, provider }) => ({ providerName, provider }));
 
+  const providerLogOptions = buildLogOptions('meta', { chainId, providerName }, baseLogOptions);
   const sponsorWalletLogOptions = buildLogOptions(
     'additional',
     { sponsorWallet: shortenAddress(sponsorWallet.address) },
     providerLogOptions
   );
   utils.logger.logPending(transactionCountLogs, sponsorWalletLogOptions);
-  utils.logger.info(`Processing ${subscriptions.length} subscription(s)`, sponsorWalletLogOptions);
+
+  // Skip processing for the current sponsorAddress if the sponsor wallet cannot pay for the transactions
+  const [balanceLogs, hasSufficientBalance] = checkSponsorWalletBalance(balance, chainConfig.sponsorWalletBalance);
+  utils.logger.logPending(balanceLogs, sponsorWalletLogOptions);
+  if (!hasSufficientBalance) {
+    return [];
+  }
+
+  // Report the outcome of the transactions submitted in previous runs before submitting new ones
+  const trackedRunStates = await Promise.all(
+    subscriptions.map(async ({ id }) => {
+      const [trackLogs, runState] = await trackTransaction(stateStore, provider, chainId, 'subscription', id);
+      utils.logger.logPending(
+        trackLogs,
+        buildLogOptions('additional', { subscriptionId: id }, sponsorWalletLogOptions)
+      );
+      return isNil(runState) ? [] : [{ ...runState, id, kind: 'subscription' as const }];
+    })
+  );
+  // Beacon sets can be updated on several chains so their run state is kept per chain
+  const trackedBeaconSetRunStates = await Promise.all(
+    beaconSets.map(async ({ id }) => {
+      const runStateId = `${chainId}/${id}`;
+      const [trackLogs, runState] = await trackTransaction(stateStore, provider, chainId, 'beaconSet', runStateId);
+      utils.logger.logPending(trackLogs, buildLogOptions('additional', { beaconSetId: id }, sponsorWalletLogOptions));
+      return isNil(runState) ? [] : [{ ...runState, id: runStateId, kind: 'beaconSet' as const }];
+    })
+  );
+
+  // New transactions are submitted after the pending ones, which are replaced if they have been stuck for too long
+  const [stuckTransactionLogs, nextNonce] = chainConfig.stuckTransactions
+    ? await processStuckTransactions(
+        stateStore,
+        sponsorWallet,
+        gasTarget,
+        [...trackedRunStates.flat(), ...trackedBeaconSetRunStates.flat()],
+        transactionCount,
+        chainConfig.stuckTransactions,
+        dryRun,
+        fallbackProviders
+      )
+    : [[], transactionCount];
+  utils.logger.logPending(stuckTransactionLogs, sponsorWalletLogOptions);
+
+  utils.logger.info(
+    `Processing ${subscriptions.length} subscription(s) and ${beaconSets.length} beacon set(s)`,
+    sponsorWalletLogOptions
+  );
 
   const processSponsorWalletResult = await processSponsorWallet(
-    airnodeWallet,
+    airnodeSigner,
     contracts['DapiServer'],
     gasTarget,
     subscriptions,
     sponsorWallet,
     voidSigner,
-    transactionCount
+    nextNonce,
+    dryRun,
+    fallbackProviders
   );
 
-  processSponsorWalletResult.forEach(([logs, data]) => {
-    const subscriptionLogOptions = buildLogOptions('additional', { subscriptionId: data.id }, sponsorWalletLogOptions);
-    utils.logger.logPending(logs, subscriptionLogOptions);
-  });
+  await Promise.all(
+    processSponsorWalletResult.map(async ([logs, data]) => {
+      const subscriptionLogOptions = buildLogOptions(
+        'additional',
+        { subscriptionId: data.id },
+        sponsorWalletLogOptions
+      );
+      utils.logger.logPending(logs, subscriptionLogOptions);
+      if (isNil(data.nonce) || isNil(data.txHash) || isNil(data.timestamp)) {
+        return;
+      }
+
+      const [saveLogs] = await saveRunState(stateStore, 'subscription', data.id, {
+        apiValue: data.apiValue.values.join(','),
+        txHash: data.txHash,
+        nonce: data.nonce,
+        timestamp: Math.floor(Date.now() / 1000),
+        status: 'pending',
+        fulfillmentTimestamp: data.timestamp,
+      });
+      utils.logger.logPending(saveLogs, subscriptionLogOptions);
+    })
+  );
+
+  // The beacon sets are aggregated with the beacon values fulfilled above instead of the ones that are still on chain
+  const fulfilledBeacons = processSponsorWalletResult.reduce((acc: { [beaconId: string]: DataFeed }, [_logs, data]) => {
+    // Beacons can only be aggregated if they have been updated with a single int256 value
+    if (isNil(data.timestamp) || data.apiValue.type !== 'int256') {
+      return acc;
+    }
+    return {
+      ...acc,
+      [deriveBeaconId(data.airnodeAddress, data.templateId)]: {
+        value: ethers.BigNumber.from(data.apiValue.values[0]),
+        timestamp: data.timestamp,
+      },
+    };
+  }, {});
+
+  // Beacon sets are updated after the subscriptions using the nonces that follow the ones already assigned
+  const assignedNonces = processSponsorWalletResult.flatMap(([_logs, data]) => (isNil(data.nonce) ? [] : [data.nonce]));
+  const processBeaconSetsResult = await processBeaconSets(
+    chainId,
+    contracts['DapiServer'],
+    gasTarget,
+    beaconSets,
+    sponsorWallet,
+    voidSigner,
+    isEmpty(assignedNonces) ? nextNonce : Math.max(...assignedNonces) + 1,
+    dryRun,
+    fallbackProviders,
+    fulfilledBeacons
+  );
+
+  await Promise.all(
+    processBeaconSetsResult.map(async ([logs, data]) => {
+      const beaconSetLogOptions = buildLogOptions('additional', { beaconSetId: data.id }, sponsorWalletLogOptions);
+      utils.logger.logPending(logs, beaconSetLogOptions);
+      if (isNil(data.nonce) || isNil(data.txHash) || isNil(data.value)) {
+        return;
+      }
+
+      const [saveLogs] = await saveRunState(stateStore, 'beaconSet', `${chainId}/${data.id}`, {
+        apiValue: data.value,
+        txHash: data.txHash,
+        nonce: data.nonce,
+        timestamp: Math.floor(Date.now() / 1000),
+        status: 'pending',
+      });
+      utils.logger.logPending(saveLogs, beaconSetLogOptions);
+    })
+  );
+
+  // Transactions are only planned in dry run mode
+  if (!dryRun) {
+    return [];
+  }
+  const subscriptionPlannedTransactions = processSponsorWalletResult.reduce(
+    (acc: PspPlannedTransaction[], [_logs, data]) => {
+      if (isNil(data.nonce)) {
+        return acc;
+      }
+      return [
+        ...acc,
+        {
+          subscriptionId: data.id,
+          chainId,
+          providerName,
+          sponsorWallet: sponsorWallet.address,
+          nonce: data.nonce,
+          apiValue: data.apiValue.values.join(','),
+          gasLimit: GAS_LIMIT.toString(),
+          gasTarget: serializeGasTarget(gasTarget),
+        },
+      ];
+    },
+    []
+  );
+  const beaconSetPlannedTransactions = processBeaconSetsResult.reduce(
+    (acc: BeaconSetPlannedTransaction[], [_logs, data]) => {
+      if (isNil(data.nonce) || isNil(data.value)) {
+        return acc;
+      }
+      return [
+        ...acc,
+        {
+          beaconSetId: data.id,
+          chainId,
+          providerName,
+          sponsorWallet: sponsorWallet.address,
+          nonce: data.nonce,
+          apiValue: data.value,
+          gasLimit: GAS_LIMIT.toString(),
+          gasTarget: serializeGasTarget(gasTarget),
+        },
+      ];
+    },
+    []
+  );
+
+  return [...subscriptionPlannedTransactions, ...beaconSetPlannedTransactions];
 };
 
-export const handler = async ({
+/**
+ * Processes the subscriptions and beacon sets of a chain and sponsor pair with a signer and state store that have
+ * already been loaded.
+ */
+export const processProviderSponsorSubscriptions = async ({
   providerSponsorSubscriptions,
   baseLogOptions,
+  dryRun = false,
+  airnodeSigner,
+  stateStore,
 }: {
   providerSponsorSubscriptions: ProviderSponsorSubscriptionsState;
   baseLogOptions: utils.LogOptions;
-}) => {
-  const airnodeConfig = goSync(loadAirnodeConfig);
-  if (!airnodeConfig.success) {
-    utils.logger.error(airnodeConfig.error.message);
-    throw airnodeConfig.error;
-  }
-
-  const providerState = await initializeProvider(
-    airnodeConfig.data.nodeSettings.airnodeWalletMnemonic,
-    providerSponsorSubscriptions.providerState
+  dryRun?: boolean;
+} & LocalWorkerResources) => {
+  const [providerState, ...fallbackProviderStates] = await Promise.all(
+    [providerSponsorSubscriptions.providerState, ...providerSponsorSubscriptions.fallbackProviderStates].map(
+      async (chainProviderState) => ({
+        ...chainProviderState,
+        ...(await initializeProvider(airnodeSigner, chainProviderState)),
+      })
+    )
   );
 
-  await processSubscriptions(
+  const plannedTransactions = await processSubscriptions(
     {
       ...providerSponsorSubscriptions,
-      providerState: { ...providerSponsorSubscriptions.providerState, ...providerState },
+      providerState,
+      fallbackProviderStates,
     },
-    baseLogOptions
+    baseLogOptions,
+    dryRun,
+    stateStore
   );
 
   utils.logger.info(
     `Processing subscriptions for sponsorAddress: ${providerSponsorSubscriptions.sponsorAddress} has finished`,
     baseLogOptions
   );
+  // Workers of different chain and sponsor pairs run concurrently so each one pushes its metrics to its own group
+  await pushMetrics('process-subscriptions', baseLogOptions, {
+    chainId: providerState.chainId,
+    sponsor: providerSponsorSubscriptions.sponsorAddress,
+  });
+
+  return plannedTransactions;
+};
+
+export const handler = async ({
+  providerSponsorSubscriptions,
+  airnodeXpub,
+  baseLogOptions,
+  dryRun = false,
+}: {
+  providerSponsorSubscriptions: ProviderSponsorSubscriptionsState;
+  airnodeXpub?: string;
+  baseLogOptions: utils.LogOptions;
+  dryRun?: boolean;
+}) => {
+  // The workers are the only part of PSP that signs so they are the only ones that load the mnemonic
+  const airnodeConfig = goSync(() => (isMnemonicRequired() ? loadAirnodeConfig() : loadAirnodeConfigWithoutMnemonic()));
+  if (!airnodeConfig.success) {
+    utils.logger.error(airnodeConfig.error.message);
+    throw airnodeConfig.error;
+  }
+
+  const airnodeSigner = goSync(() =>
+    createSigner({ airnodeWalletMnemonic: airnodeConfig.data.nodeSettings.airnodeWalletMnemonic, airnodeXpub })
+  );
+  if (!airnodeSigner.success) {
+    utils.logger.error(airnodeSigner.error.message);
+    throw airnodeSigner.error;
+  }
+
+  const stateStore = goSync(createStateStore);
+  if (!stateStore.success) {
+    utils.logger.error(stateStore.error.message);
+    throw stateStore.error;
+  }
+
+  return processProviderSponsorSubscriptions({
+    providerSponsorSubscriptions,
+    baseLogOptions,
+    dryRun,
+    airnodeSigner: airnodeSigner.data,
+    stateStore: stateStore.data,
+  });
 };
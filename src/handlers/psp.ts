@@ -1,31 +1,60 @@
 import * as abi from '@api3/airnode-abi';
+import * as node from '@api3/airnode-node';
+import {
+  AirnodeProtocol__factory as AirnodeProtocolFactory,
+  AllocatorWithManager__factory as AllocatorWithManagerFactory,
+  IRequesterAuthorizer__factory as RequesterAuthorizerFactory,
+} from '@api3/airnode-protocol-v1';
 import * as utils from '@api3/airnode-utilities';
 import * as promise from '@api3/promise-utils';
 import { ethers } from 'ethers';
 import groupBy from 'lodash/groupBy';
 import isEmpty from 'lodash/isEmpty';
 import isNil from 'lodash/isNil';
+import uniq from 'lodash/uniq';
 import { spawn } from '../workers';
-import { initializeEvmState } from '../evm';
+import {
+  checkRequesterAuthorization,
+  fetchAllocatorSubscriptionIds,
+  fetchSponsorshipStatus,
+  fetchSubscription,
+  fetchTemplate,
+  groupProviderStatesByChain,
+  initializeEvmState,
+  readWithFallback,
+} from '../evm';
+import { aggregateApiValues } from '../api/aggregate';
 import { callApi } from '../api/call-api';
-import { loadAirkeeperConfig, loadAirnodeConfig, mergeConfigs } from '../config';
+import { isDryRun, loadAirkeeperConfig, loadAirnodeConfigWithoutMnemonic, mergeConfigs } from '../config';
+import { deriveBeaconSetId, deriveEndpointId, deriveSubscriptionId, deriveTemplateId } from '../ids';
 import { buildLogOptions } from '../logger';
+import { pushMetrics } from '../metrics';
 import {
+  ApiValue,
+  BeaconSetPlannedTransaction,
   CallApiResult,
   CheckedSubscription,
   Config,
   EVMBaseState,
   GroupedSubscriptions,
   Id,
+  LocalWorkerResources,
   ProviderState,
+  ProviderSponsorSubscriptionsState,
+  PspPlannedTransaction,
   State,
+  TemplateSource,
+  WorkerType,
 } from '../types';
-import { Subscription } from '../validator';
+import { Allocator, BeaconSet, Subscription } from '../validator';
+import { deriveAirnodeAddress } from '../wallet';
 
-export const handler = async (_event: any = {}): Promise<any> => {
+export const handler = async (event: any = {}): Promise<any> => {
   const startedAt = new Date();
+  const dryRun = isDryRun(event);
 
-  const airnodeConfig = promise.goSync(loadAirnodeConfig);
+  // The coordinator derives every address from airnodeXpub and only the workers load the mnemonic
+  const airnodeConfig = promise.goSync(loadAirnodeConfigWithoutMnemonic);
   if (!airnodeConfig.success) {
     utils.logger.error(airnodeConfig.error.message);
     throw airnodeConfig.error;
@@ -36,9 +65,13 @@ export const handler = async (_event: any = {}): Promise<any> => {
     utils.logger.error(airkeeperConfig.error.message);
     throw airkeeperConfig.error;
   }
-  const config = mergeConfigs(airnodeConfig.data, airkeeperConfig.data);
+  const config = promise.goSync(() => mergeConfigs(airnodeConfig.data, airkeeperConfig.data));
+  if (!config.success) {
+    utils.logger.error(config.error.message);
+    throw config.error;
+  }
 
-  const state = await updateBeacon(config);
+  const state = await updateBeacon(config.data, dryRun);
 
   const completedAt = new Date();
   const durationMs = Math.abs(completedAt.getTime() - startedAt.getTime());
@@ -46,121 +79,289 @@ export const handler = async (_event: any = {}): Promise<any> => {
     `PSP beacon update finished at ${utils.formatDateTime(completedAt)}. Total time: ${durationMs}ms`,
     state.baseLogOptions
   );
+  await pushMetrics('psp-beacon-update', state.baseLogOptions);
 
   const response = {
     ok: true,
-    data: { message: 'PSP beacon update execution has finished' },
+    data: dryRun
+      ? { message: 'PSP beacon update dry run has finished', plannedTransactions: state.plannedTransactions }
+      : { message: 'PSP beacon update execution has finished' },
   };
   return { statusCode: 200, body: JSON.stringify(response) };
 };
 
-const initializeState = (config: Config): State => {
-  const { triggers, subscriptions } = config;
+const initializeBeaconSets = (config: Config, baseLogOptions: utils.LogOptions) =>
+  Object.entries(config.beaconSets).reduce((acc: Id<BeaconSet>[], [beaconSetId, beaconSet]) => {
+    // Verify beaconSetId
+    const expectedBeaconSetId = deriveBeaconSetId(beaconSet.beaconIds);
+    if (beaconSetId !== expectedBeaconSetId) {
+      utils.logger.warn(`BeaconSetId ${beaconSetId} does not match expected ${expectedBeaconSetId}`, baseLogOptions);
+      return acc;
+    }
+    return [...acc, { ...beaconSet, id: beaconSetId }];
+  }, []);
 
+const initializeState = (
+  config: Config,
+  dryRun: boolean,
+  workerType: WorkerType,
+  localWorkerResources?: LocalWorkerResources
+): State => {
   const baseLogOptions = utils.buildBaseOptions(config, {
     coordinatorId: utils.randomHexString(8),
   });
 
-  const enabledSubscriptions = triggers.protoPsp.reduce((acc: Id<Subscription>[], subscriptionId) => {
-    // Get subscriptions details
-    const subscription = subscriptions[subscriptionId];
+  if (!config.airnodeXpub) {
+    throw new Error('airnodeXpub is required to derive the Airnode address');
+  }
+  const airnodeAddress = deriveAirnodeAddress(config.airnodeXpub);
+  if (config.airnodeAddress && ethers.utils.getAddress(config.airnodeAddress) !== airnodeAddress) {
+    throw new Error(`xpub does not belong to Airnode: ${airnodeAddress}`);
+  }
+
+  return {
+    config,
+    baseLogOptions,
+    dryRun,
+    workerType,
+    localWorkerResources,
+    airnodeAddress,
+    subscriptionIds: config.triggers.protoPsp,
+    groupedSubscriptions: [],
+    apiValuesBySubscriptionId: {},
+    beaconSets: initializeBeaconSets(config, baseLogOptions),
+    providerStates: [],
+    plannedTransactions: [],
+  };
+};
+
+/**
+ * Reads data from the AirnodeProtocol contract of each chain provider (optionally limited to a
+ * single chain) until one of them returns it.
+ */
+const fetchFromAirnodeProtocol = async <T>(
+  state: State,
+  fetch: (airnodeProtocol: ethers.Contract) => Promise<node.LogsData<T | null>>,
+  targetChainId?: string
+): Promise<T | null> => {
+  const { baseLogOptions, providerStates } = state;
+
+  const chainProviderStates = isNil(targetChainId)
+    ? providerStates
+    : providerStates.filter((providerState) => providerState.chainId === targetChainId);
+  for (const { chainId, providerName, providerUrl, chainConfig } of chainProviderStates) {
+    if (isNil(chainConfig.contracts.AirnodeProtocol)) {
+      continue;
+    }
+    const provider = node.evm.buildEVMProvider(providerUrl, chainId);
+    const airnodeProtocol = AirnodeProtocolFactory.connect(chainConfig.contracts.AirnodeProtocol, provider);
+
+    const [logs, data] = await fetch(airnodeProtocol);
+    utils.logger.logPending(logs, buildLogOptions('meta', { chainId, providerName }, baseLogOptions));
+    if (!isNil(data)) {
+      return data;
+    }
+  }
+
+  return null;
+};
+
+const discoverSubscriptionIds = async (state: State): Promise<State> => {
+  const { baseLogOptions, airnodeAddress, providerStates } = state;
+
+  // Each allocator is read once per chain using the healthiest provider of the chain while the rest of providers
+  // are used as fallbacks
+  const allocatorPromises = groupProviderStatesByChain(providerStates).flatMap((chainProviderStates) => {
+    const [{ chainId, chainConfig }] = chainProviderStates;
+    return (chainConfig.contracts.Allocators || []).map(async (allocatorConfig: Allocator) => {
+      const { address, slotLimit } =
+        typeof allocatorConfig === 'string' ? { address: allocatorConfig, slotLimit: undefined } : allocatorConfig;
+      const [logs, result] = await readWithFallback(chainProviderStates, ({ providerUrl }) => {
+        const provider = node.evm.buildEVMProvider(providerUrl, chainId);
+        const allocator = AllocatorWithManagerFactory.connect(address, provider);
+        return fetchAllocatorSubscriptionIds(allocator, airnodeAddress, slotLimit);
+      });
+      utils.logger.logPending(logs, buildLogOptions('meta', { chainId }, baseLogOptions));
+
+      return isNil(result) ? [] : result.data;
+    });
+  });
+  const allocatorSubscriptionIds = (await Promise.all(allocatorPromises)).flat();
+
+  return { ...state, subscriptionIds: uniq([...state.subscriptionIds, ...allocatorSubscriptionIds]) };
+};
+
+/**
+ * Gets the template details from config or from AirnodeProtocol if not found together with its endpoint
+ * details and verifies both IDs.
+ */
+const fetchTemplateSource = async (state: State, templateId: string): Promise<TemplateSource | null> => {
+  const { config, baseLogOptions } = state;
+
+  const template =
+    config.templates[templateId] ||
+    (await fetchFromAirnodeProtocol(state, (airnodeProtocol) => fetchTemplate(airnodeProtocol, templateId)));
+  if (isNil(template)) {
+    utils.logger.warn(`TemplateId ${templateId} not found in templates`, baseLogOptions);
+    return null;
+  }
+  // Verify templateId
+  const expectedTemplateId = deriveTemplateId(template);
+  if (expectedTemplateId !== templateId) {
+    utils.logger.warn(`TemplateId ${templateId} does not match expected ${expectedTemplateId}`, baseLogOptions);
+    return null;
+  }
+
+  // Get endpoint details
+  const endpoint = config.endpoints[template.endpointId];
+  if (isNil(endpoint)) {
+    utils.logger.warn(`EndpointId ${template.endpointId} not found in endpoints`, baseLogOptions);
+    return null;
+  }
+  // Verify endpointId
+  const expectedEndpointId = deriveEndpointId(endpoint);
+  if (expectedEndpointId !== template.endpointId) {
+    utils.logger.warn(
+      `EndpointId ${template.endpointId} does not match expected ${expectedEndpointId}`,
+      baseLogOptions
+    );
+    return null;
+  }
+
+  return { template: { ...template, id: templateId }, endpoint: { ...endpoint, id: template.endpointId } };
+};
+
+const initializeSubscriptions = async (state: State): Promise<State> => {
+  const { config, baseLogOptions, subscriptionIds } = state;
+
+  const subscriptionPromises = subscriptionIds.map(async (subscriptionId) => {
+    // Get subscriptions details from config or from AirnodeProtocol if not found
+    const subscription =
+      config.subscriptions[subscriptionId] ||
+      (await fetchFromAirnodeProtocol(state, (airnodeProtocol) => fetchSubscription(airnodeProtocol, subscriptionId)));
     if (isNil(subscription)) {
       utils.logger.warn(`SubscriptionId ${subscriptionId} not found in subscriptions`, baseLogOptions);
-      return acc;
+      return null;
     }
     // Verify subscriptionId
-    const expectedSubscriptionId = ethers.utils.keccak256(
-      ethers.utils.defaultAbiCoder.encode(
-        ['uint256', 'address', 'bytes32', 'bytes', 'bytes', 'address', 'address', 'address', 'bytes4'],
-        [
-          subscription.chainId,
-          subscription.airnodeAddress,
-          subscription.templateId,
-          subscription.parameters,
-          subscription.conditions,
-          subscription.relayer,
-          subscription.sponsor,
-          subscription.requester,
-          subscription.fulfillFunctionId,
-        ]
-      )
-    );
+    const expectedSubscriptionId = deriveSubscriptionId(subscription);
     if (subscriptionId !== expectedSubscriptionId) {
       utils.logger.warn(
         `SubscriptionId ${subscriptionId} does not match expected ${expectedSubscriptionId}`,
         baseLogOptions
       );
-      return acc;
+      return null;
     }
 
-    return [
-      ...acc,
-      {
-        ...subscription,
-        id: subscriptionId,
-      },
-    ];
-  }, []);
-
-  if (isEmpty(enabledSubscriptions)) {
-    utils.logger.info('No proto-PSP subscriptions to process', baseLogOptions);
-  }
+    return { ...subscription, id: subscriptionId };
+  });
+  const enabledSubscriptions = (await Promise.all(subscriptionPromises)).filter(
+    (subscription) => !isNil(subscription)
+  ) as Id<Subscription>[];
 
   const enabledSubscriptionsByTemplateId = groupBy(enabledSubscriptions, 'templateId');
-  const groupedSubscriptions = Object.keys(enabledSubscriptionsByTemplateId).reduce(
-    (acc: GroupedSubscriptions[], templateId) => {
-      // Get template details
-      const template = config.templates[templateId];
-      if (isNil(template)) {
-        utils.logger.warn(`TemplateId ${templateId} not found in templates`, baseLogOptions);
-        return acc;
-      }
-      // Verify templateId
-      const expectedTemplateId = ethers.utils.solidityKeccak256(
-        ['bytes32', 'bytes'],
-        [template.endpointId, template.templateParameters]
+  const groupedSubscriptionPromises = Object.keys(enabledSubscriptionsByTemplateId).map(async (templateId) => {
+    const templateSource = await fetchTemplateSource(state, templateId);
+    if (isNil(templateSource)) {
+      return null;
+    }
+
+    const aggregation = config.aggregations[templateId];
+    if (isNil(aggregation)) {
+      return { ...templateSource, subscriptions: enabledSubscriptionsByTemplateId[templateId] };
+    }
+
+    // The value of the template is aggregated from the API values of all source templates
+    const sources = (
+      await Promise.all(aggregation.templateIds.map((sourceTemplateId) => fetchTemplateSource(state, sourceTemplateId)))
+    ).filter((source) => !isNil(source)) as TemplateSource[];
+    if (sources.length < aggregation.minimumResponses) {
+      utils.logger.warn(
+        `TemplateId ${templateId} has ${sources.length} valid source templates but requires at least ${aggregation.minimumResponses} responses`,
+        baseLogOptions
       );
-      if (expectedTemplateId !== templateId) {
-        utils.logger.warn(`TemplateId ${templateId} does not match expected ${expectedTemplateId}`, baseLogOptions);
-        return acc;
-      }
+      return null;
+    }
 
-      // Get endpoint details
-      const endpoint = config.endpoints[template.endpointId];
-      if (isNil(endpoint)) {
-        utils.logger.warn(`EndpointId ${template.endpointId} not found in endpoints`, baseLogOptions);
-        return acc;
+    return {
+      ...templateSource,
+      subscriptions: enabledSubscriptionsByTemplateId[templateId],
+      aggregation: { ...aggregation, sources },
+    };
+  });
+  const groupedSubscriptions = (await Promise.all(groupedSubscriptionPromises)).filter(
+    (group) => !isNil(group)
+  ) as GroupedSubscriptions[];
+
+  return { ...state, groupedSubscriptions };
+};
+
+const checkAuthorizations = async (state: State): Promise<State> => {
+  const { baseLogOptions, groupedSubscriptions, providerStates } = state;
+
+  // Authorization results are cached for the duration of the run since many subscriptions
+  // usually share the same requester (i.e. the DapiServer contract)
+  const authorizationCache = new Map<string, Promise<boolean | null>>();
+  const fetchAuthorization = async (chainId: string, airnodeAddress: string, endpointId: string, requester: string) => {
+    const chainProviderStates = providerStates.filter((providerState) => providerState.chainId === chainId);
+    for (const { providerName, providerUrl, chainConfig } of chainProviderStates) {
+      const provider = node.evm.buildEVMProvider(providerUrl, chainId);
+      const authorizers = chainConfig.authorizers.map((authorizerAddress: string) =>
+        RequesterAuthorizerFactory.connect(authorizerAddress, provider)
+      );
+
+      const [logs, authorized] = await checkRequesterAuthorization(authorizers, airnodeAddress, endpointId, requester);
+      utils.logger.logPending(logs, buildLogOptions('meta', { chainId, providerName }, baseLogOptions));
+      if (!isNil(authorized)) {
+        return authorized;
       }
-      // Verify endpointId
-      const expectedEndpointId = ethers.utils.keccak256(
-        ethers.utils.defaultAbiCoder.encode(['string', 'string'], [endpoint.oisTitle, endpoint.endpointName])
+    }
+    return null;
+  };
+  const isAuthorized = (chainId: string, airnodeAddress: string, endpointId: string, requester: string) => {
+    const cacheKey = [chainId, airnodeAddress, endpointId, requester].join('-');
+    if (!authorizationCache.has(cacheKey)) {
+      authorizationCache.set(cacheKey, fetchAuthorization(chainId, airnodeAddress, endpointId, requester));
+    }
+    return authorizationCache.get(cacheKey)!;
+  };
+
+  const groupedSubscriptionPromises = groupedSubscriptions.map(async (group) => {
+    const subscriptionPromises = group.subscriptions.map(async (subscription) => {
+      const authorized = await isAuthorized(
+        subscription.chainId,
+        subscription.airnodeAddress,
+        group.endpoint.id,
+        subscription.requester
       );
-      if (expectedEndpointId !== template.endpointId) {
+      if (isNil(authorized)) {
         utils.logger.warn(
-          `EndpointId ${template.endpointId} does not match expected ${expectedEndpointId}`,
+          `Unable to verify authorization of requester ${subscription.requester} for subscription ${subscription.id} on chain ${subscription.chainId}. Skipping subscription...`,
           baseLogOptions
         );
-        return acc;
+        return null;
+      }
+      if (!authorized) {
+        utils.logger.warn(
+          `Requester ${subscription.requester} is not authorized for subscription ${subscription.id}. Skipping subscription...`,
+          baseLogOptions
+        );
+        return null;
       }
 
-      return [
-        ...acc,
-        {
-          subscriptions: enabledSubscriptionsByTemplateId[templateId],
-          template: { ...template, id: templateId },
-          endpoint: { ...endpoint, id: template.endpointId },
-        },
-      ];
-    },
-    []
+      return subscription;
+    });
+    const authorizedSubscriptions = (await Promise.all(subscriptionPromises)).filter(
+      (subscription) => !isNil(subscription)
+    ) as Id<Subscription>[];
+
+    return { ...group, subscriptions: authorizedSubscriptions };
+  });
+  const authorizedGroupedSubscriptions = (await Promise.all(groupedSubscriptionPromises)).filter(
+    (group) => !isEmpty(group.subscriptions)
   );
-  return {
-    config,
-    baseLogOptions,
-    groupedSubscriptions,
-    apiValuesBySubscriptionId: {},
-    providerStates: [],
-  };
+
+  return { ...state, groupedSubscriptions: authorizedGroupedSubscriptions };
 };
 
 const initializeEvmStates = async (state: State): Promise<State> => {
@@ -198,33 +399,55 @@ const initializeEvmStates = async (state: State): Promise<State> => {
   return { ...state, providerStates: validEvmStates };
 };
 
+const callTemplateApi = async (
+  config: Config,
+  { template, endpoint }: TemplateSource
+): Promise<node.LogsData<ApiValue | null>> => {
+  const apiCallParameters = abi.decode(template.templateParameters);
+
+  const infiniteRetries = 100_000;
+  const goResult = await promise.go(() => callApi(config, endpoint, apiCallParameters), {
+    attemptTimeoutMs: 10_000,
+    retries: infiniteRetries,
+    totalTimeoutMs: 40_000,
+    delay: {
+      type: 'random',
+      minDelayMs: 200,
+      maxDelayMs: 2000,
+    },
+  });
+
+  if (!goResult.success) {
+    return [
+      [utils.logger.pend('DEBUG', `Retrying API call for templateId ${template.id}: ${goResult.error.message}`)],
+      null,
+    ];
+  }
+  return goResult.data;
+};
+
 const executeApiCalls = async (state: State): Promise<State> => {
   const { config, baseLogOptions, groupedSubscriptions } = state;
-  const apiValuePromises = groupedSubscriptions.map(async ({ subscriptions, template, endpoint }) => {
-    const apiCallParameters = abi.decode(template.templateParameters);
-
-    const infiniteRetries = 100_000;
-    const goResult = await promise.go(() => callApi(config, endpoint, apiCallParameters), {
-      attemptTimeoutMs: 10_000,
-      retries: infiniteRetries,
-      totalTimeoutMs: 40_000,
-      delay: {
-        type: 'random',
-        minDelayMs: 200,
-        maxDelayMs: 2000,
-      },
-    });
+  const apiValuePromises = groupedSubscriptions.map(
+    async ({ subscriptions, template, endpoint, aggregation }): Promise<CallApiResult> => {
+      if (isNil(aggregation)) {
+        const [logs, apiValue] = await callTemplateApi(config, { template, endpoint });
+        return [logs, { templateId: template.id, apiValue, subscriptions }];
+      }
 
-    if (goResult.success) {
-      const [logs, data] = goResult.data;
-      return [logs, { templateId: template.id, apiValue: data, subscriptions }] as CallApiResult;
-    } else {
-      return [
-        [utils.logger.pend('DEBUG', `Retrying API call for templateId ${template.id}: ${goResult.error.message}`)],
-        { templateId: template.id, apiValue: null, subscriptions },
-      ] as CallApiResult;
+      // All source APIs are called concurrently and the successful responses are aggregated into a single value
+      const sourceResults = await Promise.all(aggregation.sources.map((source) => callTemplateApi(config, source)));
+      const sourceLogs = sourceResults.flatMap(([logs]) => logs);
+      const sourceApiValues = sourceResults.flatMap(([_logs, apiValue]) => (isNil(apiValue) ? [] : [apiValue]));
+      const [aggregationLogs, apiValue] = aggregateApiValues(sourceApiValues, aggregation);
+      const logs = [...sourceLogs, ...aggregationLogs];
+      if (isNil(apiValue)) {
+        const log = utils.logger.pend('WARN', `Failed to aggregate API values for templateId ${template.id}`);
+        return [[...logs, log], { templateId: template.id, apiValue, subscriptions }];
+      }
+      return [logs, { templateId: template.id, apiValue, subscriptions }];
     }
-  });
+  );
 
   const callApiResults = await Promise.all(apiValuePromises);
   const successfulCalls = callApiResults.filter((call) => call[1].apiValue !== null);
@@ -232,56 +455,106 @@ const executeApiCalls = async (state: State): Promise<State> => {
   const logs = callApiResults.flatMap((call) => call[0]);
   utils.logger.logPending(logs, baseLogOptions);
 
-  const apiValuesBySubscriptionId = successfulCalls.reduce(
-    (acc: { [subscriptionId: string]: ethers.BigNumber }, result) => {
-      const [_logs, data] = result;
+  const apiValuesBySubscriptionId = successfulCalls.reduce((acc: { [subscriptionId: string]: ApiValue }, result) => {
+    const [_logs, data] = result;
 
-      return {
-        ...acc,
-        ...data.subscriptions.reduce((acc2, { id }) => {
-          return { ...acc2, [id]: data.apiValue };
-        }, {}),
-      };
-    },
-    {}
-  );
+    return {
+      ...acc,
+      ...data.subscriptions.reduce((acc2, { id }) => {
+        return { ...acc2, [id]: data.apiValue };
+      }, {}),
+    };
+  }, {});
 
   return { ...state, apiValuesBySubscriptionId };
 };
 
-const submitTransactions = async (state: State) => {
-  const { baseLogOptions, groupedSubscriptions, apiValuesBySubscriptionId, providerStates } = state;
+const verifySponsorships = async (state: State): Promise<State> => {
+  const { baseLogOptions, groupedSubscriptions, apiValuesBySubscriptionId } = state;
+
+  const groupedSubscriptionPromises = groupedSubscriptions.map(async (group) => {
+    const subscriptionPromises = group.subscriptions.map(async (subscription) => {
+      // Subscriptions without an API value will not be processed any further
+      if (isNil(apiValuesBySubscriptionId[subscription.id])) {
+        return subscription;
+      }
+
+      const sponsorshipStatus = await fetchFromAirnodeProtocol(
+        state,
+        (airnodeProtocol) => fetchSponsorshipStatus(airnodeProtocol, subscription.sponsor, subscription.id),
+        subscription.chainId
+      );
+      if (isNil(sponsorshipStatus)) {
+        utils.logger.warn(
+          `Unable to verify PSP sponsorship status of sponsor ${subscription.sponsor} for subscription ${subscription.id} on chain ${subscription.chainId}. Skipping subscription...`,
+          baseLogOptions
+        );
+        return null;
+      }
+      if (!sponsorshipStatus) {
+        utils.logger.warn(
+          `Sponsor ${subscription.sponsor} has not enabled PSP sponsorship for subscription ${subscription.id}. Skipping subscription...`,
+          baseLogOptions
+        );
+        return null;
+      }
+
+      return subscription;
+    });
+    const sponsoredSubscriptions = (await Promise.all(subscriptionPromises)).filter(
+      (subscription) => !isNil(subscription)
+    ) as Id<Subscription>[];
+
+    return { ...group, subscriptions: sponsoredSubscriptions };
+  });
+  const sponsoredGroupedSubscriptions = (await Promise.all(groupedSubscriptionPromises)).filter(
+    (group) => !isEmpty(group.subscriptions)
+  );
+
+  return { ...state, groupedSubscriptions: sponsoredGroupedSubscriptions };
+};
+
+const submitTransactions = async (state: State): Promise<State> => {
+  const {
+    config,
+    baseLogOptions,
+    dryRun,
+    workerType,
+    localWorkerResources,
+    groupedSubscriptions,
+    apiValuesBySubscriptionId,
+    beaconSets,
+    providerStates,
+  } = state;
 
   const subscriptions = groupedSubscriptions.flatMap((s) => s.subscriptions);
 
-  const providerSponsorSubscriptionsArray = providerStates.reduce(
-    (
-      acc: {
-        sponsorAddress: string;
-        providerState: ProviderState<EVMBaseState>;
-        subscriptions: Id<CheckedSubscription>[];
-      }[],
-      providerState
-    ) => {
+  // Each chain and sponsor pair is processed only once using the healthiest provider of the chain while the
+  // rest of providers are used as fallbacks
+  const providerSponsorSubscriptionsArray = groupProviderStatesByChain(providerStates).reduce(
+    (acc: ProviderSponsorSubscriptionsState[], [providerState, ...fallbackProviderStates]) => {
       // Filter subscription by chainId, double-check that subscription has an associated API value and add
       // it to the subscription object
-      const chainSubscriptions = subscriptions.reduce(
-        (acc: (Id<Subscription> & { apiValue: ethers.BigNumber })[], subscription) => {
-          if (subscription.chainId === providerState.chainId && apiValuesBySubscriptionId[subscription.id])
-            return [...acc, { ...subscription, apiValue: apiValuesBySubscriptionId[subscription.id] }];
-          return acc;
-        },
-        []
-      );
+      const chainSubscriptions = subscriptions.reduce((acc: CheckedSubscription[], subscription) => {
+        if (subscription.chainId === providerState.chainId && apiValuesBySubscriptionId[subscription.id])
+          return [...acc, { ...subscription, apiValue: apiValuesBySubscriptionId[subscription.id] }];
+        return acc;
+      }, []);
+      const chainBeaconSets = beaconSets.filter((beaconSet) => beaconSet.chainIds.includes(providerState.chainId));
 
-      // Group filtered subscriptions by sponsorAddress
-      const subscriptionsBySponsor = groupBy(chainSubscriptions, 'sponsor');
+      // Group filtered subscriptions and beacon sets by sponsorAddress. Addresses are checksummed since the config
+      // accepts lowercase addresses and two groups of the same sponsor would use the same sponsor wallet and nonces
+      const subscriptionsBySponsor = groupBy(chainSubscriptions, ({ sponsor }) => ethers.utils.getAddress(sponsor));
+      const beaconSetsBySponsor = groupBy(chainBeaconSets, ({ sponsor }) => ethers.utils.getAddress(sponsor));
 
-      // Collect subscriptions for each provider + sponsor pair
-      const subscriptionGroup = Object.entries(subscriptionsBySponsor).map(([sponsorAddress, subscriptions]) => ({
+      // Collect subscriptions and beacon sets for each provider + sponsor pair
+      const sponsorAddresses = uniq([...Object.keys(subscriptionsBySponsor), ...Object.keys(beaconSetsBySponsor)]);
+      const subscriptionGroup = sponsorAddresses.map((sponsorAddress) => ({
         sponsorAddress: sponsorAddress,
         providerState,
-        subscriptions,
+        fallbackProviderStates,
+        subscriptions: subscriptionsBySponsor[sponsorAddress] || [],
+        beaconSets: beaconSetsBySponsor[sponsorAddress] || [],
       }));
 
       return [...acc, ...subscriptionGroup];
@@ -292,26 +565,41 @@ const submitTransactions = async (state: State) => {
   const providerSponsorPromises = providerSponsorSubscriptionsArray.map(async (providerSponsorSubscriptions) =>
     spawn({
       providerSponsorSubscriptions,
+      airnodeXpub: config.airnodeXpub,
       baseLogOptions: baseLogOptions,
-      type: process.env.CLOUD_PROVIDER as 'local' | 'aws',
+      dryRun,
+      type: workerType,
       stage: process.env.STAGE!,
+      localWorkerResources,
     })
   );
 
   const providerSponsorResults = await Promise.allSettled(providerSponsorPromises);
 
-  providerSponsorResults.forEach((result) => {
-    if (result.status === 'rejected') {
-      utils.logger.error(JSON.stringify(result.reason), baseLogOptions);
-    }
-  });
+  const plannedTransactions = providerSponsorResults.reduce(
+    (acc: (PspPlannedTransaction | BeaconSetPlannedTransaction)[], result) => {
+      if (result.status === 'rejected') {
+        utils.logger.error(JSON.stringify(result.reason), baseLogOptions);
+        return acc;
+      }
+      return [...acc, ...result.value];
+    },
+    []
+  );
+
+  return { ...state, plannedTransactions };
 };
 
-const updateBeacon = async (config: Config) => {
+export const updateBeacon = async (
+  config: Config,
+  dryRun = false,
+  workerType = process.env.CLOUD_PROVIDER as WorkerType,
+  localWorkerResources?: LocalWorkerResources
+) => {
   // =================================================================
   // STEP 1: Initialize state
   // =================================================================
-  let state: State = initializeState(config);
+  let state: State = initializeState(config, dryRun, workerType, localWorkerResources);
   utils.logger.debug('Initial state created...', state.baseLogOptions);
 
   // **************************************************************************
@@ -321,15 +609,40 @@ const updateBeacon = async (config: Config) => {
   utils.logger.debug('Evm states initialized...', state.baseLogOptions);
 
   // **************************************************************************
-  // STEP 3: Make API calls
+  // STEP 3. Discover active subscriptions from allocators
+  // **************************************************************************
+  state = await discoverSubscriptionIds(state);
+  utils.logger.debug('Subscription IDs discovered...', state.baseLogOptions);
+
+  // **************************************************************************
+  // STEP 4. Initialize subscriptions from config or AirnodeProtocol
+  // **************************************************************************
+  state = await initializeSubscriptions(state);
+  utils.logger.debug('Subscriptions initialized...', state.baseLogOptions);
+
+  // **************************************************************************
+  // STEP 5. Check that subscription requesters are authorized
+  // **************************************************************************
+  state = await checkAuthorizations(state);
+  utils.logger.debug('Authorizations checked...', state.baseLogOptions);
+
+  // **************************************************************************
+  // STEP 6: Make API calls
   // **************************************************************************
   state = await executeApiCalls(state);
   utils.logger.debug('API requests executed...', state.baseLogOptions);
 
   // **************************************************************************
-  // STEP 4. Initiate transactions for each provider, sponsor wallet pair
+  // STEP 7. Verify sponsorship status of each subscription
+  // **************************************************************************
+  state = await verifySponsorships(state);
+  utils.logger.debug('Sponsorships verified...', state.baseLogOptions);
+
+  // **************************************************************************
+  // STEP 8. Initiate transactions for each chain, sponsor wallet pair. Beacon sets are updated after the
+  // beacons of the subscriptions have been fulfilled
   // **************************************************************************
-  await submitTransactions(state);
+  state = await submitTransactions(state);
   utils.logger.debug('Transactions submitted...', state.baseLogOptions);
 
   return state;
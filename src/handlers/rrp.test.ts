@@ -0,0 +1,443 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import * as node from '@api3/airnode-node';
+import { ethers } from 'ethers';
+import * as rrp from './rrp';
+import * as api from '../api/call-api';
+import { mergeConfigs } from '../config';
+import { GAS_LIMIT, PROTOCOL_ID_RRP, PROTOCOL_ID_RRP_KEEPER } from '../constants';
+import * as stuckTransactions from '../evm/stuck-transactions';
+import * as mnemonic from '../signer/mnemonic';
+import { AirkeeperConfig } from '../validator';
+
+const airnodeWalletMnemonic = 'achieve climb couple wait accident symbol spy blouse reduce foil echo label';
+const airnodeXpub =
+  'xpub6C8tvRgYkjNVaGMtpyZf4deBcUQHf7vgWUraVxY6gYiZhBYbPkFkLLWJzUUeVFdkKpVtatmXHX8kB76xgfmTpVZWbVWdq1rneaAY6a8RtbY';
+const airnodeAddress = '0xA30CA71Ba54E83127214D3271aEA8F5D6bD4Dace';
+const beaconId = '0xd26a6df7afccec180867f34d22b5bbaae85fd0689205f2cc0d9480537dadffd0';
+
+const buildConfig = () => {
+  const airnodeConfig: node.Config = JSON.parse(
+    readFileSync(join(__dirname, '../../config/config.example.json')).toString()
+  );
+  const airkeeperConfig: AirkeeperConfig = JSON.parse(
+    readFileSync(join(__dirname, '../../config/airkeeper.example.json')).toString()
+  );
+  return mergeConfigs(
+    { ...airnodeConfig, nodeSettings: { ...airnodeConfig.nodeSettings, airnodeWalletMnemonic } },
+    { ...airkeeperConfig, airnodeAddress, airnodeXpub }
+  );
+};
+
+describe('initializeState', () => {
+  it('returns the state with verified keeper jobs', () => {
+    const config = buildConfig();
+
+    const state = rrp.initializeState(config);
+
+    expect(state.rrpBeaconServerKeeperJobs).toEqual([
+      {
+        ...config.triggers.rrpBeaconServerKeeperJobs[0],
+        beaconId,
+        encodedParameters: expect.any(String),
+      },
+    ]);
+    expect(state.airnodeSigner.address).toEqual(airnodeAddress);
+    expect(state.apiValuesByBeaconId).toEqual({});
+    expect(state.providerStates).toEqual([]);
+  });
+
+  it('accepts a lowercase Airnode address', () => {
+    const config = buildConfig();
+    const state = rrp.initializeState({ ...config, airnodeAddress: airnodeAddress.toLowerCase() });
+
+    expect(state.airnodeSigner.address).toEqual(airnodeAddress);
+  });
+
+  it('uses the signer and state store loaded by the daemon', () => {
+    const config = buildConfig();
+    const airnodeSigner = mnemonic.create(airnodeWalletMnemonic);
+    const stateStore = { get: jest.fn(), set: jest.fn() };
+    const createSignerSpy = jest.spyOn(mnemonic, 'create');
+
+    const state = rrp.initializeState(config, false, { airnodeSigner, stateStore });
+
+    expect(createSignerSpy).not.toHaveBeenCalled();
+    expect(state.airnodeSigner).toBe(airnodeSigner);
+    expect(state.stateStore).toBe(stateStore);
+  });
+
+  it('throws if xpub does not belong to the airnode', () => {
+    const config = buildConfig();
+
+    expect(() => rrp.initializeState({ ...config, airnodeAddress: ethers.constants.AddressZero })).toThrow(
+      new Error(`xpub does not belong to Airnode: ${airnodeAddress}`)
+    );
+  });
+
+  it('skips jobs with invalid endpointId, templateId or deviationPercentage', () => {
+    const config = buildConfig();
+    const [job] = config.triggers.rrpBeaconServerKeeperJobs;
+    const invalidJobs = [
+      { ...job, endpointId: ethers.constants.HashZero },
+      { ...job, templateId: ethers.constants.HashZero },
+      { ...job, deviationPercentage: '0' },
+      { ...job, deviationPercentage: '100.1' },
+      { ...job, deviationPercentage: '0.123' },
+    ];
+
+    const state = rrp.initializeState({
+      ...config,
+      endpoints: { ...config.endpoints, [ethers.constants.HashZero]: config.endpoints[job.endpointId] },
+      triggers: { ...config.triggers, rrpBeaconServerKeeperJobs: invalidJobs },
+    });
+
+    expect(state.rrpBeaconServerKeeperJobs).toEqual([]);
+  });
+});
+
+describe('executeApiCalls', () => {
+  it('returns API values by beaconId and skips failed calls', async () => {
+    const config = buildConfig();
+    const [job] = config.triggers.rrpBeaconServerKeeperJobs;
+    const otherJob = { ...job, deviationPercentage: '10', keeperSponsor: ethers.constants.AddressZero };
+    const callApiSpy = jest
+      .spyOn(api, 'callApi')
+      .mockResolvedValueOnce([
+        [],
+        { type: 'int256', values: ['723392028'], encodedValue: api.encodeApiValues('int256', ['723392028']) },
+      ])
+      .mockResolvedValueOnce([[], null]);
+
+    const state = await rrp.executeApiCalls({
+      ...rrp.initializeState(config),
+      rrpBeaconServerKeeperJobs: [
+        { ...job, beaconId, encodedParameters: '0x' },
+        { ...otherJob, beaconId: ethers.constants.HashZero, encodedParameters: '0x' },
+      ],
+    });
+
+    expect(callApiSpy).toHaveBeenCalledTimes(2);
+    expect(callApiSpy).toHaveBeenNthCalledWith(1, config, config.endpoints[job.endpointId], {
+      to: 'USD',
+      _type: 'int256',
+      _path: 'result',
+      _times: '1000000',
+      from: 'ETH',
+    });
+    expect(state.apiValuesByBeaconId).toEqual({ [beaconId]: ethers.BigNumber.from(723392028) });
+  });
+
+  it('skips API values that are not int256', async () => {
+    const config = buildConfig();
+    const [job] = config.triggers.rrpBeaconServerKeeperJobs;
+    jest
+      .spyOn(api, 'callApi')
+      .mockResolvedValueOnce([[], { type: 'bool', values: [true], encodedValue: api.encodeApiValues('bool', [true]) }]);
+
+    const state = await rrp.executeApiCalls({
+      ...rrp.initializeState(config),
+      rrpBeaconServerKeeperJobs: [{ ...job, beaconId, encodedParameters: '0x' }],
+    });
+
+    expect(state.apiValuesByBeaconId).toEqual({});
+  });
+});
+
+describe('processKeeperSponsorWallet', () => {
+  const gasTarget = {
+    maxPriorityFeePerGas: ethers.BigNumber.from(3120000000),
+    maxFeePerGas: ethers.BigNumber.from(3866792752),
+  };
+  const transactionCount = 5;
+  const provider = new ethers.providers.JsonRpcProvider('http://127.0.0.1:8545/');
+
+  let readBeaconSpy: any;
+  let queryFilterSpy: any;
+  let requestBeaconUpdateSpy: any;
+  let requestIsAwaitingFulfillmentSpy: any;
+  let rrpBeaconServerMock: any;
+
+  beforeEach(() => {
+    jest.spyOn(ethers.providers.JsonRpcProvider.prototype, 'getTransactionCount').mockResolvedValue(transactionCount);
+    jest
+      .spyOn(ethers.providers.JsonRpcProvider.prototype, 'getBalance')
+      .mockResolvedValue(ethers.utils.parseEther('1'));
+    readBeaconSpy = jest
+      .fn()
+      .mockResolvedValue({ value: ethers.BigNumber.from(600000000), timestamp: Math.floor(Date.now() / 1000) });
+    queryFilterSpy = jest.fn().mockResolvedValue([]);
+    requestBeaconUpdateSpy = jest
+      .fn()
+      .mockResolvedValue({ hash: ethers.utils.keccak256(ethers.utils.randomBytes(32)) });
+    requestIsAwaitingFulfillmentSpy = jest.fn().mockResolvedValue(false);
+    rrpBeaconServerMock = {
+      connect(_signerOrProvider: ethers.Signer | ethers.providers.Provider | string) {
+        return this;
+      },
+      filters: { RequestedBeaconUpdate: jest.fn(), UpdatedBeacon: jest.fn() },
+      queryFilter: queryFilterSpy,
+      readBeacon: readBeaconSpy,
+      requestBeaconUpdate: requestBeaconUpdateSpy,
+    };
+  });
+
+  const buildState = () => {
+    const config = buildConfig();
+    const state = rrp.initializeState(config);
+    const chain = config.chains[0];
+    const providerState = {
+      chainId: chain.id,
+      providerName: 'local',
+      providerUrl: 'http://127.0.0.1:8545/',
+      chainConfig: chain,
+      currentBlock: 1000,
+      gasTarget,
+      airnodeSigner: mnemonic.create(airnodeWalletMnemonic),
+      provider,
+      contracts: {
+        AirnodeRrp: { requestIsAwaitingFulfillment: requestIsAwaitingFulfillmentSpy } as any,
+        RrpBeaconServer: rrpBeaconServerMock,
+      },
+      voidSigner: new ethers.VoidSigner(ethers.constants.AddressZero, provider),
+    };
+    return {
+      state: { ...state, apiValuesByBeaconId: { [beaconId]: ethers.BigNumber.from(723392028) } },
+      providerState,
+    };
+  };
+
+  it('submits a beacon update request if deviation is above the threshold', async () => {
+    const { state, providerState } = buildState();
+    const [job] = state.rrpBeaconServerKeeperJobs;
+
+    await rrp.processKeeperSponsorWallet(state, [providerState], job.keeperSponsor, state.rrpBeaconServerKeeperJobs);
+
+    const keeperSponsorWallet = node.evm.deriveSponsorWalletFromMnemonic(
+      airnodeWalletMnemonic,
+      job.keeperSponsor,
+      PROTOCOL_ID_RRP_KEEPER
+    );
+    const requestSponsorWallet = node.evm.deriveSponsorWalletFromMnemonic(
+      airnodeWalletMnemonic,
+      job.requestSponsor,
+      PROTOCOL_ID_RRP
+    );
+    expect(readBeaconSpy).toHaveBeenCalledWith(beaconId);
+    expect(rrpBeaconServerMock.filters.RequestedBeaconUpdate).toHaveBeenCalledWith(
+      beaconId,
+      job.requestSponsor,
+      keeperSponsorWallet.address
+    );
+    expect(requestBeaconUpdateSpy).toHaveBeenCalledWith(
+      job.templateId,
+      job.requestSponsor,
+      requestSponsorWallet.address,
+      job.encodedParameters,
+      { gasLimit: GAS_LIMIT, ...gasTarget, nonce: transactionCount }
+    );
+  });
+
+  it('skips update if deviation is within the threshold', async () => {
+    const { state, providerState } = buildState();
+    const [job] = state.rrpBeaconServerKeeperJobs;
+    readBeaconSpy.mockResolvedValue({
+      value: ethers.BigNumber.from(723392000),
+      timestamp: Math.floor(Date.now() / 1000),
+    });
+
+    await rrp.processKeeperSponsorWallet(state, [providerState], job.keeperSponsor, state.rrpBeaconServerKeeperJobs);
+
+    expect(readBeaconSpy).toHaveBeenCalledTimes(1);
+    expect(queryFilterSpy).not.toHaveBeenCalled();
+    expect(requestBeaconUpdateSpy).not.toHaveBeenCalled();
+  });
+
+  it('submits a beacon update request if beacon is older than the heartbeat interval', async () => {
+    const { state, providerState } = buildState();
+    const [job] = state.rrpBeaconServerKeeperJobs;
+    const timestamp = Math.floor(Date.now() / 1000) - 2 * 86400;
+    readBeaconSpy.mockResolvedValue({ value: ethers.BigNumber.from(723392028), timestamp });
+
+    await rrp.processKeeperSponsorWallet(state, [providerState], job.keeperSponsor, [
+      { ...job, heartbeatIntervalSeconds: 86400 },
+    ]);
+
+    expect(queryFilterSpy).toHaveBeenCalledTimes(2);
+    expect(requestBeaconUpdateSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it('skips update if a previous request is awaiting fulfillment', async () => {
+    const { state, providerState } = buildState();
+    const [job] = state.rrpBeaconServerKeeperJobs;
+    queryFilterSpy
+      .mockResolvedValueOnce([{ args: { requestId: ethers.constants.HashZero } }])
+      .mockResolvedValueOnce([]);
+    requestIsAwaitingFulfillmentSpy.mockResolvedValue(true);
+
+    await rrp.processKeeperSponsorWallet(state, [providerState], job.keeperSponsor, state.rrpBeaconServerKeeperJobs);
+
+    expect(requestIsAwaitingFulfillmentSpy).toHaveBeenCalledWith(ethers.constants.HashZero);
+    expect(requestBeaconUpdateSpy).not.toHaveBeenCalled();
+  });
+
+  it('returns planned transactions without submitting them in dry run mode', async () => {
+    const { state, providerState } = buildState();
+    const [job] = state.rrpBeaconServerKeeperJobs;
+
+    const plannedTransactions = await rrp.processKeeperSponsorWallet(
+      { ...state, dryRun: true },
+      [providerState],
+      job.keeperSponsor,
+      state.rrpBeaconServerKeeperJobs
+    );
+
+    const keeperSponsorWallet = node.evm.deriveSponsorWalletFromMnemonic(
+      airnodeWalletMnemonic,
+      job.keeperSponsor,
+      PROTOCOL_ID_RRP_KEEPER
+    );
+    expect(requestBeaconUpdateSpy).not.toHaveBeenCalled();
+    expect(plannedTransactions).toEqual([
+      {
+        beaconId,
+        chainId: '31337',
+        providerName: 'local',
+        sponsorWallet: keeperSponsorWallet.address,
+        nonce: transactionCount,
+        apiValue: '723392028',
+        gasLimit: GAS_LIMIT.toString(),
+        gasTarget: { maxPriorityFeePerGas: '3120000000', maxFeePerGas: '3866792752' },
+      },
+    ]);
+  });
+
+  it('replaces stuck transactions before submitting new beacon update requests', async () => {
+    const { state, providerState } = buildState();
+    const [job] = state.rrpBeaconServerKeeperJobs;
+    const stuckTransactionsConfig = { maxPendingAgeSeconds: 300, maxGasPriceGwei: '100' };
+    const runState = {
+      apiValue: '723392028',
+      txHash: ethers.utils.keccak256('0x1234'),
+      nonce: 4,
+      timestamp: Math.floor(Date.now() / 1000) - 600,
+      status: 'pending' as const,
+    };
+    const stateStore = { get: jest.fn().mockResolvedValue(runState), set: jest.fn() };
+    jest.spyOn(ethers.providers.JsonRpcProvider.prototype, 'getTransactionReceipt').mockResolvedValue(null as any);
+    jest
+      .spyOn(ethers.providers.JsonRpcProvider.prototype, 'getTransaction')
+      .mockResolvedValue({ hash: runState.txHash } as ethers.providers.TransactionResponse);
+    const processStuckTransactionsSpy = jest
+      .spyOn(stuckTransactions, 'processStuckTransactions')
+      .mockResolvedValue([[], 7]);
+
+    await rrp.processKeeperSponsorWallet(
+      { ...state, stateStore },
+      [{ ...providerState, chainConfig: { ...providerState.chainConfig, stuckTransactions: stuckTransactionsConfig } }],
+      job.keeperSponsor,
+      state.rrpBeaconServerKeeperJobs
+    );
+
+    expect(stateStore.get).toHaveBeenCalledWith('rrpBeacon', `31337/${beaconId}`);
+    expect(processStuckTransactionsSpy).toHaveBeenCalledWith(
+      stateStore,
+      expect.objectContaining({
+        address: node.evm.deriveSponsorWalletFromMnemonic(
+          airnodeWalletMnemonic,
+          job.keeperSponsor,
+          PROTOCOL_ID_RRP_KEEPER
+        ).address,
+      }),
+      gasTarget,
+      [{ ...runState, id: `31337/${beaconId}`, kind: 'rrpBeacon' }],
+      transactionCount,
+      stuckTransactionsConfig,
+      false,
+      []
+    );
+    expect(requestBeaconUpdateSpy).toHaveBeenCalledWith(
+      job.templateId,
+      job.requestSponsor,
+      expect.any(String),
+      job.encodedParameters,
+      { gasLimit: GAS_LIMIT, ...gasTarget, nonce: 7 }
+    );
+  });
+
+  it('skips processing if keeper sponsor wallet balance does not exceed the minimum', async () => {
+    const { state, providerState } = buildState();
+    const [job] = state.rrpBeaconServerKeeperJobs;
+    jest.spyOn(ethers.providers.JsonRpcProvider.prototype, 'getBalance').mockResolvedValue(ethers.constants.Zero);
+
+    const plannedTransactions = await rrp.processKeeperSponsorWallet(
+      state,
+      [providerState],
+      job.keeperSponsor,
+      state.rrpBeaconServerKeeperJobs
+    );
+
+    expect(plannedTransactions).toEqual([]);
+    expect(readBeaconSpy).not.toHaveBeenCalled();
+    expect(requestBeaconUpdateSpy).not.toHaveBeenCalled();
+  });
+
+  it('retries a failed beacon update request with the next provider using the same nonce', async () => {
+    const { state, providerState } = buildState();
+    const [job] = state.rrpBeaconServerKeeperJobs;
+    const fallbackProvider = new ethers.providers.JsonRpcProvider('http://127.0.0.1:8546/');
+    const fallbackProviderState = {
+      ...providerState,
+      providerName: 'fallback',
+      providerUrl: 'http://127.0.0.1:8546/',
+      provider: fallbackProvider,
+    };
+    const connectSpy = jest.spyOn(rrpBeaconServerMock, 'connect');
+    requestBeaconUpdateSpy
+      .mockRejectedValueOnce(new Error('Network error'))
+      .mockRejectedValueOnce(new Error('Network error'));
+
+    await rrp.processKeeperSponsorWallet(
+      state,
+      [providerState, fallbackProviderState],
+      job.keeperSponsor,
+      state.rrpBeaconServerKeeperJobs
+    );
+
+    // The request is attempted twice with the first provider and once with the fallback provider
+    expect(requestBeaconUpdateSpy).toHaveBeenCalledTimes(3);
+    requestBeaconUpdateSpy.mock.calls.forEach((call: any[]) =>
+      expect(call[4]).toEqual({ gasLimit: GAS_LIMIT, ...gasTarget, nonce: transactionCount })
+    );
+    expect(connectSpy).toHaveBeenLastCalledWith(expect.objectContaining({ provider: fallbackProvider }));
+  });
+
+  it('does not read keeper sponsor wallets on chains without their jobs', async () => {
+    const { state, providerState } = buildState();
+    const [job] = state.rrpBeaconServerKeeperJobs;
+    const getBalanceSpy = jest.spyOn(ethers.providers.JsonRpcProvider.prototype, 'getBalance');
+
+    const { plannedTransactions } = await rrp.submitTransactions({
+      ...state,
+      rrpBeaconServerKeeperJobs: [{ ...job, chainIds: ['1'] }],
+      providerStates: [providerState],
+    });
+
+    expect(getBalanceSpy).not.toHaveBeenCalled();
+    expect(readBeaconSpy).not.toHaveBeenCalled();
+    expect(plannedTransactions).toEqual([]);
+  });
+
+  it('skips jobs for other chains and jobs without an API value', async () => {
+    const { state, providerState } = buildState();
+    const [job] = state.rrpBeaconServerKeeperJobs;
+
+    await rrp.processKeeperSponsorWallet(state, [providerState], job.keeperSponsor, [
+      { ...job, chainIds: ['1'] },
+      { ...job, beaconId: ethers.constants.HashZero },
+    ]);
+
+    expect(readBeaconSpy).not.toHaveBeenCalled();
+    expect(requestBeaconUpdateSpy).not.toHaveBeenCalled();
+  });
+});
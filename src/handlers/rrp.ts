@@ -1,32 +1,67 @@
 import * as abi from '@api3/airnode-abi';
-import * as node from '@api3/airnode-node';
-import * as protocol from '@api3/airnode-protocol';
 import * as utils from '@api3/airnode-utilities';
 import { go, goSync } from '@api3/promise-utils';
 import { ethers } from 'ethers';
-import flatMap from 'lodash/flatMap';
 import groupBy from 'lodash/groupBy';
 import isEmpty from 'lodash/isEmpty';
 import isNil from 'lodash/isNil';
-import map from 'lodash/map';
 import { callApi } from '../api/call-api';
-import { BLOCK_COUNT_HISTORY_LIMIT, GAS_LIMIT, TIMEOUT_MS, RETRIES } from '../constants';
-import { loadAirkeeperConfig, loadAirnodeConfig, mergeConfigs } from '../config';
+import {
+  isDryRun,
+  loadAirkeeperConfig,
+  loadAirnodeConfig,
+  loadAirnodeConfigWithoutMnemonic,
+  mergeConfigs,
+} from '../config';
+import {
+  BLOCK_COUNT_HISTORY_LIMIT,
+  GAS_LIMIT,
+  PROTOCOL_ID_RRP,
+  PROTOCOL_ID_RRP_KEEPER,
+  TIMEOUT_MS,
+  RETRIES,
+} from '../constants';
+import {
+  calculateDeviation,
+  checkBeaconDeviation,
+  checkBeaconHeartbeat,
+  checkSponsorWalletBalance,
+  checkPendingBeaconUpdateRequest,
+  getSponsorWalletAndTransactionCount,
+  groupProviderStatesByChain,
+  initializeEvmState,
+  initializeProvider,
+  processStuckTransactions,
+  readWithFallback,
+  serializeGasTarget,
+  submitTransactionWithFallback,
+  trackTransaction,
+} from '../evm';
+import { deriveEndpointId, deriveRrpBeaconId, deriveRrpTemplateId } from '../ids';
 import { buildLogOptions } from '../logger';
-import { ChainConfig, LogsAndApiValuesByBeaconId } from '../types';
-import { shortenAddress } from '../wallet';
-
-type ApiValueByBeaconId = {
-  [beaconId: string]: ethers.BigNumber | null;
-};
-
-export const handler = async (_event: any = {}): Promise<any> => {
+import { pushMetrics, recordBeaconDeviation, recordTransaction } from '../metrics';
+import {
+  AirnodeSigner,
+  Config,
+  EVMProviderState,
+  LocalWorkerResources,
+  ProviderState,
+  RrpBeaconServerKeeperJob,
+  RrpCallApiResult,
+  RrpPlannedTransaction,
+  RrpState,
+} from '../types';
+import { createSigner, isMnemonicRequired } from '../signer';
+import { createStateStore, saveRunState } from '../state-store';
+import { isValidDeviationPercentage } from '../validator';
+import { deriveAirnodeAddress, shortenAddress } from '../wallet';
+
+export const handler = async (event: any = {}): Promise<any> => {
   const startedAt = new Date();
+  const dryRun = isDryRun(event);
 
-  // **************************************************************************
-  // 1. Load config
-  // **************************************************************************
-  const airnodeConfig = goSync(loadAirnodeConfig);
+  // Only the mnemonic signer needs the mnemonic, every address is derived from airnodeXpub otherwise
+  const airnodeConfig = goSync(() => (isMnemonicRequired() ? loadAirnodeConfig() : loadAirnodeConfigWithoutMnemonic()));
   if (!airnodeConfig.success) {
     utils.logger.error(airnodeConfig.error.message);
     throw airnodeConfig.error;
@@ -37,430 +72,476 @@ export const handler = async (_event: any = {}): Promise<any> => {
     utils.logger.error(airkeeperConfig.error.message);
     throw airkeeperConfig.error;
   }
+  const config = goSync(() => mergeConfigs(airnodeConfig.data, airkeeperConfig.data));
+  if (!config.success) {
+    utils.logger.error(config.error.message);
+    throw config.error;
+  }
+
+  const state = await updateBeacon(config.data, dryRun);
+
+  const completedAt = new Date();
+  const durationMs = Math.abs(completedAt.getTime() - startedAt.getTime());
+  utils.logger.info(
+    `RRP beacon update finished at ${utils.formatDateTime(completedAt)}. Total time: ${durationMs}ms`,
+    state.baseLogOptions
+  );
+  await pushMetrics('rrp-beacon-update', state.baseLogOptions);
 
-  const baseLogOptions = utils.buildBaseOptions(airnodeConfig.data, {
+  const response = {
+    ok: true,
+    data: dryRun
+      ? { message: 'RRP beacon update dry run has finished', plannedTransactions: state.plannedTransactions }
+      : { message: 'RRP beacon update execution has finished' },
+  };
+  return { statusCode: 200, body: JSON.stringify(response) };
+};
+
+export const initializeState = (
+  config: Config,
+  dryRun = false,
+  localWorkerResources?: LocalWorkerResources
+): RrpState => {
+  const { triggers, endpoints } = config;
+
+  const baseLogOptions = utils.buildBaseOptions(config, {
     coordinatorId: utils.randomHexString(8),
   });
-  utils.logger.info(`Airkeeper started at ${utils.formatDateTime(startedAt)}`, baseLogOptions);
 
-  const config = mergeConfigs(airnodeConfig.data, airkeeperConfig.data);
-  const { chains, triggers, endpoints } = config;
+  // The daemon creates the signer and state store once instead of on every cycle
+  const airnodeSigner =
+    localWorkerResources?.airnodeSigner ??
+    createSigner({
+      airnodeWalletMnemonic: config.nodeSettings.airnodeWalletMnemonic,
+      airnodeXpub: config.airnodeXpub,
+    });
+  const airnodeAddress = config.airnodeXpub ? deriveAirnodeAddress(config.airnodeXpub) : airnodeSigner.address;
+  if (config.airnodeAddress && ethers.utils.getAddress(config.airnodeAddress) !== airnodeAddress) {
+    throw new Error(`xpub does not belong to Airnode: ${airnodeAddress}`);
+  }
+
+  const rrpBeaconServerKeeperJobs = triggers.rrpBeaconServerKeeperJobs.reduce(
+    (acc: RrpBeaconServerKeeperJob[], job) => {
+      const { templateId, templateParameters, endpointId, deviationPercentage } = job;
+
+      const encodedParameters = abi.encode(templateParameters);
+      const beaconId = deriveRrpBeaconId(templateId, encodedParameters);
+      const beaconIdLogOptions = buildLogOptions('additional', { beaconId }, baseLogOptions);
+
+      // Get endpoint details
+      const endpoint = endpoints[endpointId];
+      if (isNil(endpoint)) {
+        utils.logger.warn(`EndpointId ${endpointId} not found in endpoints`, beaconIdLogOptions);
+        return acc;
+      }
+      // Verify endpointId
+      const expectedEndpointId = deriveEndpointId(endpoint);
+      if (expectedEndpointId !== endpointId) {
+        utils.logger.warn(`EndpointId ${endpointId} does not match expected ${expectedEndpointId}`, beaconIdLogOptions);
+        return acc;
+      }
+
+      // Verify templateId
+      const expectedTemplateId = deriveRrpTemplateId(airnodeAddress, endpointId, encodedParameters);
+      if (expectedTemplateId !== templateId) {
+        utils.logger.warn(`TemplateId ${templateId} does not match expected ${expectedTemplateId}`, beaconIdLogOptions);
+        return acc;
+      }
+
+      // Verify deviationPercentage is between 0 and 100 and has only 2 decimal places
+      if (!isValidDeviationPercentage(deviationPercentage)) {
+        utils.logger.warn(
+          `DeviationPercentage ${deviationPercentage} must be a number larger than 0 and less then or equal to 100 with no more than 2 decimal places`,
+          beaconIdLogOptions
+        );
+        return acc;
+      }
 
-  const airnodeHDNode = ethers.utils.HDNode.fromMnemonic(config.nodeSettings.airnodeWalletMnemonic);
-  const airnodeAddress = (
-    airkeeperConfig.data.airnodeXpub
-      ? ethers.utils.HDNode.fromExtendedKey(airkeeperConfig.data.airnodeXpub).derivePath('0/0')
-      : airnodeHDNode.derivePath(ethers.utils.defaultPath)
-  ).address;
+      return [...acc, { ...job, beaconId, encodedParameters }];
+    },
+    []
+  );
 
-  if (airkeeperConfig.data.airnodeAddress && airkeeperConfig.data.airnodeAddress !== airnodeAddress) {
-    throw new Error(`xpub does not belong to Airnode: ${airnodeAddress}`);
+  if (isEmpty(rrpBeaconServerKeeperJobs)) {
+    utils.logger.info('No RRP beacon server keeper jobs to process', baseLogOptions);
   }
 
-  // **************************************************************************
-  // 2. Read and cache API values
-  // **************************************************************************
-  utils.logger.debug('making API requests...', baseLogOptions);
+  return {
+    config,
+    baseLogOptions,
+    dryRun,
+    stateStore: localWorkerResources ? localWorkerResources.stateStore : createStateStore(),
+    airnodeSigner,
+    rrpBeaconServerKeeperJobs,
+    apiValuesByBeaconId: {},
+    providerStates: [],
+    plannedTransactions: [],
+  };
+};
 
-  const apiValuePromises = triggers.rrpBeaconServerKeeperJobs.map(({ templateId, templateParameters, endpointId }) =>
-    go(
-      async () => {
-        const { oisTitle, endpointName } = endpoints[endpointId];
+export const executeApiCalls = async (state: RrpState): Promise<RrpState> => {
+  const { config, baseLogOptions, rrpBeaconServerKeeperJobs } = state;
+
+  const apiValuePromises = rrpBeaconServerKeeperJobs.map(async ({ beaconId, endpointId, templateParameters }) => {
+    const apiCallParameters = templateParameters.reduce((acc, p) => ({ ...acc, [p.name]: p.value }), {});
+
+    const goResult = await go(() => callApi(config, config.endpoints[endpointId], apiCallParameters), {
+      attemptTimeoutMs: TIMEOUT_MS,
+      retries: RETRIES,
+    });
+
+    if (goResult.success) {
+      const [logs, data] = goResult.data;
+      if (isNil(data)) {
+        return [logs, { beaconId, apiValue: null }] as RrpCallApiResult;
+      }
+      // RrpBeaconServer beacons can only be updated with a single int256 value
+      if (data.type !== 'int256') {
+        const message = `Unsupported API value type ${data.type} for beaconId ${beaconId}. Only int256 is supported`;
+        return [[...logs, utils.logger.pend('ERROR', message)], { beaconId, apiValue: null }] as RrpCallApiResult;
+      }
+      return [logs, { beaconId, apiValue: ethers.BigNumber.from(data.values[0]) }] as RrpCallApiResult;
+    } else {
+      return [
+        [utils.logger.pend('ERROR', `Failed to call API for beaconId ${beaconId}`, goResult.error)],
+        { beaconId, apiValue: null },
+      ] as RrpCallApiResult;
+    }
+  });
 
-        const encodedParameters = abi.encode(templateParameters);
-        const beaconId = ethers.utils.solidityKeccak256(['bytes32', 'bytes'], [templateId, encodedParameters]);
+  const callApiResults = await Promise.all(apiValuePromises);
 
-        // Verify endpointId
-        const expectedEndpointId = ethers.utils.keccak256(
-          ethers.utils.defaultAbiCoder.encode(['string', 'string'], [oisTitle, endpointName])
-        );
-        if (expectedEndpointId !== endpointId) {
-          const message = `endpointId '${endpointId}' does not match expected endpointId '${expectedEndpointId}'`;
-          const log = utils.logger.pend('ERROR', message);
-          return Promise.resolve([[log], { [beaconId]: null }] as node.LogsData<ApiValueByBeaconId>);
-        }
-
-        // Verify templateId
-        const expectedTemplateId = node.evm.templates.getExpectedTemplateId({
-          airnodeAddress,
-          endpointId: expectedEndpointId,
-          encodedParameters,
-        });
-        if (expectedTemplateId !== templateId) {
-          const message = `templateId '${templateId}' does not match expected templateId '${expectedTemplateId}'`;
-          const log = utils.logger.pend('ERROR', message);
-          return Promise.resolve([[log], { [beaconId]: null }] as node.LogsData<ApiValueByBeaconId>);
-        }
-
-        const apiCallParameters = templateParameters.reduce((acc, p) => ({ ...acc, [p.name]: p.value }), {});
-
-        const [logs, data] = await callApi(config, endpoints[endpointId], apiCallParameters);
-
-        return [logs, { [beaconId]: data }] as node.LogsData<ApiValueByBeaconId>;
-      },
-      { attemptTimeoutMs: TIMEOUT_MS, retries: RETRIES }
-    )
+  callApiResults.forEach(([logs, { beaconId }]) =>
+    utils.logger.logPending(logs, buildLogOptions('additional', { beaconId }, baseLogOptions))
   );
-  const responses = await Promise.all(apiValuePromises);
 
-  // Group logs and API values by beaconId
-  const logsAndApiValuesByBeaconId: LogsAndApiValuesByBeaconId = responses.reduce((acc, logsData) => {
-    if (!logsData.success || !logsData.data) {
-      return acc;
-    }
-    const [logs, data] = logsData.data;
-    const [beaconId] = Object.keys(data);
-    return { ...acc, ...{ [beaconId]: { logs, apiValue: data[beaconId] } } };
-  }, {});
-
-  // Print pending logs
-  Object.keys(logsAndApiValuesByBeaconId).forEach((beaconId) =>
-    utils.logger.logPending(
-      logsAndApiValuesByBeaconId[beaconId].logs,
-      buildLogOptions('additional', { beaconId }, baseLogOptions)
-    )
+  const apiValuesByBeaconId = callApiResults.reduce(
+    (acc: { [beaconId: string]: ethers.BigNumber }, [_logs, { beaconId, apiValue }]) => {
+      if (isNil(apiValue)) {
+        return acc;
+      }
+      return { ...acc, [beaconId]: apiValue };
+    },
+    {}
   );
 
-  // **************************************************************************
-  // 3. Process chain providers in parallel
-  // **************************************************************************
-  utils.logger.debug('processing chain providers...', baseLogOptions);
+  return { ...state, apiValuesByBeaconId };
+};
 
-  const evmChains = chains.filter((chain: ChainConfig) => chain.type === 'evm');
+export const initializeEvmStates = async (state: RrpState): Promise<RrpState> => {
+  const { config, baseLogOptions, airnodeSigner } = state;
+
+  const evmChains = config.chains.filter((chain) => chain.type === 'evm');
   if (isEmpty(evmChains)) {
-    throw new Error('One or more evm compatible chain(s) must be defined in the provided config');
+    throw new Error('One or more evm compatible chains must be defined in the provided config');
   }
-  const providerPromises = flatMap(
-    evmChains.map((chain: ChainConfig) => {
-      return map(chain.providers, async (chainProvider, providerName) => {
-        const providerLogOptions = buildLogOptions('meta', { providerName, chainId: chain.id }, baseLogOptions);
-
-        // **************************************************************************
-        // 3.1 Initialize provider specific data
-        // **************************************************************************
-        utils.logger.debug('initializing...', providerLogOptions);
-
-        const blockHistoryLimit = chain.blockHistoryLimit || BLOCK_COUNT_HISTORY_LIMIT;
-        const chainProviderUrl = chainProvider.url || '';
-        const provider = node.evm.buildEVMProvider(chainProviderUrl, chain.id);
-
-        const airnodeRrp = protocol.AirnodeRrpFactory.connect(chain.contracts.AirnodeRrp, provider);
-
-        const rrpBeaconServer = protocol.RrpBeaconServerFactory.connect(chain.contracts.RrpBeaconServer!, provider);
-
-        // Fetch current block number from chain via provider
-        const currentBlock = await go(() => provider.getBlockNumber(), {
-          attemptTimeoutMs: TIMEOUT_MS,
-          retries: RETRIES,
-        });
-        if (!currentBlock.success) {
-          utils.logger.error('failed to fetch the blockNumber', {
-            ...providerLogOptions,
-            error: currentBlock.error,
-          });
-          return;
-        }
-
-        // **************************************************************************
-        // 3.2 Process each keeperSponsor address in parallel
-        // **************************************************************************
-        utils.logger.debug('processing keeperSponsor addresses...', providerLogOptions);
-
-        // Group rrpBeaconServerKeeperJobs by keeperSponsor
-        const rrpBeaconServerKeeperJobsByKeeperSponsor = groupBy(triggers.rrpBeaconServerKeeperJobs, 'keeperSponsor');
-        const keeperSponsorAddresses = Object.keys(rrpBeaconServerKeeperJobsByKeeperSponsor);
-
-        const keeperSponsorWalletPromises = keeperSponsorAddresses.map(async (keeperSponsor) => {
-          // **************************************************************************
-          // 3.2.1 Derive keeperSponsorWallet address
-          // **************************************************************************
-          utils.logger.debug('deriving keeperSponsorWallet...', providerLogOptions);
-
-          const keeperSponsorWallet = node.evm
-            .deriveSponsorWalletFromMnemonic(config.nodeSettings.airnodeWalletMnemonic, keeperSponsor, '12345')
-            .connect(provider);
-
-          const keeperSponsorWalletLogOptions = buildLogOptions(
-            'additional',
-            { keeperSponsorWallet: shortenAddress(keeperSponsorWallet.address) },
-            providerLogOptions
-          );
-
-          // **************************************************************************
-          // 3.2.2 Fetch keeperSponsorWallet transaction count
-          // **************************************************************************
-          utils.logger.debug('fetching transaction count...', keeperSponsorWalletLogOptions);
-
-          const keeperSponsorWalletTransactionCount = await go(
-            () => provider.getTransactionCount(keeperSponsorWallet.address, currentBlock.data),
-            { attemptTimeoutMs: TIMEOUT_MS, retries: RETRIES }
-          );
-          if (!keeperSponsorWalletTransactionCount.success) {
-            utils.logger.error('failed to fetch the keeperSponsorWallet transaction count', {
-              ...keeperSponsorWalletLogOptions,
-              error: keeperSponsorWalletTransactionCount.error,
-            });
-            return;
-          }
-          let nextNonce = keeperSponsorWalletTransactionCount.data;
-
-          // **************************************************************************
-          // 3.2.3 Process each rrpBeaconServerKeeperJob in serial to keep nonces in order
-          // **************************************************************************
-          utils.logger.debug('processing rrpBeaconServerKeeperJobs...', keeperSponsorWalletLogOptions);
-
-          const rrpBeaconServerKeeperJobs = rrpBeaconServerKeeperJobsByKeeperSponsor[keeperSponsor];
-          for (const {
-            chainIds,
-            templateId,
-            templateParameters,
-            deviationPercentage,
-            requestSponsor,
-          } of rrpBeaconServerKeeperJobs) {
-            // **************************************************************************
-            // 3.2.3.1 Derive beaconId
-            // **************************************************************************
-            utils.logger.debug('deriving beaconId...', keeperSponsorWalletLogOptions);
-
-            const encodedParameters = abi.encode(templateParameters);
-            const beaconId = ethers.utils.solidityKeccak256(['bytes32', 'bytes'], [templateId, encodedParameters]);
-
-            const beaconIdLogOptions = buildLogOptions('additional', { beaconId }, keeperSponsorWalletLogOptions);
-
-            // **************************************************************************
-            // 3.2.3.2 Verify if beacon must be updated for current chain
-            // **************************************************************************
-            utils.logger.debug('verifying if beacon must be updated for current chain...', beaconIdLogOptions);
-
-            // If chainIds is not defined, beacon must be updated to keep backward compatibility
-            if (chainIds && !chainIds.includes(chain.id)) {
-              utils.logger.debug('skipping beaconId as it is not for current chain', beaconIdLogOptions);
-              continue;
-            }
-
-            // **************************************************************************
-            // 3.2.3.3 Read API value from cache
-            // **************************************************************************
-            utils.logger.debug('looking for API value...', beaconIdLogOptions);
-
-            const apiValue = logsAndApiValuesByBeaconId[beaconId].apiValue;
-            if (isNil(apiValue)) {
-              utils.logger.warn('API value is missing. skipping update', beaconIdLogOptions);
-              continue;
-            }
-
-            // **************************************************************************
-            // 3.2.3.4 Verify deviationPercentage is between 0 and 100 and has only 2 decimal places
-            // **************************************************************************
-            utils.logger.debug('verifying deviationPercentage...', beaconIdLogOptions);
-
-            if (
-              isNaN(Number(deviationPercentage)) ||
-              Number(deviationPercentage) <= 0 ||
-              Number(deviationPercentage) > 100 ||
-              !Number.isInteger(Number(deviationPercentage) * 100) // Only 2 decimal places is allowed
-            ) {
-              utils.logger.error(
-                `deviationPercentage '${deviationPercentage}' must be a number larger than 0 and less then or equal to 100 with no more than 2 decimal places`,
-                beaconIdLogOptions
-              );
-              continue;
-            }
-
-            // **************************************************************************
-            // 3.2.3.5 Read beacon
-            // **************************************************************************
-            utils.logger.debug('reading beacon value...', beaconIdLogOptions);
-
-            // address(0) is considered whitelisted
-            const voidSigner = new ethers.VoidSigner(ethers.constants.AddressZero, provider);
-            const beaconResponse = await go(() => rrpBeaconServer.connect(voidSigner).readBeacon(beaconId), {
-              attemptTimeoutMs: TIMEOUT_MS,
-              retries: RETRIES,
-            });
-            if (!beaconResponse.success) {
-              utils.logger.error(`failed to read value for beaconId: ${beaconId}`, {
-                ...beaconIdLogOptions,
-                error: beaconResponse.error,
-              });
-              continue;
-            }
-            utils.logger.info(`beacon server value: ${beaconResponse.data.value.toString()}`, beaconIdLogOptions);
-
-            // **************************************************************************
-            // 3.2.3.6 Calculate deviation
-            // **************************************************************************
-            utils.logger.debug('calculating deviation...', beaconIdLogOptions);
-
-            let beaconValue = beaconResponse.data.value;
-            const delta = beaconValue.sub(apiValue!).abs();
-            if (delta.eq(0)) {
-              utils.logger.warn('beacon is up-to-date. skipping update', beaconIdLogOptions);
-              continue;
-            }
-            beaconValue = beaconResponse.data.value.isZero() ? ethers.constants.One : beaconResponse.data.value;
-            const basisPoints = ethers.utils.parseUnits('1', 16);
-            const deviation = delta.mul(basisPoints).mul(100).div(beaconValue);
-            utils.logger.info(`deviation (%): ${ethers.utils.formatUnits(deviation, 16)}`, beaconIdLogOptions);
-
-            // **************************************************************************
-            // 3.2.3.7 Check if deviation is within the threshold
-            // **************************************************************************
-            utils.logger.debug('checking deviation...', beaconIdLogOptions);
-
-            const percentageThreshold = basisPoints.mul(
-              Number(deviationPercentage) * 100 // support for percentages up to 2 decimal places
-            );
-            if (deviation.lte(percentageThreshold.div(100))) {
-              utils.logger.warn(
-                'delta between beacon value and API value is within threshold. skipping update',
-                beaconIdLogOptions
-              );
-              continue;
-            }
-
-            // **************************************************************************
-            // 3.2.3.8 Fetch previous events to determine if previous update tx is pending
-            // **************************************************************************
-            utils.logger.debug('checking previous txs...', beaconIdLogOptions);
-
-            // Check to prevent sending the same request for beacon update more than once
-            // by checking if a RequestedBeaconUpdate event was emitted but no matching
-            // UpdatedBeacon event was emitted.
-
-            // Fetch RequestedBeaconUpdate events by beaconId, sponsor and sponsorWallet
-            const requestedBeaconUpdateFilter = rrpBeaconServer.filters.RequestedBeaconUpdate(
-              beaconId,
-              requestSponsor,
-              keeperSponsorWallet.address
-            );
-            const requestedBeaconUpdateEvents = await go(
-              () => rrpBeaconServer.queryFilter(requestedBeaconUpdateFilter, blockHistoryLimit * -1, currentBlock.data),
-              { attemptTimeoutMs: TIMEOUT_MS, retries: RETRIES }
-            );
-            if (!requestedBeaconUpdateEvents.success) {
-              utils.logger.error('failed to fetch RequestedBeaconUpdate events', {
-                ...beaconIdLogOptions,
-                error: requestedBeaconUpdateEvents.error,
-              });
-              continue;
-            }
-
-            // Fetch UpdatedBeacon events by beaconId
-            const updatedBeaconFilter = rrpBeaconServer.filters.UpdatedBeacon(beaconId);
-            const updatedBeaconEvents = await go(
-              () => rrpBeaconServer.queryFilter(updatedBeaconFilter, blockHistoryLimit * -1, currentBlock.data),
-              { attemptTimeoutMs: TIMEOUT_MS, retries: RETRIES }
-            );
-            if (!updatedBeaconEvents.success) {
-              utils.logger.error('failed to fetch UpdatedBeacon events', {
-                ...beaconIdLogOptions,
-                error: updatedBeaconEvents.error,
-              });
-              continue;
-            }
-
-            // Match these events by requestId and unmatched events are the ones that are still waiting to be fulfilled
-            const [pendingRequestedBeaconUpdateEvent] = requestedBeaconUpdateEvents.data.filter(
-              (rbue) => !updatedBeaconEvents.data.some((ub) => rbue.args!['requestId'] === ub.args!['requestId'])
-            );
-            if (!isNil(pendingRequestedBeaconUpdateEvent)) {
-              // Check if RequestedBeaconUpdate event is awaiting fulfillment by calling AirnodeRrp.requestIsAwaitingFulfillment with requestId and check if beacon value is fresh enough and skip if it is
-              const requestIsAwaitingFulfillment = await go(
-                () => airnodeRrp.requestIsAwaitingFulfillment(pendingRequestedBeaconUpdateEvent.args!['requestId']),
-                { attemptTimeoutMs: TIMEOUT_MS, retries: RETRIES }
-              );
-              if (!requestIsAwaitingFulfillment.success) {
-                utils.logger.error('failed to check if request is awaiting fulfillment', {
-                  ...beaconIdLogOptions,
-                  error: requestIsAwaitingFulfillment.error,
-                });
-                continue;
-              }
-              if (requestIsAwaitingFulfillment.data) {
-                utils.logger.warn('request is awaiting fulfillment. skipping update', beaconIdLogOptions);
-                continue;
-              }
-            }
-
-            // **************************************************************************
-            // 3.2.3.9 Fetch current gas fee data
-            // **************************************************************************
-            utils.logger.debug('fetching gas price...', beaconIdLogOptions);
-
-            const [gasPriceLogs, gasTarget] = await utils.getGasPrice({
-              provider,
-              chainOptions: chain.options,
-            });
-            if (!isEmpty(gasPriceLogs)) {
-              utils.logger.logPending(gasPriceLogs, beaconIdLogOptions);
-            }
-            if (!gasTarget) {
-              utils.logger.warn('failed to fetch gas price. Skipping update...', beaconIdLogOptions);
-              continue;
-            }
-
-            // **************************************************************************
-            // 3.2.3.10 Update beacon (submit requestBeaconUpdate transaction)
-            // **************************************************************************
-            utils.logger.debug('updating beacon...', beaconIdLogOptions);
-
-            /**
-             * 1. Airnode must first call setSponsorshipStatus(rrpBeaconServer.address, true) to enable the beacon server to make requests to AirnodeRrp
-             * 2. Request sponsor should then call setUpdatePermissionStatus(keeperSponsorWallet.address, true) to allow requester to update beacon
-             */
-
-            const requestSponsorWallet = node.evm.deriveSponsorWallet(airnodeHDNode, requestSponsor);
-            const nonce = nextNonce++;
-            const overrides = {
-              gasLimit: GAS_LIMIT,
-              ...gasTarget,
-              nonce,
-            };
-            const tx = await go(
-              () =>
-                rrpBeaconServer
-                  .connect(keeperSponsorWallet)
-                  .requestBeaconUpdate(
-                    templateId,
-                    requestSponsor,
-                    requestSponsorWallet.address,
-                    encodedParameters,
-                    overrides
-                  ),
-              { attemptTimeoutMs: TIMEOUT_MS, retries: RETRIES }
-            );
-            if (!tx.success) {
-              utils.logger.error(
-                `failed to submit transaction using wallet ${keeperSponsorWallet.address} with nonce ${nonce}. skipping update`,
-                {
-                  ...beaconIdLogOptions,
-                  error: tx.error,
-                }
-              );
-              continue;
-            }
-            utils.logger.info(`beacon update tx submitted: ${tx.data.hash}`, beaconIdLogOptions);
-          }
-        });
-
-        await Promise.all(keeperSponsorWalletPromises);
-      });
+  const evmPromises = evmChains.flatMap((chain) =>
+    Object.entries(chain.providers).map(async ([providerName, chainProvider]) => {
+      const evmLogOptions = buildLogOptions('meta', { chainId: chain.id, providerName }, baseLogOptions);
+
+      // Initialize provider specific data
+      const [logs, evmState] = await initializeEvmState(chain, chainProvider.url || '');
+      utils.logger.logPending(logs, evmLogOptions);
+      if (isNil(evmState)) {
+        utils.logger.warn('Failed to initialize EVM state', evmLogOptions);
+        return null;
+      }
+
+      const providerState = {
+        chainId: chain.id,
+        providerName,
+        providerUrl: chainProvider.url || '',
+        chainConfig: chain,
+        ...evmState,
+      };
+      const evmProviderState = await initializeProvider(airnodeSigner, providerState);
+
+      return { ...providerState, ...evmProviderState };
     })
   );
 
-  await Promise.all(providerPromises);
+  const evmStates = await Promise.all(evmPromises);
+  const validEvmStates = evmStates.filter((ps) => !isNil(ps)) as ProviderState<
+    EVMProviderState & { airnodeSigner: AirnodeSigner }
+  >[];
 
-  const completedAt = new Date();
-  const durationMs = Math.abs(completedAt.getTime() - startedAt.getTime());
-  utils.logger.info(
-    `Airkeeper finished at ${utils.formatDateTime(completedAt)}. Total time: ${durationMs}ms`,
-    baseLogOptions
+  return { ...state, providerStates: validEvmStates };
+};
+
+/**
+ * Processes the jobs of a keeper sponsor on a single chain. Provider states are expected to be ordered from the
+ * healthiest provider to the least healthy one and the rest of providers are only used if the previous one fails.
+ */
+export const processKeeperSponsorWallet = async (
+  state: RrpState,
+  chainProviderStates: ProviderState<EVMProviderState & { airnodeSigner: AirnodeSigner }>[],
+  keeperSponsor: string,
+  rrpBeaconServerKeeperJobs: RrpBeaconServerKeeperJob[]
+): Promise<RrpPlannedTransaction[]> => {
+  const { baseLogOptions, dryRun, stateStore, airnodeSigner, apiValuesByBeaconId } = state;
+
+  // Fetch keeper sponsor wallet transaction count to be able to assign nonces to beacon update requests. The first
+  // provider that responds is used for the rest of the reads
+  const [transactionCountLogs, walletResult] = await readWithFallback(
+    chainProviderStates,
+    ({ provider, currentBlock }) =>
+      getSponsorWalletAndTransactionCount(airnodeSigner, provider, currentBlock, keeperSponsor, PROTOCOL_ID_RRP_KEEPER)
+  );
+  if (isNil(walletResult)) {
+    const [{ chainId, providerName }] = chainProviderStates;
+    const keeperSponsorLogOptions = buildLogOptions(
+      'additional',
+      { keeperSponsor },
+      buildLogOptions('meta', { chainId, providerName }, baseLogOptions)
+    );
+    utils.logger.logPending(transactionCountLogs, keeperSponsorLogOptions);
+    utils.logger.warn('Failed to fetch keeper sponsor wallet, transaction count or balance', keeperSponsorLogOptions);
+    return [];
+  }
+
+  const {
+    providerState,
+    data: { sponsorWallet: keeperSponsorWallet, transactionCount, balance },
+  } = walletResult;
+  const { chainId, chainConfig, providerName, contracts, voidSigner, currentBlock, gasTarget } = providerState;
+  const fallbackProviders = chainProviderStates
+    .filter((chainProviderState) => chainProviderState !== providerState)
+    .map(({ providerName, provider }) => ({ providerName, provider }));
+
+  const providerLogOptions = buildLogOptions('meta', { chainId, providerName }, baseLogOptions);
+
+  const keeperSponsorWalletLogOptions = buildLogOptions(
+    'additional',
+    { keeperSponsorWallet: shortenAddress(keeperSponsorWallet.address) },
+    providerLogOptions
   );
+  utils.logger.logPending(transactionCountLogs, keeperSponsorWalletLogOptions);
 
-  const response = {
-    ok: true,
-    data: { message: 'Airkeeper invocation has finished' },
-  };
-  return { statusCode: 200, body: JSON.stringify(response) };
+  // Skip processing for the current keeperSponsor if the keeper sponsor wallet cannot pay for the requests
+  const [balanceLogs, hasSufficientBalance] = checkSponsorWalletBalance(balance, chainConfig.sponsorWalletBalance);
+  utils.logger.logPending(balanceLogs, keeperSponsorWalletLogOptions);
+  if (!hasSufficientBalance) {
+    return [];
+  }
+
+  const blockHistoryLimit = chainConfig.blockHistoryLimit || BLOCK_COUNT_HISTORY_LIMIT;
+  const airnodeRrp = contracts['AirnodeRrp'];
+  const rrpBeaconServer = contracts['RrpBeaconServer'];
+
+  // Report the outcome of the transactions submitted in previous runs before submitting new ones. Beacons can be
+  // updated on several chains so their run state is kept per chain
+  const trackedRunStates = await Promise.all(
+    rrpBeaconServerKeeperJobs
+      .filter(({ chainIds }) => !chainIds || chainIds.includes(chainId))
+      .map(async ({ beaconId }) => {
+        const runStateId = `${chainId}/${beaconId}`;
+        const [trackLogs, runState] = await trackTransaction(
+          stateStore,
+          providerState.provider,
+          chainId,
+          'rrpBeacon',
+          runStateId
+        );
+        utils.logger.logPending(trackLogs, buildLogOptions('additional', { beaconId }, keeperSponsorWalletLogOptions));
+        return isNil(runState) ? [] : [{ ...runState, id: runStateId, kind: 'rrpBeacon' as const }];
+      })
+  );
+
+  // New requests are submitted after the pending ones, which are replaced if they have been stuck for too long
+  const [stuckTransactionLogs, pendingTransactionCount] = chainConfig.stuckTransactions
+    ? await processStuckTransactions(
+        stateStore,
+        keeperSponsorWallet,
+        gasTarget,
+        trackedRunStates.flat(),
+        transactionCount,
+        chainConfig.stuckTransactions,
+        dryRun,
+        fallbackProviders
+      )
+    : [[], transactionCount];
+  utils.logger.logPending(stuckTransactionLogs, keeperSponsorWalletLogOptions);
+
+  // Keep track of nonce outside of the loop in case a job is skipped
+  let nextNonce = pendingTransactionCount;
+  const plannedTransactions: RrpPlannedTransaction[] = [];
+
+  // Process each job in serial to keep nonces in order
+  for (const {
+    chainIds,
+    beaconId,
+    templateId,
+    encodedParameters,
+    deviationPercentage,
+    heartbeatIntervalSeconds,
+    requestSponsor,
+  } of rrpBeaconServerKeeperJobs) {
+    const beaconIdLogOptions = buildLogOptions('additional', { beaconId }, keeperSponsorWalletLogOptions);
+
+    // If chainIds is not defined, beacon must be updated to keep backward compatibility
+    if (chainIds && !chainIds.includes(chainId)) {
+      utils.logger.debug('Skipping beaconId as it is not for current chain', beaconIdLogOptions);
+      continue;
+    }
+
+    const apiValue = apiValuesByBeaconId[beaconId];
+    if (isNil(apiValue)) {
+      utils.logger.warn('API value is missing. Skipping update...', beaconIdLogOptions);
+      continue;
+    }
+
+    // Read beacon. address(0) is considered whitelisted
+    const beaconResponse = await go<{ value: ethers.BigNumber; timestamp: number }, Error>(
+      () => rrpBeaconServer.connect(voidSigner).readBeacon(beaconId),
+      {
+        attemptTimeoutMs: TIMEOUT_MS,
+        retries: RETRIES,
+      }
+    );
+    if (!beaconResponse.success) {
+      utils.logger.error(`Failed to read value for beaconId: ${beaconId}`, {
+        ...beaconIdLogOptions,
+        error: beaconResponse.error,
+      });
+      continue;
+    }
+    utils.logger.info(`Beacon server value: ${beaconResponse.data.value.toString()}`, beaconIdLogOptions);
+
+    // Beacons older than the heartbeat interval are updated regardless of the deviation
+    const [heartbeatLogs, isStale] = checkBeaconHeartbeat(beaconResponse.data.timestamp, heartbeatIntervalSeconds);
+    utils.logger.logPending(heartbeatLogs, beaconIdLogOptions);
+    if (!isStale) {
+      recordBeaconDeviation(chainId, beaconId, calculateDeviation(beaconResponse.data.value, apiValue));
+      // Check if deviation is above the threshold
+      const [deviationLogs, shouldUpdate] = checkBeaconDeviation(
+        beaconResponse.data.value,
+        apiValue,
+        deviationPercentage
+      );
+      utils.logger.logPending(deviationLogs, beaconIdLogOptions);
+      if (!shouldUpdate) {
+        continue;
+      }
+    }
+
+    // Check if a previous update request is still pending
+    const [pendingRequestLogs, isPending] = await checkPendingBeaconUpdateRequest(
+      airnodeRrp,
+      rrpBeaconServer,
+      beaconId,
+      requestSponsor,
+      keeperSponsorWallet.address,
+      currentBlock,
+      blockHistoryLimit
+    );
+    utils.logger.logPending(pendingRequestLogs, beaconIdLogOptions);
+    if (isNil(isPending) || isPending) {
+      continue;
+    }
+
+    /**
+     * 1. Airnode must first call setSponsorshipStatus(rrpBeaconServer.address, true) to enable the beacon server to make requests to AirnodeRrp
+     * 2. Request sponsor should then call setUpdatePermissionStatus(keeperSponsorWallet.address, true) to allow requester to update beacon
+     */
+    const requestSponsorWallet = airnodeSigner.getSponsorWallet(requestSponsor, PROTOCOL_ID_RRP);
+    const nonce = nextNonce++;
+    const overrides = {
+      gasLimit: GAS_LIMIT,
+      ...gasTarget,
+      nonce,
+    };
+
+    // Skip submitting the transaction and add it to the plan instead
+    if (dryRun) {
+      utils.logger.info(
+        `Dry run: transaction using wallet ${keeperSponsorWallet.address} with nonce ${nonce} was not submitted`,
+        beaconIdLogOptions
+      );
+      plannedTransactions.push({
+        beaconId,
+        chainId,
+        providerName,
+        sponsorWallet: keeperSponsorWallet.address,
+        nonce,
+        apiValue: apiValue.toString(),
+        gasLimit: GAS_LIMIT.toString(),
+        gasTarget: serializeGasTarget(gasTarget),
+      });
+      continue;
+    }
+
+    const [submitLogs, tx] = await submitTransactionWithFallback(keeperSponsorWallet, fallbackProviders, (wallet) =>
+      rrpBeaconServer
+        .connect(wallet)
+        .requestBeaconUpdate(templateId, requestSponsor, requestSponsorWallet.address, encodedParameters, overrides)
+    );
+    utils.logger.logPending(submitLogs, beaconIdLogOptions);
+    recordTransaction(chainId, keeperSponsorWallet.address, tx.success);
+    if (!tx.success) {
+      utils.logger.error(
+        `Failed to submit transaction using wallet ${keeperSponsorWallet.address} with nonce ${nonce}. Skipping update...`,
+        { ...beaconIdLogOptions, error: tx.error }
+      );
+      continue;
+    }
+    utils.logger.info(`Beacon update tx submitted: ${tx.data.hash}`, beaconIdLogOptions);
+
+    const [saveLogs] = await saveRunState(stateStore, 'rrpBeacon', `${chainId}/${beaconId}`, {
+      apiValue: apiValue.toString(),
+      txHash: tx.data.hash,
+      nonce,
+      timestamp: Math.floor(Date.now() / 1000),
+      status: 'pending',
+    });
+    utils.logger.logPending(saveLogs, beaconIdLogOptions);
+  }
+
+  return plannedTransactions;
+};
+
+export const submitTransactions = async (state: RrpState): Promise<RrpState> => {
+  const { rrpBeaconServerKeeperJobs, providerStates } = state;
+
+  // Each chain and keeper sponsor pair is processed only once using the healthiest provider of the chain while the
+  // rest of providers are used as fallbacks. Keeper sponsors without jobs for the chain are skipped so that their
+  // wallets on that chain are not read
+  const keeperSponsorWalletPromises = groupProviderStatesByChain(providerStates).flatMap((chainProviderStates) => {
+    const [{ chainId }] = chainProviderStates;
+    const chainJobs = rrpBeaconServerKeeperJobs.filter(({ chainIds }) => !chainIds || chainIds.includes(chainId));
+    return Object.entries(groupBy(chainJobs, 'keeperSponsor')).map(([keeperSponsor, jobs]) =>
+      processKeeperSponsorWallet(state, chainProviderStates, keeperSponsor, jobs)
+    );
+  });
+
+  const plannedTransactions = await Promise.all(keeperSponsorWalletPromises);
+
+  return { ...state, plannedTransactions: plannedTransactions.flat() };
+};
+
+export const updateBeacon = async (config: Config, dryRun = false, localWorkerResources?: LocalWorkerResources) => {
+  // =================================================================
+  // STEP 1: Initialize state
+  // =================================================================
+  let state: RrpState = initializeState(config, dryRun, localWorkerResources);
+  utils.logger.debug('Initial state created...', state.baseLogOptions);
+
+  // **************************************************************************
+  // STEP 2: Make API calls
+  // **************************************************************************
+  state = await executeApiCalls(state);
+  utils.logger.debug('API requests executed...', state.baseLogOptions);
+
+  // **************************************************************************
+  // STEP 3. Initialize providers
+  // **************************************************************************
+  state = await initializeEvmStates(state);
+  utils.logger.debug('Evm states initialized...', state.baseLogOptions);
+
+  // **************************************************************************
+  // STEP 4. Initiate transactions for each chain, keeper sponsor wallet pair
+  // **************************************************************************
+  state = await submitTransactions(state);
+  utils.logger.debug('Transactions submitted...', state.baseLogOptions);
+
+  return state;
 };
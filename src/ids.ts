@@ -0,0 +1,40 @@
+import { ethers } from 'ethers';
+import { Endpoint, Subscription, Template } from './validator';
+
+export const deriveEndpointId = ({ oisTitle, endpointName }: Endpoint) =>
+  ethers.utils.keccak256(ethers.utils.defaultAbiCoder.encode(['string', 'string'], [oisTitle, endpointName]));
+
+export const deriveTemplateId = ({ endpointId, templateParameters }: Template) =>
+  ethers.utils.solidityKeccak256(['bytes32', 'bytes'], [endpointId, templateParameters]);
+
+export const deriveSubscriptionId = (subscription: Subscription) =>
+  ethers.utils.keccak256(
+    ethers.utils.defaultAbiCoder.encode(
+      ['uint256', 'address', 'bytes32', 'bytes', 'bytes', 'address', 'address', 'address', 'bytes4'],
+      [
+        subscription.chainId,
+        subscription.airnodeAddress,
+        subscription.templateId,
+        subscription.parameters,
+        subscription.conditions,
+        subscription.relayer,
+        subscription.sponsor,
+        subscription.requester,
+        subscription.fulfillFunctionId,
+      ]
+    )
+  );
+
+// Beacons updated by PSP subscriptions through DapiServer
+export const deriveBeaconId = (airnodeAddress: string, templateId: string) =>
+  ethers.utils.solidityKeccak256(['address', 'bytes32'], [airnodeAddress, templateId]);
+
+export const deriveRrpTemplateId = (airnodeAddress: string, endpointId: string, encodedParameters: string) =>
+  ethers.utils.solidityKeccak256(['address', 'bytes32', 'bytes'], [airnodeAddress, endpointId, encodedParameters]);
+
+// Beacons updated by RRP beacon server keeper jobs through RrpBeaconServer
+export const deriveRrpBeaconId = (templateId: string, encodedParameters: string) =>
+  ethers.utils.solidityKeccak256(['bytes32', 'bytes'], [templateId, encodedParameters]);
+
+export const deriveBeaconSetId = (beaconIds: string[]) =>
+  ethers.utils.keccak256(ethers.utils.defaultAbiCoder.encode(['bytes32[]'], [beaconIds]));
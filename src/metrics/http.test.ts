@@ -0,0 +1,161 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import * as utils from '@api3/airnode-utilities';
+import { pushMetrics, serveMetrics } from './http';
+import { incrementCounter, renderMetrics, resetMetrics } from './registry';
+
+const logOptions: utils.LogOptions = { format: 'plain', level: 'DEBUG', meta: {} };
+
+const request = (port: number, method: string, path: string) =>
+  new Promise<{ statusCode?: number; body: string }>((resolve, reject) => {
+    http
+      .request({ port, method, path }, (res) => {
+        let body = '';
+        res.on('data', (chunk) => (body += chunk));
+        res.on('end', () => resolve({ statusCode: res.statusCode, body }));
+      })
+      .on('error', reject)
+      .end();
+  });
+
+const listening = (server: http.Server) =>
+  new Promise<number>((resolve) => server.once('listening', () => resolve((server.address() as AddressInfo).port)));
+
+const close = (server: http.Server) => new Promise((resolve) => server.close(resolve));
+
+describe('serveMetrics', () => {
+  beforeEach(() => {
+    resetMetrics();
+  });
+
+  it('serves the metrics on GET /metrics', async () => {
+    incrementCounter('airkeeper_api_call_failures_total', { endpoint_id: '0x1' });
+    const server = serveMetrics(0);
+    const port = await listening(server);
+
+    const response = await request(port, 'GET', '/metrics');
+    await close(server);
+
+    expect(response.statusCode).toEqual(200);
+    expect(response.body).toContain('airkeeper_api_call_failures_total{endpoint_id="0x1"} 1\n');
+  });
+
+  it('responds with 404 to other paths', async () => {
+    const server = serveMetrics(0);
+    const port = await listening(server);
+
+    const response = await request(port, 'GET', '/');
+    await close(server);
+
+    expect(response.statusCode).toEqual(404);
+  });
+});
+
+describe('pushMetrics', () => {
+  const originalPushgatewayUrl = process.env.PUSHGATEWAY_URL;
+
+  afterEach(() => {
+    process.env.PUSHGATEWAY_URL = originalPushgatewayUrl;
+  });
+
+  it('does nothing if PUSHGATEWAY_URL is not set', async () => {
+    delete process.env.PUSHGATEWAY_URL;
+    const requestSpy = jest.spyOn(http, 'request');
+
+    await pushMetrics('psp-beacon-update', logOptions);
+
+    expect(requestSpy).not.toHaveBeenCalled();
+    requestSpy.mockRestore();
+  });
+
+  it('pushes the metrics grouped by handler', async () => {
+    incrementCounter('airkeeper_api_call_failures_total', { endpoint_id: '0x1' });
+    const pushes: { method?: string; url?: string; body: string }[] = [];
+    const server = http
+      .createServer((req, res) => {
+        let body = '';
+        req.on('data', (chunk) => (body += chunk));
+        req.on('end', () => {
+          pushes.push({ method: req.method, url: req.url, body });
+          res.writeHead(200).end();
+        });
+      })
+      .listen(0);
+    const port = await listening(server);
+    process.env.PUSHGATEWAY_URL = `http://127.0.0.1:${port}/`;
+
+    await pushMetrics('psp-beacon-update', logOptions);
+    await close(server);
+
+    expect(pushes).toEqual([
+      {
+        method: 'PUT',
+        url: '/metrics/job/airkeeper/handler/psp-beacon-update',
+        body: expect.stringContaining('airkeeper_api_call_failures_total{endpoint_id="0x1"} 1\n'),
+      },
+    ]);
+  });
+
+  it('does not push the same samples again under another group', async () => {
+    incrementCounter('airkeeper_api_call_failures_total', { endpoint_id: '0x1' });
+    const bodies: string[] = [];
+    const server = http
+      .createServer((req, res) => {
+        let body = '';
+        req.on('data', (chunk) => (body += chunk));
+        req.on('end', () => {
+          bodies.push(body);
+          res.writeHead(200).end();
+        });
+      })
+      .listen(0);
+    const port = await listening(server);
+    process.env.PUSHGATEWAY_URL = `http://127.0.0.1:${port}`;
+
+    await pushMetrics('process-subscriptions', logOptions, { chainId: '31337', sponsor: '0x1' });
+    incrementCounter('airkeeper_api_call_failures_total', { endpoint_id: '0x2' });
+    await pushMetrics('process-subscriptions', logOptions, { chainId: '31337', sponsor: '0x2' });
+    await close(server);
+
+    expect(bodies[0]).toContain('airkeeper_api_call_failures_total{endpoint_id="0x1"} 1\n');
+    expect(bodies[1]).not.toContain('endpoint_id="0x1"');
+    expect(bodies[1]).toContain('airkeeper_api_call_failures_total{endpoint_id="0x2"} 1\n');
+    expect(renderMetrics()).toEqual('\n');
+  });
+
+  it('pushes the metrics grouped by the additional grouping labels', async () => {
+    const urls: (string | undefined)[] = [];
+    const server = http
+      .createServer((req, res) => {
+        urls.push(req.url);
+        req.resume();
+        req.on('end', () => res.writeHead(200).end());
+      })
+      .listen(0);
+    const port = await listening(server);
+    process.env.PUSHGATEWAY_URL = `http://127.0.0.1:${port}`;
+
+    await pushMetrics('process-subscriptions', logOptions, {
+      chainId: '31337',
+      sponsor: '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC',
+    });
+    await close(server);
+
+    expect(urls).toEqual([
+      '/metrics/job/airkeeper/handler/process-subscriptions/chainId/31337/sponsor/0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC',
+    ]);
+  });
+
+  it('logs instead of throwing if the push fails', async () => {
+    const errorSpy = jest.spyOn(utils.logger, 'error').mockImplementation(() => undefined);
+    const server = http.createServer((_req, res) => res.writeHead(500).end()).listen(0);
+    const port = await listening(server);
+    process.env.PUSHGATEWAY_URL = `http://127.0.0.1:${port}`;
+
+    await pushMetrics('rrp-beacon-update', logOptions);
+    await close(server);
+
+    expect(errorSpy).toHaveBeenCalledWith('Failed to push metrics', expect.objectContaining(logOptions));
+    errorSpy.mockRestore();
+  });
+});
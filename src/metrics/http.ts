@@ -0,0 +1,71 @@
+import http from 'http';
+import https from 'https';
+import * as utils from '@api3/airnode-utilities';
+import { go } from '@api3/promise-utils';
+import { renderMetrics, resetMetrics } from './registry';
+import { TIMEOUT_MS } from '../constants';
+
+const CONTENT_TYPE = 'text/plain; version=0.0.4';
+
+/**
+ * Serves the metrics in the Prometheus text format on `GET /metrics`.
+ */
+export const serveMetrics = (port: number) =>
+  http
+    .createServer((req, res) => {
+      if (req.method !== 'GET' || req.url !== '/metrics') {
+        res.writeHead(404).end();
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': CONTENT_TYPE }).end(renderMetrics());
+    })
+    .listen(port);
+
+const putMetrics = (url: string, body: string) =>
+  new Promise<void>((resolve, reject) => {
+    const request = (url.startsWith('https:') ? https : http).request(
+      url,
+      { method: 'PUT', headers: { 'Content-Type': CONTENT_TYPE }, timeout: TIMEOUT_MS },
+      (res) => {
+        res.resume();
+        if (res.statusCode && res.statusCode >= 200 && res.statusCode < 300) {
+          resolve();
+          return;
+        }
+        reject(new Error(`Pushgateway responded with status code ${res.statusCode}`));
+      }
+    );
+    request.on('timeout', () => request.destroy(new Error('Pushgateway request timed out')));
+    request.on('error', reject);
+    request.end(body);
+  });
+
+/**
+ * Pushes the metrics to a Pushgateway compatible endpoint under the `airkeeper` job grouped by handler and the
+ * additional grouping labels. Invocations that run concurrently must use distinct labels because each push replaces
+ * the metrics of its group. The registry is reset once the metrics are rendered so that each sample is pushed under a
+ * single group even when the process (e.g. a warm Lambda container) runs several invocations. Nothing is pushed unless
+ * the PUSHGATEWAY_URL environment variable is set and failures are only logged so that metrics never interrupt beacon
+ * updates.
+ */
+export const pushMetrics = async (
+  handler: string,
+  logOptions: utils.LogOptions,
+  groupingLabels: Record<string, string> = {}
+) => {
+  const pushgatewayUrl = process.env.PUSHGATEWAY_URL;
+  if (!pushgatewayUrl) {
+    return;
+  }
+
+  const groupingKey = Object.entries({ job: 'airkeeper', handler, ...groupingLabels })
+    .map(([name, value]) => `/${name}/${encodeURIComponent(value)}`)
+    .join('');
+  const url = `${pushgatewayUrl.replace(/\/$/, '')}/metrics${groupingKey}`;
+  const body = renderMetrics();
+  resetMetrics();
+  const goPush = await go(() => putMetrics(url, body));
+  if (!goPush.success) {
+    utils.logger.error('Failed to push metrics', { ...logOptions, error: goPush.error });
+  }
+};
@@ -0,0 +1,3 @@
+export * from './http';
+export * from './record';
+export * from './registry';
@@ -0,0 +1,51 @@
+import * as node from '@api3/airnode-node';
+import { ethers } from 'ethers';
+import { incrementCounter, observeHistogram, setGauge } from './registry';
+import { TransactionStatus } from '../types';
+
+export const recordApiCall = (endpointId: string, durationMs: number, success: boolean) => {
+  observeHistogram('airkeeper_api_call_duration_seconds', { endpoint_id: endpointId }, durationMs / 1000);
+  if (!success) {
+    incrementCounter('airkeeper_api_call_failures_total', { endpoint_id: endpointId });
+  }
+};
+
+export const recordConditionCheck = (subscriptionId: string, conditionsMet: boolean) =>
+  incrementCounter('airkeeper_condition_checks_total', {
+    subscription_id: subscriptionId,
+    result: conditionsMet ? 'met' : 'not_met',
+  });
+
+export const recordTransaction = (chainId: string, sponsorWallet: string, success: boolean) =>
+  incrementCounter(success ? 'airkeeper_transactions_submitted_total' : 'airkeeper_transactions_failed_total', {
+    chain_id: chainId,
+    sponsor_wallet: sponsorWallet,
+  });
+
+export const recordTransactionOutcome = (chainId: string, status: TransactionStatus) =>
+  incrementCounter('airkeeper_transaction_outcomes_total', { chain_id: chainId, status });
+
+export const recordGasPrice = (chainId: string, gasTarget: node.GasTarget) => {
+  const gasPrices = {
+    gas_price: gasTarget.gasPrice,
+    max_fee_per_gas: gasTarget.maxFeePerGas,
+    max_priority_fee_per_gas: gasTarget.maxPriorityFeePerGas,
+  };
+  Object.entries(gasPrices).forEach(([type, gasPrice]) => {
+    if (gasPrice) {
+      setGauge(
+        'airkeeper_gas_price_gwei',
+        { chain_id: chainId, type },
+        Number(ethers.utils.formatUnits(gasPrice, 'gwei'))
+      );
+    }
+  });
+};
+
+export const recordBeaconDeviation = (chainId: string, beaconId: string, deviation: ethers.BigNumber) =>
+  // Deviation is calculated with 16 decimals so that 1e16 represents 1%
+  observeHistogram(
+    'airkeeper_beacon_deviation_percent',
+    { chain_id: chainId, beacon_id: beaconId },
+    Number(ethers.utils.formatUnits(deviation, 16))
+  );
@@ -0,0 +1,56 @@
+import { incrementCounter, observeHistogram, renderMetrics, resetMetrics, setGauge } from './registry';
+
+describe('registry', () => {
+  beforeEach(() => {
+    resetMetrics();
+  });
+
+  it('renders nothing if there are no samples', () => {
+    expect(renderMetrics()).toEqual('\n');
+  });
+
+  it('increments counters per label set', () => {
+    incrementCounter('airkeeper_transactions_submitted_total', { chain_id: '1', sponsor_wallet: '0xA' });
+    incrementCounter('airkeeper_transactions_submitted_total', { chain_id: '1', sponsor_wallet: '0xA' });
+    incrementCounter('airkeeper_transactions_submitted_total', { sponsor_wallet: '0xB', chain_id: '1' });
+
+    expect(renderMetrics()).toEqual(
+      [
+        '# HELP airkeeper_transactions_submitted_total Number of submitted transactions',
+        '# TYPE airkeeper_transactions_submitted_total counter',
+        'airkeeper_transactions_submitted_total{chain_id="1",sponsor_wallet="0xA"} 2',
+        'airkeeper_transactions_submitted_total{chain_id="1",sponsor_wallet="0xB"} 1',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('overwrites gauges', () => {
+    setGauge('airkeeper_gas_price_gwei', { chain_id: '1', type: 'gas_price' }, 10);
+    setGauge('airkeeper_gas_price_gwei', { chain_id: '1', type: 'gas_price' }, 12.5);
+
+    expect(renderMetrics()).toContain('airkeeper_gas_price_gwei{chain_id="1",type="gas_price"} 12.5\n');
+  });
+
+  it('renders cumulative histogram buckets', () => {
+    observeHistogram('airkeeper_api_call_duration_seconds', { endpoint_id: '0x1' }, 0.2);
+    observeHistogram('airkeeper_api_call_duration_seconds', { endpoint_id: '0x1' }, 3);
+    observeHistogram('airkeeper_api_call_duration_seconds', { endpoint_id: '0x1' }, 60);
+
+    const metrics = renderMetrics();
+    expect(metrics).toContain('# TYPE airkeeper_api_call_duration_seconds histogram\n');
+    expect(metrics).toContain('airkeeper_api_call_duration_seconds_bucket{endpoint_id="0x1",le="0.1"} 0\n');
+    expect(metrics).toContain('airkeeper_api_call_duration_seconds_bucket{endpoint_id="0x1",le="0.25"} 1\n');
+    expect(metrics).toContain('airkeeper_api_call_duration_seconds_bucket{endpoint_id="0x1",le="5"} 2\n');
+    expect(metrics).toContain('airkeeper_api_call_duration_seconds_bucket{endpoint_id="0x1",le="10"} 2\n');
+    expect(metrics).toContain('airkeeper_api_call_duration_seconds_bucket{endpoint_id="0x1",le="+Inf"} 3\n');
+    expect(metrics).toContain('airkeeper_api_call_duration_seconds_sum{endpoint_id="0x1"} 63.2\n');
+    expect(metrics).toContain('airkeeper_api_call_duration_seconds_count{endpoint_id="0x1"} 3\n');
+  });
+
+  it('escapes label values', () => {
+    incrementCounter('airkeeper_api_call_failures_total', { endpoint_id: 'a"b\\c' });
+
+    expect(renderMetrics()).toContain('airkeeper_api_call_failures_total{endpoint_id="a\\"b\\\\c"} 1\n');
+  });
+});
@@ -0,0 +1,133 @@
+type MetricType = 'counter' | 'gauge' | 'histogram';
+
+type Labels = { [name: string]: string };
+
+interface MetricDefinition {
+  type: MetricType;
+  help: string;
+  buckets?: number[];
+}
+
+interface Sample {
+  labels: Labels;
+  value: number;
+  // Only used by histograms
+  bucketCounts?: number[];
+  count?: number;
+}
+
+export const METRIC_DEFINITIONS: { [name: string]: MetricDefinition } = {
+  airkeeper_api_call_duration_seconds: {
+    type: 'histogram',
+    help: 'Duration of API calls in seconds',
+    buckets: [0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+  },
+  airkeeper_api_call_failures_total: {
+    type: 'counter',
+    help: 'Number of failed API calls',
+  },
+  airkeeper_condition_checks_total: {
+    type: 'counter',
+    help: 'Number of subscription condition checks by result',
+  },
+  airkeeper_transactions_submitted_total: {
+    type: 'counter',
+    help: 'Number of submitted transactions',
+  },
+  airkeeper_transactions_failed_total: {
+    type: 'counter',
+    help: 'Number of transactions that failed to be submitted',
+  },
+  airkeeper_transaction_outcomes_total: {
+    type: 'counter',
+    help: 'Number of tracked transactions by outcome (confirmed, reverted or dropped)',
+  },
+  airkeeper_gas_price_gwei: {
+    type: 'gauge',
+    help: 'Gas price chosen for the transactions of the chain in Gwei',
+  },
+  airkeeper_beacon_deviation_percent: {
+    type: 'histogram',
+    help: 'Deviation between the beacon value and the API value in percent',
+    buckets: [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 25],
+  },
+};
+
+export type MetricName = keyof typeof METRIC_DEFINITIONS;
+
+// Samples are kept for the lifetime of the process (or the warm Lambda container) and keyed by their serialized labels
+const samples = new Map<MetricName, Map<string, Sample>>();
+
+const serializeLabels = (labels: Labels) =>
+  Object.keys(labels)
+    .sort()
+    .map((name) => `${name}="${labels[name].replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')}"`)
+    .join(',');
+
+const getSample = (name: MetricName, labels: Labels) => {
+  if (!samples.has(name)) {
+    samples.set(name, new Map());
+  }
+  const metricSamples = samples.get(name)!;
+  const key = serializeLabels(labels);
+  if (!metricSamples.has(key)) {
+    const { buckets } = METRIC_DEFINITIONS[name];
+    metricSamples.set(key, { labels, value: 0, ...(buckets ? { bucketCounts: buckets.map(() => 0), count: 0 } : {}) });
+  }
+  return { metricSamples, key, sample: metricSamples.get(key)! };
+};
+
+export const incrementCounter = (name: MetricName, labels: Labels, value = 1) => {
+  const { metricSamples, key, sample } = getSample(name, labels);
+  metricSamples.set(key, { ...sample, value: sample.value + value });
+};
+
+export const setGauge = (name: MetricName, labels: Labels, value: number) => {
+  const { metricSamples, key, sample } = getSample(name, labels);
+  metricSamples.set(key, { ...sample, value });
+};
+
+export const observeHistogram = (name: MetricName, labels: Labels, value: number) => {
+  const { metricSamples, key, sample } = getSample(name, labels);
+  const buckets = METRIC_DEFINITIONS[name].buckets || [];
+  metricSamples.set(key, {
+    ...sample,
+    value: sample.value + value,
+    bucketCounts: buckets.map((bucket, index) => sample.bucketCounts![index] + (value <= bucket ? 1 : 0)),
+    count: sample.count! + 1,
+  });
+};
+
+export const resetMetrics = () => samples.clear();
+
+const renderSample = (name: string, labels: Labels, value: number) => {
+  const serializedLabels = serializeLabels(labels);
+  return `${name}${serializedLabels ? `{${serializedLabels}}` : ''} ${value}`;
+};
+
+/**
+ * Renders all metrics that have at least one sample in the Prometheus text exposition format.
+ */
+export const renderMetrics = () =>
+  Object.keys(METRIC_DEFINITIONS)
+    .filter((name) => samples.has(name))
+    .map((name) => {
+      const { type, help, buckets } = METRIC_DEFINITIONS[name];
+      const lines = Array.from(samples.get(name)!.values()).flatMap(({ labels, value, bucketCounts, count }) => {
+        if (type !== 'histogram') {
+          return [renderSample(name, labels, value)];
+        }
+        // Histogram buckets are cumulative since every bucket counts the observations less than or equal to it
+        return [
+          ...buckets!.map((bucket, index) =>
+            renderSample(`${name}_bucket`, { ...labels, le: bucket.toString() }, bucketCounts![index])
+          ),
+          renderSample(`${name}_bucket`, { ...labels, le: '+Inf' }, count!),
+          renderSample(`${name}_sum`, labels, value),
+          renderSample(`${name}_count`, labels, count!),
+        ];
+      });
+      return [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`, ...lines].join('\n');
+    })
+    .join('\n')
+    .concat('\n');
@@ -0,0 +1,63 @@
+import * as utils from '@api3/airnode-utilities';
+import { scheduleCycle } from './scheduler';
+
+const logOptions: utils.LogOptions = { format: 'plain', level: 'DEBUG', meta: {} };
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('scheduleCycle', () => {
+  it('runs the cycle right away and then on every interval', async () => {
+    const cycle = jest.fn().mockResolvedValue(undefined);
+
+    const scheduledCycle = scheduleCycle('Test', 20, cycle, logOptions);
+    expect(cycle).toHaveBeenCalledTimes(1);
+    await sleep(90);
+    await scheduledCycle.stop();
+
+    expect(cycle.mock.calls.length).toBeGreaterThanOrEqual(3);
+  });
+
+  it('does not start a cycle before the previous one has finished', async () => {
+    let runningCycles = 0;
+    let maxRunningCycles = 0;
+    const cycle = jest.fn().mockImplementation(async () => {
+      runningCycles++;
+      maxRunningCycles = Math.max(maxRunningCycles, runningCycles);
+      await sleep(30);
+      runningCycles--;
+    });
+
+    const scheduledCycle = scheduleCycle('Test', 5, cycle, logOptions);
+    await sleep(100);
+    await scheduledCycle.stop();
+
+    expect(cycle.mock.calls.length).toBeGreaterThanOrEqual(2);
+    expect(maxRunningCycles).toEqual(1);
+  });
+
+  it('waits for the running cycle to finish when stopped', async () => {
+    let finished = false;
+    const cycle = jest.fn().mockImplementation(async () => {
+      await sleep(30);
+      finished = true;
+    });
+
+    const scheduledCycle = scheduleCycle('Test', 5, cycle, logOptions);
+    await scheduledCycle.stop();
+    await sleep(30);
+
+    expect(finished).toEqual(true);
+    expect(cycle).toHaveBeenCalledTimes(1);
+  });
+
+  it('logs failed cycles and keeps running', async () => {
+    const errorSpy = jest.spyOn(utils.logger, 'error').mockImplementation(() => {});
+    const cycle = jest.fn().mockRejectedValueOnce(new Error('Network error')).mockResolvedValue(undefined);
+
+    const scheduledCycle = scheduleCycle('Test', 10, cycle, logOptions);
+    await sleep(50);
+    await scheduledCycle.stop();
+
+    expect(errorSpy).toHaveBeenCalledWith('Test cycle failed', { ...logOptions, error: new Error('Network error') });
+    expect(cycle.mock.calls.length).toBeGreaterThanOrEqual(2);
+  });
+});
@@ -0,0 +1,49 @@
+import * as utils from '@api3/airnode-utilities';
+import { go } from '@api3/promise-utils';
+
+export interface ScheduledCycle {
+  stop: () => Promise<void>;
+}
+
+/**
+ * Runs the cycle right away and then every `intervalMs` milliseconds. A cycle never starts before the previous one
+ * has finished so cycles that take longer than the interval delay the next one instead of overlapping with it.
+ */
+export const scheduleCycle = (
+  name: string,
+  intervalMs: number,
+  cycle: () => Promise<unknown>,
+  logOptions: utils.LogOptions
+): ScheduledCycle => {
+  let stopped = false;
+  let timeout: NodeJS.Timeout | undefined;
+  let runningCycle: Promise<void> | undefined;
+
+  const runCycle = async () => {
+    const startedAt = Date.now();
+    const goCycle = await go(cycle);
+    if (!goCycle.success) {
+      utils.logger.error(`${name} cycle failed`, { ...logOptions, error: goCycle.error });
+    }
+    if (stopped) {
+      return;
+    }
+
+    const delayMs = Math.max(0, intervalMs - (Date.now() - startedAt));
+    timeout = setTimeout(() => {
+      runningCycle = runCycle();
+    }, delayMs);
+  };
+  runningCycle = runCycle();
+
+  return {
+    stop: async () => {
+      stopped = true;
+      if (timeout) {
+        clearTimeout(timeout);
+      }
+      // Let the cycle that is currently running finish before resolving
+      await runningCycle;
+    },
+  };
+};
@@ -0,0 +1,43 @@
+import { createSigner, isMnemonicRequired } from './index';
+
+const airnodeWalletMnemonic = 'achieve climb couple wait accident symbol spy blouse reduce foil echo label';
+const airnodeXpub =
+  'xpub6C8tvRgYkjNVaGMtpyZf4deBcUQHf7vgWUraVxY6gYiZhBYbPkFkLLWJzUUeVFdkKpVtatmXHX8kB76xgfmTpVZWbVWdq1rneaAY6a8RtbY';
+const airnodeAddress = '0xA30CA71Ba54E83127214D3271aEA8F5D6bD4Dace';
+
+describe('createSigner', () => {
+  it('creates the mnemonic signer by default', () => {
+    expect(createSigner({ airnodeWalletMnemonic }, {}).address).toEqual(airnodeAddress);
+  });
+
+  it('creates the configured signer', () => {
+    expect(createSigner({ airnodeWalletMnemonic }, { SIGNER: 'mnemonic' }).address).toEqual(airnodeAddress);
+    expect(
+      createSigner({ airnodeXpub }, { SIGNER: 'remote', REMOTE_SIGNER_URL: 'http://localhost:8090' }).address
+    ).toEqual(airnodeAddress);
+  });
+
+  it('throws if the keys required by the signer are missing', () => {
+    expect(() => createSigner({ airnodeXpub }, {})).toThrow('The mnemonic signer requires the Airnode wallet mnemonic');
+    expect(() => createSigner({ airnodeXpub }, { SIGNER: 'remote' })).toThrow(
+      "REMOTE_SIGNER_URL must be set when SIGNER is 'remote'"
+    );
+    expect(() =>
+      createSigner({ airnodeWalletMnemonic }, { SIGNER: 'remote', REMOTE_SIGNER_URL: 'http://localhost:8090' })
+    ).toThrow('The remote signer requires airnodeXpub to derive the wallet addresses');
+  });
+
+  it('throws if the signer type is unknown', () => {
+    expect(() => createSigner({ airnodeWalletMnemonic }, { SIGNER: 'kms' })).toThrow(
+      "Unknown signer type kms. Supported types are 'mnemonic' and 'remote'"
+    );
+  });
+});
+
+describe('isMnemonicRequired', () => {
+  it('returns whether the selected signer uses the mnemonic', () => {
+    expect(isMnemonicRequired({})).toBe(true);
+    expect(isMnemonicRequired({ SIGNER: 'mnemonic' })).toBe(true);
+    expect(isMnemonicRequired({ SIGNER: 'remote' })).toBe(false);
+  });
+});
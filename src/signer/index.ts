@@ -0,0 +1,38 @@
+import * as mnemonic from './mnemonic';
+import * as remote from './remote';
+import { AirnodeSigner, SignerType } from '../types';
+
+const getSignerType = (env: NodeJS.ProcessEnv) => (env.SIGNER || 'mnemonic') as SignerType;
+
+/**
+ * Returns whether the selected signer derives the keys from the Airnode mnemonic, which then has to be loaded.
+ */
+export const isMnemonicRequired = (env: NodeJS.ProcessEnv = process.env) => getSignerType(env) === 'mnemonic';
+
+/**
+ * Creates the signer selected by the SIGNER environment variable. The Airnode mnemonic is used unless it is set.
+ */
+export const createSigner = (
+  keys: { airnodeWalletMnemonic?: string; airnodeXpub?: string },
+  env: NodeJS.ProcessEnv = process.env
+): AirnodeSigner => {
+  const type = getSignerType(env);
+
+  switch (type) {
+    case 'mnemonic':
+      if (!keys.airnodeWalletMnemonic) {
+        throw new Error('The mnemonic signer requires the Airnode wallet mnemonic');
+      }
+      return mnemonic.create(keys.airnodeWalletMnemonic);
+    case 'remote':
+      if (!env.REMOTE_SIGNER_URL) {
+        throw new Error("REMOTE_SIGNER_URL must be set when SIGNER is 'remote'");
+      }
+      if (!keys.airnodeXpub) {
+        throw new Error('The remote signer requires airnodeXpub to derive the wallet addresses');
+      }
+      return remote.create(env.REMOTE_SIGNER_URL, keys.airnodeXpub);
+    default:
+      throw new Error(`Unknown signer type ${type}. Supported types are 'mnemonic' and 'remote'`);
+  }
+};
@@ -0,0 +1,27 @@
+import * as node from '@api3/airnode-node';
+import { ethers } from 'ethers';
+import { create } from './mnemonic';
+import { PROTOCOL_ID_PSP } from '../constants';
+
+describe('create', () => {
+  const airnodeWalletMnemonic = 'achieve climb couple wait accident symbol spy blouse reduce foil echo label';
+  const sponsor = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+  const signer = create(airnodeWalletMnemonic);
+
+  it('signs with the Airnode wallet', async () => {
+    const message = ethers.utils.arrayify(ethers.utils.keccak256('0x1234'));
+
+    const signature = await signer.signMessage(message);
+
+    expect(signer.address).toEqual('0xA30CA71Ba54E83127214D3271aEA8F5D6bD4Dace');
+    expect(ethers.utils.verifyMessage(message, signature)).toEqual(signer.address);
+  });
+
+  it('derives the sponsor wallets from the mnemonic', () => {
+    const sponsorWallet = signer.getSponsorWallet(sponsor, PROTOCOL_ID_PSP);
+
+    expect(sponsorWallet.address).toEqual(
+      node.evm.deriveSponsorWalletFromMnemonic(airnodeWalletMnemonic, sponsor, PROTOCOL_ID_PSP).address
+    );
+  });
+});
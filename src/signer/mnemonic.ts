@@ -0,0 +1,18 @@
+import * as node from '@api3/airnode-node';
+import { ethers } from 'ethers';
+import { AirnodeSigner } from '../types';
+
+/**
+ * Derives the Airnode wallet and the sponsor wallets from the Airnode mnemonic, which has to be available wherever
+ * this signer is used.
+ */
+export const create = (airnodeWalletMnemonic: string): AirnodeSigner => {
+  const airnodeWallet = ethers.Wallet.fromMnemonic(airnodeWalletMnemonic);
+
+  return {
+    address: airnodeWallet.address,
+    signMessage: (message) => airnodeWallet.signMessage(message),
+    getSponsorWallet: (sponsor, protocolId) =>
+      node.evm.deriveSponsorWalletFromMnemonic(airnodeWalletMnemonic, sponsor, protocolId),
+  };
+};
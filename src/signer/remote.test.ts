@@ -0,0 +1,147 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import * as node from '@api3/airnode-node';
+import { ethers } from 'ethers';
+import { create } from './remote';
+import { PROTOCOL_ID_PSP } from '../constants';
+
+const airnodeWalletMnemonic = 'achieve climb couple wait accident symbol spy blouse reduce foil echo label';
+const airnodeXpub =
+  'xpub6C8tvRgYkjNVaGMtpyZf4deBcUQHf7vgWUraVxY6gYiZhBYbPkFkLLWJzUUeVFdkKpVtatmXHX8kB76xgfmTpVZWbVWdq1rneaAY6a8RtbY';
+const sponsor = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+const transaction = {
+  type: 2,
+  chainId: 31337,
+  nonce: 3,
+  to: '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+  data: '0x1234',
+  value: 0,
+  gasLimit: 500_000,
+  maxFeePerGas: ethers.utils.parseUnits('20', 'gwei'),
+  maxPriorityFeePerGas: ethers.utils.parseUnits('3', 'gwei'),
+};
+
+const wallets = {
+  airnode: ethers.Wallet.fromMnemonic(airnodeWalletMnemonic),
+  sponsor: node.evm.deriveSponsorWalletFromMnemonic(airnodeWalletMnemonic, sponsor, PROTOCOL_ID_PSP),
+};
+const otherWallet = new ethers.Wallet(ethers.utils.keccak256('0x1234'));
+
+// Stands in for the remote signing service and signs with the wallets derived from the mnemonic. The requests are
+// recorded and another key is used when the service is expected to misbehave.
+const serveSigner = (options: { wrongKey: boolean }) => {
+  const requests: { path?: string; body: any }[] = [];
+  const server = http.createServer((req, res) => {
+    let rawBody = '';
+    req.on('data', (chunk) => (rawBody += chunk));
+    req.on('end', async () => {
+      const body = JSON.parse(rawBody);
+      requests.push({ path: req.url, body });
+      const wallet = options.wrongKey ? otherWallet : wallets[body.wallet.type as keyof typeof wallets];
+
+      if (req.url === '/sign-message') {
+        const signature = await wallet.signMessage(ethers.utils.arrayify(body.message));
+        res.end(JSON.stringify({ signature }));
+        return;
+      }
+      if (req.url === '/sign-transaction') {
+        const { type, chainId, nonce, to, data, value, gasLimit, maxFeePerGas, maxPriorityFeePerGas } =
+          ethers.utils.parseTransaction(body.unsignedTransaction);
+        const signedTransaction = await wallet.signTransaction({
+          type: type ?? undefined,
+          chainId,
+          nonce,
+          to,
+          data,
+          value,
+          gasLimit,
+          maxFeePerGas,
+          maxPriorityFeePerGas,
+        });
+        res.end(JSON.stringify({ signedTransaction }));
+        return;
+      }
+      res.statusCode = 404;
+      res.end();
+    });
+  });
+  return { server, requests };
+};
+
+const listening = (server: http.Server) =>
+  new Promise<string>((resolve) =>
+    server.listen(0, () => resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}/`))
+  );
+
+const close = (server: http.Server) => new Promise((resolve) => server.close(resolve));
+
+describe('create', () => {
+  it('derives the addresses from the xpub', () => {
+    const signer = create('http://localhost:8090', airnodeXpub);
+
+    expect(signer.address).toEqual('0xA30CA71Ba54E83127214D3271aEA8F5D6bD4Dace');
+    expect(signer.getSponsorWallet(sponsor, PROTOCOL_ID_PSP).address).toEqual(wallets.sponsor.address);
+  });
+
+  it('requests the signatures from the remote signer', async () => {
+    const { server, requests } = serveSigner({ wrongKey: false });
+    const signer = create(await listening(server), airnodeXpub);
+    const message = ethers.utils.arrayify(ethers.utils.keccak256('0x1234'));
+    const sponsorWallet = signer.getSponsorWallet(sponsor, PROTOCOL_ID_PSP);
+
+    const signature = await signer.signMessage(message);
+    const signedTransaction = await sponsorWallet.signTransaction(transaction);
+    await close(server);
+
+    expect(ethers.utils.verifyMessage(message, signature)).toEqual(signer.address);
+    expect(ethers.utils.parseTransaction(signedTransaction)).toEqual(
+      expect.objectContaining({ from: sponsorWallet.address, nonce: 3, data: '0x1234' })
+    );
+    expect(requests).toEqual([
+      {
+        path: '/sign-message',
+        body: { wallet: { type: 'airnode' }, message: ethers.utils.hexlify(message) },
+      },
+      {
+        path: '/sign-transaction',
+        body: {
+          wallet: { type: 'sponsor', sponsor, protocolId: PROTOCOL_ID_PSP },
+          unsignedTransaction: ethers.utils.serializeTransaction(transaction),
+        },
+      },
+    ]);
+  });
+
+  it('rejects signatures of other keys', async () => {
+    const { server } = serveSigner({ wrongKey: true });
+    const signer = create(await listening(server), airnodeXpub);
+    const sponsorWallet = signer.getSponsorWallet(sponsor, PROTOCOL_ID_PSP);
+
+    await expect(signer.signMessage('0x1234')).rejects.toThrow(
+      `Remote signer returned a message signature that does not belong to ${signer.address}`
+    );
+    await expect(sponsorWallet.signTransaction(transaction)).rejects.toThrow(
+      `Remote signer returned a transaction that is not the requested transaction signed by ${sponsorWallet.address}`
+    );
+    await close(server);
+  });
+
+  it('rejects transactions from other addresses', async () => {
+    const sponsorWallet = create('http://localhost:8090', airnodeXpub).getSponsorWallet(sponsor, PROTOCOL_ID_PSP);
+
+    await expect(sponsorWallet.signTransaction({ ...transaction, from: sponsor })).rejects.toThrow(
+      `Transaction from address ${sponsor} does not match the sponsor wallet ${sponsorWallet.address}`
+    );
+  });
+
+  it('rejects failed requests', async () => {
+    const server = http.createServer((_req, res) => {
+      res.statusCode = 500;
+      res.end();
+    });
+    const signer = create(await listening(server), airnodeXpub);
+
+    await expect(signer.signMessage('0x1234')).rejects.toThrow('Remote signer responded with status code 500');
+    await close(server);
+  });
+});
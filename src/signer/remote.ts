@@ -0,0 +1,149 @@
+import http from 'http';
+import https from 'https';
+import { ethers } from 'ethers';
+import { TIMEOUT_MS } from '../constants';
+import { AirnodeSigner, SponsorWallet } from '../types';
+import { deriveAirnodeAddress, deriveSponsorWalletAddress } from '../wallet';
+
+// Identifies the key the remote signer signs with
+type RemoteWallet = { type: 'airnode' } | { type: 'sponsor'; sponsor: string; protocolId: string };
+
+const postJson = <T>(url: string, body: unknown) =>
+  new Promise<T>((resolve, reject) => {
+    const request = (url.startsWith('https:') ? https : http).request(
+      url,
+      { method: 'POST', headers: { 'Content-Type': 'application/json' }, timeout: TIMEOUT_MS },
+      (res) => {
+        const chunks: Buffer[] = [];
+        res.on('data', (chunk: Buffer) => chunks.push(chunk));
+        res.on('end', () => {
+          if (!res.statusCode || res.statusCode < 200 || res.statusCode >= 300) {
+            reject(new Error(`Remote signer responded with status code ${res.statusCode}`));
+            return;
+          }
+          try {
+            resolve(JSON.parse(Buffer.concat(chunks).toString()));
+          } catch (error) {
+            reject(new Error('Remote signer responded with invalid JSON'));
+          }
+        });
+      }
+    );
+    request.on('timeout', () => request.destroy(new Error('Remote signer request timed out')));
+    request.on('error', reject);
+    request.end(JSON.stringify(body));
+  });
+
+/**
+ * Requests an EIP-191 signature of the message and verifies that it was signed by the expected address.
+ */
+const requestMessageSignature = async (
+  signerUrl: string,
+  wallet: RemoteWallet,
+  address: string,
+  message: ethers.utils.Bytes | string
+) => {
+  const { signature } = await postJson<{ signature: string }>(`${signerUrl}/sign-message`, {
+    wallet,
+    message:
+      typeof message === 'string'
+        ? ethers.utils.hexlify(ethers.utils.toUtf8Bytes(message))
+        : ethers.utils.hexlify(message),
+  });
+  if (ethers.utils.verifyMessage(message, signature) !== address) {
+    throw new Error(`Remote signer returned a message signature that does not belong to ${address}`);
+  }
+  return signature;
+};
+
+/**
+ * Requests the signature of the serialized unsigned transaction and verifies that the signed transaction is the same
+ * transaction signed by the expected address.
+ */
+const requestTransactionSignature = async (
+  signerUrl: string,
+  wallet: RemoteWallet,
+  address: string,
+  transaction: ethers.utils.UnsignedTransaction
+) => {
+  const unsignedTransaction = ethers.utils.serializeTransaction(transaction);
+  const { signedTransaction } = await postJson<{ signedTransaction: string }>(`${signerUrl}/sign-transaction`, {
+    wallet,
+    unsignedTransaction,
+  });
+  const { from, r, s, v } = ethers.utils.parseTransaction(signedTransaction);
+  if (
+    from !== address ||
+    ethers.utils.serializeTransaction(transaction, { r: r!, s: s!, v: v! }) !== ethers.utils.hexlify(signedTransaction)
+  ) {
+    throw new Error(`Remote signer returned a transaction that is not the requested transaction signed by ${address}`);
+  }
+  return signedTransaction;
+};
+
+// Contracts only accept ethers.Signer subclasses to send transactions
+class RemoteSponsorWallet extends ethers.Signer implements SponsorWallet {
+  readonly address!: string;
+  readonly provider!: ethers.providers.Provider;
+  readonly signerUrl!: string;
+  readonly wallet!: RemoteWallet;
+
+  constructor(signerUrl: string, wallet: RemoteWallet, address: string, provider?: ethers.providers.Provider) {
+    super();
+    ethers.utils.defineReadOnly(this, 'signerUrl', signerUrl);
+    ethers.utils.defineReadOnly(this, 'wallet', wallet);
+    ethers.utils.defineReadOnly(this, 'address', address);
+    ethers.utils.defineReadOnly(this, 'provider', provider as ethers.providers.Provider);
+  }
+
+  getAddress() {
+    return Promise.resolve(this.address);
+  }
+
+  signMessage(message: ethers.utils.Bytes | string) {
+    return requestMessageSignature(this.signerUrl, this.wallet, this.address, message);
+  }
+
+  async signTransaction(transaction: ethers.providers.TransactionRequest) {
+    const { from, ...unsignedTransaction } = await ethers.utils.resolveProperties(transaction);
+    if (from && ethers.utils.getAddress(from) !== this.address) {
+      throw new Error(`Transaction from address ${from} does not match the sponsor wallet ${this.address}`);
+    }
+    return requestTransactionSignature(
+      this.signerUrl,
+      this.wallet,
+      this.address,
+      unsignedTransaction as ethers.utils.UnsignedTransaction
+    );
+  }
+
+  connect(provider: ethers.providers.Provider) {
+    return new RemoteSponsorWallet(this.signerUrl, this.wallet, this.address, provider);
+  }
+}
+
+/**
+ * Signs with keys that are held by a remote signing service (e.g. backed by an HSM or a KMS) over HTTP. The addresses
+ * are derived from the extended public key of the Airnode so only signing requires a request:
+ *
+ * - `POST /sign-message` with `{ wallet, message }` responds with `{ signature }`, the EIP-191 signature of the message
+ * - `POST /sign-transaction` with `{ wallet, unsignedTransaction }` responds with `{ signedTransaction }`
+ *
+ * `wallet` is either `{ type: 'airnode' }` or `{ type: 'sponsor', sponsor, protocolId }` and all bytes are hex encoded.
+ * Every signature is verified before it is used.
+ */
+export const create = (signerUrl: string, airnodeXpub: string): AirnodeSigner => {
+  const baseUrl = signerUrl.replace(/\/$/, '');
+  const address = deriveAirnodeAddress(airnodeXpub);
+
+  return {
+    address,
+    signMessage: (message) => requestMessageSignature(baseUrl, { type: 'airnode' }, address, message),
+    getSponsorWallet: (sponsor, protocolId) =>
+      new RemoteSponsorWallet(
+        baseUrl,
+        { type: 'sponsor', sponsor, protocolId },
+        deriveSponsorWalletAddress(airnodeXpub, sponsor, protocolId)
+      ),
+  };
+};
@@ -0,0 +1,58 @@
+import AWS from 'aws-sdk';
+import * as dynamodb from './dynamodb';
+
+const runState = {
+  apiValue: '723.39202',
+  txHash: '0x3f2bd7f5ab1bd2c3e1f6d4ba0cd06f3dcb24ff6f3f7e0f2f06f3a1b5a76c8a10',
+  nonce: 3,
+  timestamp: 1_650_000_000,
+  status: 'pending' as const,
+};
+
+const awsRequest = (data: unknown) => ({ promise: () => Promise.resolve(data) } as any);
+
+describe('dynamodb state store', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('puts the run state keyed by kind and id', async () => {
+    const putSpy = jest.spyOn(AWS.DynamoDB.DocumentClient.prototype, 'put').mockReturnValue(awsRequest({}));
+
+    await dynamodb.create('airkeeper-state').set('subscription', '0x1', runState);
+
+    expect(putSpy).toHaveBeenCalledWith({
+      TableName: 'airkeeper-state',
+      Item: { id: 'subscription#0x1', kind: 'subscription', ...runState },
+    });
+  });
+
+  it('gets the run state', async () => {
+    const getSpy = jest
+      .spyOn(AWS.DynamoDB.DocumentClient.prototype, 'get')
+      .mockReturnValue(awsRequest({ Item: { id: 'rrpBeacon#0x1', kind: 'rrpBeacon', ...runState } }));
+
+    await expect(dynamodb.create('airkeeper-state').get('rrpBeacon', '0x1')).resolves.toEqual(runState);
+    expect(getSpy).toHaveBeenCalledWith({ TableName: 'airkeeper-state', Key: { id: 'rrpBeacon#0x1' } });
+  });
+
+  it('gets the optional fields of the run state', async () => {
+    const fullRunState = {
+      ...runState,
+      status: 'reverted',
+      revertReason: 'Timestamp not valid',
+      fulfillmentTimestamp: 1,
+    };
+    jest
+      .spyOn(AWS.DynamoDB.DocumentClient.prototype, 'get')
+      .mockReturnValue(awsRequest({ Item: { id: 'subscription#0x1', kind: 'subscription', ...fullRunState } }));
+
+    await expect(dynamodb.create('airkeeper-state').get('subscription', '0x1')).resolves.toEqual(fullRunState);
+  });
+
+  it('returns null if there is no run state', async () => {
+    jest.spyOn(AWS.DynamoDB.DocumentClient.prototype, 'get').mockReturnValue(awsRequest({}));
+
+    await expect(dynamodb.create('airkeeper-state').get('rrpBeacon', '0x1')).resolves.toBeNull();
+  });
+});
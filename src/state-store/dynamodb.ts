@@ -0,0 +1,37 @@
+import AWS from 'aws-sdk';
+import { RunState, RunStateKind, StateStore } from '../types';
+
+const toKey = (kind: RunStateKind, id: string) => ({ id: `${kind}#${id}` });
+
+/**
+ * Stores the run state in a DynamoDB table with a string partition key named `id`. The endpoint can be set to use a
+ * DynamoDB compatible database such as DynamoDB Local.
+ */
+export const create = (tableName: string, endpoint?: string): StateStore => {
+  // Uses the current region by default
+  const documentClient = new AWS.DynamoDB.DocumentClient(endpoint ? { endpoint } : {});
+
+  return {
+    get: async (kind, id) => {
+      const { Item } = await documentClient.get({ TableName: tableName, Key: toKey(kind, id) }).promise();
+      if (!Item) {
+        return null;
+      }
+      const { apiValue, txHash, nonce, timestamp, status, revertReason, cancelled, fulfillmentTimestamp } =
+        Item as RunState;
+      return {
+        apiValue,
+        txHash,
+        nonce,
+        timestamp,
+        status,
+        ...(revertReason ? { revertReason } : {}),
+        ...(cancelled ? { cancelled } : {}),
+        ...(fulfillmentTimestamp ? { fulfillmentTimestamp } : {}),
+      };
+    },
+    set: async (kind, id, runState) => {
+      await documentClient.put({ TableName: tableName, Item: { ...toKey(kind, id), kind, ...runState } }).promise();
+    },
+  };
+};
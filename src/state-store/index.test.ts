@@ -0,0 +1,75 @@
+import { StateStore } from '../types';
+import { createStateStore, loadRunState, saveRunState } from './index';
+
+const runState = {
+  apiValue: '723.39202',
+  txHash: '0x3f2bd7f5ab1bd2c3e1f6d4ba0cd06f3dcb24ff6f3f7e0f2f06f3a1b5a76c8a10',
+  nonce: 3,
+  timestamp: 1_650_000_000,
+  status: 'pending' as const,
+};
+
+describe('createStateStore', () => {
+  it('returns null if no state store is configured', () => {
+    expect(createStateStore({})).toBeNull();
+  });
+
+  it('creates the configured state store', () => {
+    expect(createStateStore({ STATE_STORE: 'local', STATE_STORE_PATH: '/tmp/state.json' })).toEqual({
+      get: expect.any(Function),
+      set: expect.any(Function),
+    });
+    expect(createStateStore({ STATE_STORE: 'dynamodb', DYNAMODB_ENDPOINT: 'http://localhost:8000' })).toEqual({
+      get: expect.any(Function),
+      set: expect.any(Function),
+    });
+  });
+
+  it('throws if the state store type is unknown', () => {
+    expect(() => createStateStore({ STATE_STORE: 'sqlite' })).toThrow(
+      "Unknown state store type sqlite. Supported types are 'local' and 'dynamodb'"
+    );
+  });
+});
+
+describe('loadRunState', () => {
+  it('returns null without a state store', async () => {
+    await expect(loadRunState(null, 'subscription', '0x1')).resolves.toEqual([[], null]);
+  });
+
+  it('returns the stored run state', async () => {
+    const stateStore: StateStore = { get: jest.fn().mockResolvedValue(runState), set: jest.fn() };
+
+    await expect(loadRunState(stateStore, 'subscription', '0x1')).resolves.toEqual([[], runState]);
+    expect(stateStore.get).toHaveBeenCalledWith('subscription', '0x1');
+  });
+
+  it('returns a warning if the state store fails', async () => {
+    const stateStore: StateStore = { get: jest.fn().mockRejectedValue(new Error('Unavailable')), set: jest.fn() };
+
+    const [logs, data] = await loadRunState(stateStore, 'subscription', '0x1');
+    expect(logs).toEqual([{ level: 'WARN', message: 'Failed to load run state', error: new Error('Unavailable') }]);
+    expect(data).toBeNull();
+  });
+});
+
+describe('saveRunState', () => {
+  it('does nothing without a state store', async () => {
+    await expect(saveRunState(null, 'rrpBeacon', '0x1', runState)).resolves.toEqual([[], false]);
+  });
+
+  it('saves the run state', async () => {
+    const stateStore: StateStore = { get: jest.fn(), set: jest.fn().mockResolvedValue(undefined) };
+
+    await expect(saveRunState(stateStore, 'rrpBeacon', '0x1', runState)).resolves.toEqual([[], true]);
+    expect(stateStore.set).toHaveBeenCalledWith('rrpBeacon', '0x1', runState);
+  });
+
+  it('returns a warning if the state store fails', async () => {
+    const stateStore: StateStore = { get: jest.fn(), set: jest.fn().mockRejectedValue(new Error('Unavailable')) };
+
+    const [logs, data] = await saveRunState(stateStore, 'rrpBeacon', '0x1', runState);
+    expect(logs).toEqual([{ level: 'WARN', message: 'Failed to save run state', error: new Error('Unavailable') }]);
+    expect(data).toEqual(false);
+  });
+});
@@ -0,0 +1,66 @@
+import path from 'path';
+import * as node from '@api3/airnode-node';
+import * as utils from '@api3/airnode-utilities';
+import { go } from '@api3/promise-utils';
+import * as dynamodb from './dynamodb';
+import * as local from './local';
+import { TIMEOUT_MS } from '../constants';
+import { RunState, RunStateKind, StateStore, StateStoreType } from '../types';
+
+export const DEFAULT_STATE_STORE_PATH = path.resolve(__dirname, '..', '..', 'config', 'airkeeper-state.json');
+export const DEFAULT_STATE_STORE_TABLE = 'airkeeper-state';
+
+/**
+ * Creates the state store selected by the STATE_STORE environment variable. Run state is not persisted unless it is set.
+ */
+export const createStateStore = (env: NodeJS.ProcessEnv = process.env): StateStore | null => {
+  const type = env.STATE_STORE as StateStoreType | undefined;
+  if (!type) {
+    return null;
+  }
+
+  switch (type) {
+    case 'local':
+      return local.create(env.STATE_STORE_PATH || DEFAULT_STATE_STORE_PATH);
+    case 'dynamodb':
+      return dynamodb.create(env.STATE_STORE_TABLE || DEFAULT_STATE_STORE_TABLE, env.DYNAMODB_ENDPOINT);
+    default:
+      throw new Error(`Unknown state store type ${type}. Supported types are 'local' and 'dynamodb'`);
+  }
+};
+
+export const loadRunState = async (
+  stateStore: StateStore | null,
+  kind: RunStateKind,
+  id: string
+): Promise<node.LogsData<RunState | null>> => {
+  if (!stateStore) {
+    return [[], null];
+  }
+
+  const goGet = await go(() => stateStore.get(kind, id), { attemptTimeoutMs: TIMEOUT_MS });
+  if (!goGet.success) {
+    const log = utils.logger.pend('WARN', 'Failed to load run state', goGet.error);
+    return [[log], null];
+  }
+  return [[], goGet.data];
+};
+
+export const saveRunState = async (
+  stateStore: StateStore | null,
+  kind: RunStateKind,
+  id: string,
+  runState: RunState
+): Promise<node.LogsData<boolean>> => {
+  if (!stateStore) {
+    return [[], false];
+  }
+
+  // Failing to persist the run state is not critical since the transaction has already been submitted
+  const goSet = await go(() => stateStore.set(kind, id, runState), { attemptTimeoutMs: TIMEOUT_MS });
+  if (!goSet.success) {
+    const log = utils.logger.pend('WARN', 'Failed to save run state', goSet.error);
+    return [[log], false];
+  }
+  return [[], true];
+};
@@ -0,0 +1,56 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import range from 'lodash/range';
+import * as local from './local';
+
+const runState = {
+  apiValue: '723.39202',
+  txHash: '0x3f2bd7f5ab1bd2c3e1f6d4ba0cd06f3dcb24ff6f3f7e0f2f06f3a1b5a76c8a10',
+  nonce: 3,
+  timestamp: 1_650_000_000,
+  status: 'pending' as const,
+};
+
+describe('local state store', () => {
+  let directory: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'airkeeper-state-'));
+    filePath = path.join(directory, 'nested', 'state.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('returns null if nothing has been stored yet', async () => {
+    const stateStore = local.create(filePath);
+
+    await expect(stateStore.get('subscription', '0x1')).resolves.toBeNull();
+  });
+
+  it('stores the run state per kind and id', async () => {
+    const stateStore = local.create(filePath);
+
+    await stateStore.set('subscription', '0x1', runState);
+    await stateStore.set('rrpBeacon', '0x1', { ...runState, nonce: 4 });
+
+    await expect(stateStore.get('subscription', '0x1')).resolves.toEqual(runState);
+    await expect(stateStore.get('rrpBeacon', '0x1')).resolves.toEqual({ ...runState, nonce: 4 });
+    // The run state persists across store instances
+    await expect(local.create(filePath).get('subscription', '0x1')).resolves.toEqual(runState);
+  });
+
+  it('does not lose concurrent writes', async () => {
+    const stateStore = local.create(filePath);
+
+    await Promise.all(
+      range(10).map((index) => stateStore.set('subscription', `0x${index}`, { ...runState, nonce: index }))
+    );
+
+    const runStates = await Promise.all(range(10).map((index) => stateStore.get('subscription', `0x${index}`)));
+    expect(runStates.map((storedRunState) => storedRunState?.nonce)).toEqual(range(10));
+  });
+});
@@ -0,0 +1,45 @@
+import fs from 'fs';
+import path from 'path';
+import { RunState, RunStateKind, StateStore } from '../types';
+
+type RunStates = { [kind in RunStateKind]?: { [id: string]: RunState } };
+
+// Writes to the same file are queued so that concurrent workers of the same process do not overwrite each other
+const writeQueues = new Map<string, Promise<void>>();
+
+const readRunStates = async (filePath: string): Promise<RunStates> => {
+  if (!fs.existsSync(filePath)) {
+    return {};
+  }
+  return JSON.parse(await fs.promises.readFile(filePath, 'utf8'));
+};
+
+const writeRunState = async (filePath: string, kind: RunStateKind, id: string, runState: RunState) => {
+  const runStates = await readRunStates(filePath);
+  const updatedRunStates = { ...runStates, [kind]: { ...runStates[kind], [id]: runState } };
+
+  // The file is replaced in a single step so that it is never left partially written
+  const tmpFilePath = `${filePath}.tmp`;
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.promises.writeFile(tmpFilePath, JSON.stringify(updatedRunStates, null, 2));
+  await fs.promises.rename(tmpFilePath, filePath);
+};
+
+/**
+ * Stores the run state in a local JSON file. Only suitable for a single long-running process (e.g. the daemon) since
+ * the file is not shared between Lambda invocations.
+ */
+export const create = (filePath: string): StateStore => ({
+  get: async (kind, id) => {
+    const runStates = await readRunStates(filePath);
+    return runStates[kind]?.[id] || null;
+  },
+  set: (kind, id, runState) => {
+    const write = (writeQueues.get(filePath) || Promise.resolve())
+      // A failed write is reported to its own caller and must not block the following ones
+      .catch(() => undefined)
+      .then(() => writeRunState(filePath, kind, id, runState));
+    writeQueues.set(filePath, write);
+    return write;
+  },
+});
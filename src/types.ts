@@ -2,6 +2,11 @@ import * as node from '@api3/airnode-node';
 import * as utils from '@api3/airnode-utilities';
 import { ethers } from 'ethers';
 import {
+  Aggregation,
+  Aggregations,
+  BeaconSet,
+  BeaconSets,
+  Trigger,
   Triggers,
   Subscription,
   Subscriptions,
@@ -25,24 +30,44 @@ export interface Config extends node.Config {
   readonly triggers: node.Triggers & Triggers;
   readonly subscriptions: Subscriptions;
   readonly templates: Templates;
+  readonly aggregations: Aggregations;
+  readonly beaconSets: BeaconSets;
   readonly endpoints: Endpoints;
 }
 
-export interface LogsAndApiValuesByBeaconId {
-  [beaconId: string]: {
-    logs: utils.PendingLog[];
-    apiValue: ethers.BigNumber | null;
-  };
-}
-
 export interface BaseState {
   config: Config;
   baseLogOptions: utils.LogOptions;
+  dryRun: boolean;
+}
+export type WorkerType = 'local' | 'aws';
+
+// Loaded once by the daemon and shared with the local workers and the RRP cycles so that they are not loaded on every
+// cycle
+export interface LocalWorkerResources {
+  airnodeSigner: AirnodeSigner;
+  stateStore: StateStore | null;
 }
+
 export interface State extends BaseState {
+  workerType: WorkerType;
+  localWorkerResources?: LocalWorkerResources;
+  airnodeAddress: string;
+  subscriptionIds: string[];
   groupedSubscriptions: GroupedSubscriptions[];
-  apiValuesBySubscriptionId: { [subscriptionId: string]: ethers.BigNumber };
+  apiValuesBySubscriptionId: { [subscriptionId: string]: ApiValue };
+  beaconSets: Id<BeaconSet>[];
   providerStates: ProviderState<EVMBaseState>[];
+  plannedTransactions: (PspPlannedTransaction | BeaconSetPlannedTransaction)[];
+}
+
+export interface RrpState extends BaseState {
+  stateStore: StateStore | null;
+  airnodeSigner: AirnodeSigner;
+  rrpBeaconServerKeeperJobs: RrpBeaconServerKeeperJob[];
+  apiValuesByBeaconId: { [beaconId: string]: ethers.BigNumber };
+  providerStates: ProviderState<EVMProviderState & { airnodeSigner: AirnodeSigner }>[];
+  plannedTransactions: RrpPlannedTransaction[];
 }
 
 export type ProviderState<T extends {}> = T & {
@@ -57,6 +82,11 @@ export interface EVMBaseState {
   gasTarget: node.GasTarget;
 }
 
+export interface NamedProvider {
+  providerName: string;
+  provider: ethers.providers.Provider;
+}
+
 export interface EVMProviderState extends EVMBaseState {
   provider: ethers.providers.Provider;
   contracts: { [name: string]: ethers.Contract };
@@ -67,41 +97,139 @@ export type Id<T> = T & {
   id: string;
 };
 
-export interface GroupedSubscriptions {
-  subscriptions: Id<Subscription>[];
+export interface TemplateSource {
   template: Id<Template>;
   endpoint: Id<Endpoint>;
 }
 
+export interface GroupedSubscriptions extends TemplateSource {
+  subscriptions: Id<Subscription>[];
+  // Set when the value of the template is aggregated from the API values of several source templates
+  aggregation?: Aggregation & { sources: TemplateSource[] };
+}
+
+export interface RrpBeaconServerKeeperJob extends Trigger {
+  beaconId: string;
+  encodedParameters: string;
+}
+
+// API values keep the type set by the '_type' reserved parameter and are serialized the same way Airnode serializes
+// them so that they can be safely passed to workers. `encodedValue` is the ABI-encoded fulfillment data.
+export interface ApiValue {
+  type: string;
+  values: unknown[];
+  encodedValue: string;
+}
+
 export interface CheckedSubscription extends Id<Subscription> {
-  apiValue: ethers.BigNumber;
+  apiValue: ApiValue;
 }
 
 export interface SponsorWalletTransactionCount {
-  sponsorWallet: ethers.Wallet;
+  sponsorWallet: SponsorWallet;
   transactionCount: number;
+  balance: ethers.BigNumber;
 }
 
 export interface SponsorSubscriptions {
   sponsorAddress: string;
   subscriptions: Id<CheckedSubscription>[];
+  // Beacon sets are updated with the same sponsor wallet after the subscriptions have been fulfilled
+  beaconSets: Id<BeaconSet>[];
 }
 
+// The provider state is the healthiest provider of the chain and the rest of providers of the same chain are only
+// used when it fails
 export interface ProviderSponsorSubscriptionsState extends SponsorSubscriptions {
   providerState: ProviderState<EVMBaseState>;
+  fallbackProviderStates: ProviderState<EVMBaseState>[];
 }
 
 export interface ProviderSponsorProcessSubscriptionsState extends SponsorSubscriptions {
-  providerState: ProviderState<EVMProviderState & { airnodeWallet: ethers.Wallet }>;
+  providerState: ProviderState<EVMProviderState & { airnodeSigner: AirnodeSigner }>;
+  fallbackProviderStates: ProviderState<EVMProviderState & { airnodeSigner: AirnodeSigner }>[];
 }
 
 export interface WorkerParameters {
   providerSponsorSubscriptions: ProviderSponsorSubscriptionsState;
+  airnodeXpub?: string;
   baseLogOptions: utils.LogOptions;
+  dryRun: boolean;
   stage: string;
 }
+
+// Transactions that would have been submitted when running in dry run mode.
+// Values are serialized as strings to be safely returned by workers and handlers.
+export interface PlannedTransaction {
+  chainId: string;
+  providerName: string;
+  sponsorWallet: string;
+  nonce: number;
+  apiValue: string;
+  gasLimit: string;
+  gasTarget: { [key: string]: string };
+}
+
+export interface PspPlannedTransaction extends PlannedTransaction {
+  subscriptionId: string;
+}
+
+export interface BeaconSetPlannedTransaction extends PlannedTransaction {
+  beaconSetId: string;
+}
+
+export interface RrpPlannedTransaction extends PlannedTransaction {
+  beaconId: string;
+}
+
+export type StateStoreType = 'local' | 'dynamodb';
+
+// Run state is kept per PSP subscription, per PSP beacon set and per RRP beacon
+export type RunStateKind = 'subscription' | 'beaconSet' | 'rrpBeacon';
+
+export type TransactionStatus = 'pending' | 'confirmed' | 'reverted' | 'dropped';
+
+// The last update submitted by Airkeeper. Timestamp is in seconds
+export interface RunState {
+  apiValue: string;
+  txHash: string;
+  nonce: number;
+  timestamp: number;
+  status: TransactionStatus;
+  revertReason?: string;
+  // Set when the transaction cancels a stuck transaction instead of updating the beacon
+  cancelled?: boolean;
+  // Timestamp signed into the PSP fulfillment data, which DapiServer only accepts for a limited time
+  fulfillmentTimestamp?: number;
+}
+
+export interface StateStore {
+  get: (kind: RunStateKind, id: string) => Promise<RunState | null>;
+  set: (kind: RunStateKind, id: string, runState: RunState) => Promise<void>;
+}
+
+export type SignerType = 'mnemonic' | 'remote';
+
+// An ethers signer whose address is known without a request, such as an ethers.Wallet
+export interface SponsorWallet extends ethers.Signer {
+  readonly address: string;
+  readonly provider: ethers.providers.Provider;
+  connect: (provider: ethers.providers.Provider) => SponsorWallet;
+}
+
+// Signs with the keys of the Airnode, which are either derived from the mnemonic or held by a remote signer
+export interface AirnodeSigner {
+  readonly address: string;
+  signMessage: (message: ethers.utils.Bytes | string) => Promise<string>;
+  getSponsorWallet: (sponsor: string, protocolId: string) => SponsorWallet;
+}
+
 export type CallApiResult = node.LogsData<{
   templateId: string;
-  apiValue: ethers.BigNumber | null;
+  apiValue: ApiValue | null;
   subscriptions: Id<Subscription>[];
 }>;
+export type RrpCallApiResult = node.LogsData<{
+  beaconId: string;
+  apiValue: ethers.BigNumber | null;
+}>;
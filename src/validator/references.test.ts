@@ -0,0 +1,114 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import * as node from '@api3/airnode-node';
+import { findReferenceProblems } from './references';
+import { AirkeeperConfig } from './validator';
+
+describe('findReferenceProblems', () => {
+  const airnodeConfig: node.Config = JSON.parse(
+    readFileSync(join(__dirname, '../../config/config.example.json')).toString()
+  );
+  const airkeeperConfig: AirkeeperConfig = JSON.parse(
+    readFileSync(join(__dirname, '../../config/airkeeper.example.json')).toString()
+  );
+  const [chain] = airkeeperConfig.chains;
+  const { AirnodeProtocol, ...contracts } = chain.contracts;
+  const [[subscriptionId, subscription]] = Object.entries(airkeeperConfig.subscriptions);
+  const [[templateId, template]] = Object.entries(airkeeperConfig.templates);
+  const [[endpointId, endpoint]] = Object.entries(airkeeperConfig.endpoints);
+  const [job] = airkeeperConfig.triggers.rrpBeaconServerKeeperJobs;
+  const missingId = '0x' + '1'.repeat(64);
+  const unknownEndpointId = '0x' + '2'.repeat(64);
+
+  it('returns no problems for consistent configs', () => {
+    expect(AirnodeProtocol).toBeDefined();
+    expect(findReferenceProblems(airnodeConfig, airkeeperConfig)).toEqual([]);
+  });
+
+  it('returns every dangling reference with its path', () => {
+    const problems = findReferenceProblems(airnodeConfig, {
+      ...airkeeperConfig,
+      chains: [
+        { ...chain, contracts },
+        { ...chain, id: '1', contracts },
+      ],
+      triggers: {
+        rrpBeaconServerKeeperJobs: [{ ...job, chainIds: ['31337', '5'], endpointId: missingId }],
+        protoPsp: [subscriptionId, missingId],
+      },
+      subscriptions: { [subscriptionId]: { ...subscription, chainId: '5', templateId: missingId } },
+      templates: { [templateId]: { ...template, endpointId: missingId } },
+      aggregations: { [templateId]: { templateIds: [templateId, missingId], method: 'median', minimumResponses: 1 } },
+      beaconSets: {
+        [missingId]: {
+          chainIds: ['5'],
+          beaconIds: [missingId, missingId],
+          deviationPercentage: '1',
+          sponsor: subscription.sponsor,
+        },
+      },
+      endpoints: {
+        [endpointId]: endpoint,
+        [unknownEndpointId]: { ...endpoint, oisTitle: 'Unknown API' },
+        [templateId]: { ...endpoint, endpointName: 'convertToEUR' },
+      },
+    });
+
+    expect(problems).toEqual([
+      'chains[1].id: Chain ID 1 not found in config.json',
+      'triggers.rrpBeaconServerKeeperJobs[0].chainIds[1]: Chain ID 5 not found in chains',
+      `triggers.rrpBeaconServerKeeperJobs[0].endpointId: EndpointId ${missingId} not found in endpoints`,
+      `triggers.protoPsp[1]: SubscriptionId ${missingId} not found in subscriptions`,
+      `subscriptions.${subscriptionId}.chainId: Chain ID 5 not found in chains`,
+      `subscriptions.${subscriptionId}.templateId: TemplateId ${missingId} not found in templates`,
+      `templates.${templateId}.endpointId: EndpointId ${missingId} not found in endpoints`,
+      `aggregations.${templateId}.templateIds[1]: TemplateId ${missingId} not found in templates`,
+      `beaconSets.${missingId}.chainIds[0]: Chain ID 5 not found in chains`,
+      `endpoints.${unknownEndpointId}.oisTitle: OIS Unknown API not found in config.json`,
+      `endpoints.${templateId}.endpointName: Endpoint convertToEUR not found in OIS Currency Converter API of config.json`,
+    ]);
+  });
+
+  it('does not report subscriptions and templates that can be fetched from AirnodeProtocol', () => {
+    const problems = findReferenceProblems(airnodeConfig, {
+      ...airkeeperConfig,
+      triggers: { ...airkeeperConfig.triggers, protoPsp: [missingId] },
+      subscriptions: { [subscriptionId]: { ...subscription, templateId: missingId } },
+    });
+
+    expect(problems).toEqual([]);
+  });
+
+  it('reports subscriptions and beacon sets on chains without AirnodeProtocol', () => {
+    const problems = findReferenceProblems(airnodeConfig, {
+      ...airkeeperConfig,
+      chains: [{ ...chain, contracts }],
+      beaconSets: {
+        [missingId]: {
+          chainIds: ['31337'],
+          beaconIds: [missingId, missingId],
+          deviationPercentage: '1',
+          sponsor: subscription.sponsor,
+        },
+      },
+    });
+
+    expect(problems).toEqual(
+      expect.arrayContaining([
+        `subscriptions.${subscriptionId}.chainId: Chain ID 31337 has no AirnodeProtocol contract to verify the PSP sponsorship status`,
+        `beaconSets.${missingId}.chainIds[0]: Chain ID 31337 has no AirnodeProtocol contract to verify the PSP sponsorship status`,
+      ])
+    );
+  });
+
+  it('reports endpoints that are not in the triggers of config.json', () => {
+    const problems = findReferenceProblems(
+      { ...airnodeConfig, triggers: { rrp: [], http: [], httpSignedData: [] } },
+      airkeeperConfig
+    );
+
+    expect(problems).toEqual([
+      `endpoints.${endpointId}: Endpoint convertToUSD of OIS Currency Converter API not found in the triggers of config.json`,
+    ]);
+  });
+});
@@ -0,0 +1,109 @@
+import * as node from '@api3/airnode-node';
+import { AirkeeperConfig, formatIssuePath } from './validator';
+
+interface ReferenceProblem {
+  path: (string | number)[];
+  message: string;
+}
+
+const problem = (path: (string | number)[], message: string): ReferenceProblem[] => [{ path, message }];
+
+/**
+ * Finds the entries of airkeeper.json that reference something that does not exist in either config file. Subscriptions
+ * and templates that are missing from airkeeper.json are only reported when no chain has an AirnodeProtocol contract
+ * to fetch them from. Subscriptions and beacon sets are also reported when their chain has no AirnodeProtocol contract
+ * since the PSP sponsorship status cannot be verified and they would be skipped at runtime.
+ */
+export const findReferenceProblems = (airnodeConfig: node.Config, airkeeperConfig: AirkeeperConfig): string[] => {
+  const { chains, triggers, subscriptions, templates, aggregations, beaconSets, endpoints } = airkeeperConfig;
+
+  const airnodeChainIds = airnodeConfig.chains.map(({ id }) => id);
+  const chainIds = chains.map(({ id }) => id);
+  const canFetchFromAirnodeProtocol = chains.some(({ contracts }) => contracts.AirnodeProtocol);
+  const airnodeTriggers = [
+    ...airnodeConfig.triggers.rrp,
+    ...(airnodeConfig.triggers.http || []),
+    ...(airnodeConfig.triggers.httpSignedData || []),
+  ];
+
+  const checkChainIds = (path: (string | number)[], referencedChainIds: string[]) =>
+    referencedChainIds.flatMap((chainId, index) =>
+      chainIds.includes(chainId) ? [] : problem([...path, index], `Chain ID ${chainId} not found in chains`)
+    );
+
+  const chainIdsWithoutAirnodeProtocol = chains
+    .filter(({ contracts }) => !contracts.AirnodeProtocol)
+    .map(({ id }) => id);
+  const checkAirnodeProtocol = (path: (string | number)[], chainId: string) =>
+    chainIdsWithoutAirnodeProtocol.includes(chainId)
+      ? problem(path, `Chain ID ${chainId} has no AirnodeProtocol contract to verify the PSP sponsorship status`)
+      : [];
+
+  const checkTemplateId = (path: (string | number)[], templateId: string) =>
+    templates[templateId] || canFetchFromAirnodeProtocol
+      ? []
+      : problem(path, `TemplateId ${templateId} not found in templates`);
+
+  const problems = [
+    ...chains.flatMap(({ id }, index) =>
+      airnodeChainIds.includes(id) ? [] : problem(['chains', index, 'id'], `Chain ID ${id} not found in config.json`)
+    ),
+    ...triggers.rrpBeaconServerKeeperJobs.flatMap(({ chainIds: jobChainIds, endpointId }, index) => [
+      ...checkChainIds(['triggers', 'rrpBeaconServerKeeperJobs', index, 'chainIds'], jobChainIds),
+      ...(endpoints[endpointId]
+        ? []
+        : problem(
+            ['triggers', 'rrpBeaconServerKeeperJobs', index, 'endpointId'],
+            `EndpointId ${endpointId} not found in endpoints`
+          )),
+    ]),
+    ...triggers.protoPsp.flatMap((subscriptionId, index) =>
+      subscriptions[subscriptionId] || canFetchFromAirnodeProtocol
+        ? []
+        : problem(['triggers', 'protoPsp', index], `SubscriptionId ${subscriptionId} not found in subscriptions`)
+    ),
+    ...Object.entries(subscriptions).flatMap(([subscriptionId, { chainId, templateId }]) => [
+      ...(chainIds.includes(chainId)
+        ? []
+        : problem(['subscriptions', subscriptionId, 'chainId'], `Chain ID ${chainId} not found in chains`)),
+      ...checkAirnodeProtocol(['subscriptions', subscriptionId, 'chainId'], chainId),
+      ...checkTemplateId(['subscriptions', subscriptionId, 'templateId'], templateId),
+    ]),
+    ...Object.entries(templates).flatMap(([templateId, { endpointId }]) =>
+      endpoints[endpointId]
+        ? []
+        : problem(['templates', templateId, 'endpointId'], `EndpointId ${endpointId} not found in endpoints`)
+    ),
+    ...Object.entries(aggregations || {}).flatMap(([templateId, { templateIds }]) =>
+      templateIds.flatMap((sourceTemplateId, index) =>
+        checkTemplateId(['aggregations', templateId, 'templateIds', index], sourceTemplateId)
+      )
+    ),
+    ...Object.entries(beaconSets || {}).flatMap(([beaconSetId, beaconSet]) => [
+      ...checkChainIds(['beaconSets', beaconSetId, 'chainIds'], beaconSet.chainIds),
+      ...beaconSet.chainIds.flatMap((chainId, index) =>
+        checkAirnodeProtocol(['beaconSets', beaconSetId, 'chainIds', index], chainId)
+      ),
+    ]),
+    ...Object.entries(endpoints).flatMap(([endpointId, { oisTitle, endpointName }]) => {
+      const ois = airnodeConfig.ois.find(({ title }) => title === oisTitle);
+      if (!ois) {
+        return problem(['endpoints', endpointId, 'oisTitle'], `OIS ${oisTitle} not found in config.json`);
+      }
+      if (!ois.endpoints.some(({ name }) => name === endpointName)) {
+        return problem(
+          ['endpoints', endpointId, 'endpointName'],
+          `Endpoint ${endpointName} not found in OIS ${oisTitle} of config.json`
+        );
+      }
+      return airnodeTriggers.some((trigger) => trigger.oisTitle === oisTitle && trigger.endpointName === endpointName)
+        ? []
+        : problem(
+            ['endpoints', endpointId],
+            `Endpoint ${endpointName} of OIS ${oisTitle} not found in the triggers of config.json`
+          );
+    }),
+  ];
+
+  return problems.map(({ path, message }) => `${formatIssuePath(path)}: ${message}`);
+};
@@ -1,7 +1,7 @@
 import { readFileSync } from 'fs';
 import { join } from 'path';
 import { ZodError } from 'zod';
-import { configSchema, validateConfig } from './validator';
+import { configSchema, formatIssuePath, formatValidationIssues, validateConfig } from './validator';
 
 describe('validator', () => {
   const airkeeperConfig = JSON.parse(readFileSync(join(__dirname, '../../config/airkeeper.example.json')).toString());
@@ -88,4 +88,92 @@ describe('validator', () => {
       });
     });
   });
+
+  describe('strict fields', () => {
+    const [subscriptionId] = Object.keys(airkeeperConfig.subscriptions);
+
+    it('reports every invalid field with a readable path', () => {
+      const [chain] = airkeeperConfig.chains;
+      const [job] = airkeeperConfig.triggers.rrpBeaconServerKeeperJobs;
+      const subscription = airkeeperConfig.subscriptions[subscriptionId];
+      const validationOutput = validateConfig({
+        ...airkeeperConfig,
+        airnodeXpub: 'xpub',
+        chains: [{ ...chain, id: 'hardhat', contracts: { ...chain.contracts, DapiServer: '0x1234' } }],
+        triggers: {
+          ...airkeeperConfig.triggers,
+          rrpBeaconServerKeeperJobs: [
+            { ...job, deviationPercentage: '0.001', templateParameters: [{ type: 'foo', name: 'to', value: 'USD' }] },
+          ],
+        },
+        subscriptions: {
+          [subscriptionId]: {
+            ...subscription,
+            templateId: '0x1234',
+            conditions: '0x1234',
+            sponsor: subscription.sponsor.toLowerCase().replace('a', 'A'),
+            fulfillFunctionId: '0x206b48f4aa',
+          },
+        },
+      });
+
+      expect(validationOutput.success).toEqual(false);
+      expect(formatValidationIssues((validationOutput as { error: ZodError }).error)).toEqual([
+        'airnodeXpub: Invalid extended public key',
+        'chains[0].id: Chain ID must be a positive integer string',
+        'chains[0].contracts.DapiServer: Invalid EVM address (checksummed or lowercase expected)',
+        'triggers.rrpBeaconServerKeeperJobs[0].templateParameters: Unable to encode as Airnode ABI parameters',
+        'triggers.rrpBeaconServerKeeperJobs[0].deviationPercentage: Must be a number larger than 0 and less than or equal to 100 with no more than 2 decimal places',
+        `subscriptions.${subscriptionId}.templateId: Invalid bytes32 hex string`,
+        `subscriptions.${subscriptionId}.conditions: Unable to decode as Airnode ABI encoded parameters`,
+        `subscriptions.${subscriptionId}.sponsor: Invalid EVM address (checksummed or lowercase expected)`,
+        `subscriptions.${subscriptionId}.fulfillFunctionId: Invalid 4 byte function selector`,
+      ]);
+    });
+
+    it('accepts lowercase addresses and empty parameters', () => {
+      const subscription = airkeeperConfig.subscriptions[subscriptionId];
+      expect(
+        validateConfig({
+          ...airkeeperConfig,
+          subscriptions: {
+            [subscriptionId]: { ...subscription, sponsor: subscription.sponsor.toLowerCase(), parameters: '0x' },
+          },
+        }).success
+      ).toEqual(true);
+    });
+
+    it('accepts allocators listed by address or with a slot limit', () => {
+      const [chain] = airkeeperConfig.chains;
+      const allocatorAddress = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+      const validationOutput = validateConfig({
+        ...airkeeperConfig,
+        chains: [
+          {
+            ...chain,
+            contracts: {
+              ...chain.contracts,
+              Allocators: [allocatorAddress, { address: allocatorAddress, slotLimit: 10 }],
+            },
+          },
+        ],
+      });
+      expect(validationOutput.success).toEqual(true);
+
+      const invalidOutput = validateConfig({
+        ...airkeeperConfig,
+        chains: [
+          { ...chain, contracts: { ...chain.contracts, Allocators: [{ address: allocatorAddress, slotLimit: 0 }] } },
+        ],
+      });
+      expect(invalidOutput.success).toEqual(false);
+    });
+  });
+
+  describe('formatIssuePath', () => {
+    it('formats array indices and object keys', () => {
+      expect(formatIssuePath(['chains', 0, 'contracts', 'Allocators', 1])).toEqual('chains[0].contracts.Allocators[1]');
+      expect(formatIssuePath([])).toEqual('');
+    });
+  });
 });
@@ -1,43 +1,104 @@
-import { z, ZodFirstPartySchemaTypes } from 'zod';
+import * as abi from '@api3/airnode-abi';
+import { goSync } from '@api3/promise-utils';
+import { ethers } from 'ethers';
+import { z, ZodError, ZodFirstPartySchemaTypes } from 'zod';
+
+export const evmAddressSchema = z
+  .string()
+  .refine((value) => ethers.utils.isAddress(value), 'Invalid EVM address (checksummed or lowercase expected)');
+
+export const evmIdSchema = z.string().regex(/^0x[a-fA-F0-9]{64}$/, 'Invalid bytes32 hex string');
+
+export const evmSelectorSchema = z.string().regex(/^0x[a-fA-F0-9]{8}$/, 'Invalid 4 byte function selector');
+
+export const bytesSchema = z.string().regex(/^0x([a-fA-F0-9]{2})*$/, 'Invalid hex encoded bytes');
+
+export const airnodeAbiSchema = bytesSchema.refine(
+  (value) => goSync(() => abi.decode(value)).success,
+  'Unable to decode as Airnode ABI encoded parameters'
+);
+
+export const chainIdSchema = z.string().regex(/^\d+$/, 'Chain ID must be a positive integer string');
+
+// Deviation percentages must be larger than 0 and up to 100 with no more than 2 decimal places
+export const isValidDeviationPercentage = (deviationPercentage: string) => {
+  const percentage = Number(deviationPercentage);
+  return !isNaN(percentage) && percentage > 0 && percentage <= 100 && Number.isInteger(percentage * 100);
+};
+
+export const deviationPercentageSchema = z
+  .string()
+  .refine(
+    isValidDeviationPercentage,
+    'Must be a number larger than 0 and less than or equal to 100 with no more than 2 decimal places'
+  );
+
+export const xpubSchema = z
+  .string()
+  .refine((value) => goSync(() => ethers.utils.HDNode.fromExtendedKey(value)).success, 'Invalid extended public key');
 
 export const templateParametersSchema = z.object({ type: z.string(), name: z.string(), value: z.string() });
 
 export const triggerSchema = z.object({
-  chainIds: z.array(z.string()),
-  templateId: z.string(),
-  templateParameters: z.array(templateParametersSchema),
-  endpointId: z.string(),
-  deviationPercentage: z.string(),
-  keeperSponsor: z.string(),
-  requestSponsor: z.string(),
+  chainIds: z.array(chainIdSchema),
+  templateId: evmIdSchema,
+  templateParameters: z
+    .array(templateParametersSchema)
+    .refine(
+      (templateParameters) => goSync(() => abi.encode(templateParameters)).success,
+      'Unable to encode as Airnode ABI parameters'
+    ),
+  endpointId: evmIdSchema,
+  deviationPercentage: deviationPercentageSchema,
+  heartbeatIntervalSeconds: z.number().int().positive().optional(),
+  keeperSponsor: evmAddressSchema,
+  requestSponsor: evmAddressSchema,
 });
 
 export const triggersSchema = z.object({
   rrpBeaconServerKeeperJobs: z.array(triggerSchema),
-  protoPsp: z.array(z.string()),
+  protoPsp: z.array(evmIdSchema),
 });
 
 export const subscriptionSchema = z.object({
-  chainId: z.string(),
-  airnodeAddress: z.string(),
-  templateId: z.string(),
-  parameters: z.string(),
-  conditions: z.string(),
-  relayer: z.string(),
-  sponsor: z.string(),
-  requester: z.string(),
-  fulfillFunctionId: z.string(),
+  chainId: chainIdSchema,
+  airnodeAddress: evmAddressSchema,
+  templateId: evmIdSchema,
+  parameters: bytesSchema,
+  conditions: airnodeAbiSchema,
+  relayer: evmAddressSchema,
+  sponsor: evmAddressSchema,
+  requester: evmAddressSchema,
+  fulfillFunctionId: evmSelectorSchema,
 });
 
 export const subscriptionsSchema = z.record(subscriptionSchema);
 
 export const templateSchema = z.object({
-  endpointId: z.string(),
-  templateParameters: z.string(),
+  endpointId: evmIdSchema,
+  templateParameters: airnodeAbiSchema,
 });
 
 export const templatesSchema = z.record(templateSchema);
 
+export const aggregationSchema = z.object({
+  templateIds: z.array(evmIdSchema).min(1),
+  method: z.enum(['median', 'mean']),
+  minimumResponses: z.number().int().positive(),
+});
+
+export const aggregationsSchema = z.record(aggregationSchema);
+
+export const beaconSetSchema = z.object({
+  chainIds: z.array(chainIdSchema),
+  beaconIds: z.array(evmIdSchema).min(2),
+  deviationPercentage: deviationPercentageSchema,
+  heartbeatIntervalSeconds: z.number().int().positive().optional(),
+  sponsor: evmAddressSchema,
+});
+
+export const beaconSetsSchema = z.record(beaconSetSchema);
+
 export const endpointSchema = z.object({
   oisTitle: z.string(),
   endpointName: z.string(),
@@ -45,39 +106,93 @@ export const endpointSchema = z.object({
 
 export const endpointsSchema = z.record(endpointSchema);
 
+// Allocators are listed either by address or together with the number of slots to enumerate
+export const allocatorSchema = z.union([
+  evmAddressSchema,
+  z.object({
+    address: evmAddressSchema,
+    slotLimit: z.number().int().positive(),
+  }),
+]);
+
 export const chainContractsSchema = z.object({
-  RrpBeaconServer: z.string(),
-  DapiServer: z.string(),
+  RrpBeaconServer: evmAddressSchema,
+  DapiServer: evmAddressSchema,
+  AirnodeProtocol: evmAddressSchema.optional(),
+  Allocators: z.array(allocatorSchema).optional(),
+});
+
+export const etherAmountSchema = z
+  .string()
+  .refine((value) => goSync(() => ethers.utils.parseEther(value)).success, 'Invalid ether amount');
+
+export const gweiAmountSchema = z
+  .string()
+  .refine((value) => goSync(() => ethers.utils.parseUnits(value, 'gwei')).success, 'Invalid gwei amount');
+
+export const sponsorWalletBalanceSchema = z.object({
+  minimum: etherAmountSchema,
+  lowBalanceWarning: etherAmountSchema.optional(),
+});
+
+export const stuckTransactionsSchema = z.object({
+  maxPendingAgeSeconds: z.number().int().positive(),
+  // Nodes reject replacement transactions unless the fees are bumped by at least 10%
+  feeBumpPercentage: z.number().int().min(10).optional(),
+  maxGasPriceGwei: gweiAmountSchema,
+  action: z.enum(['replace', 'cancel']).optional(),
 });
 
 export const chainSchema = z.object({
-  id: z.string(),
+  id: chainIdSchema,
   contracts: chainContractsSchema,
+  sponsorWalletBalance: sponsorWalletBalanceSchema.optional(),
+  stuckTransactions: stuckTransactionsSchema.optional(),
 });
 
 export const chainsSchema = z.array(chainSchema);
 
 export const configSchema = z.object({
-  airnodeAddress: z.string(),
-  airnodeXpub: z.string(),
+  airnodeAddress: evmAddressSchema,
+  airnodeXpub: xpubSchema,
   chains: chainsSchema,
   triggers: triggersSchema,
   subscriptions: subscriptionsSchema,
   templates: templatesSchema,
+  aggregations: aggregationsSchema.optional(),
+  beaconSets: beaconSetsSchema.optional(),
   endpoints: endpointsSchema,
 });
 
 export type SchemaType<Schema extends ZodFirstPartySchemaTypes> = z.infer<Schema>;
 export type AirkeeperConfig = SchemaType<typeof configSchema>;
+export type Allocator = z.infer<typeof allocatorSchema>;
 export type AirkeeperChainContracts = z.infer<typeof chainContractsSchema>;
 export type AirkeeperChainConfig = z.infer<typeof chainSchema>;
+export type SponsorWalletBalance = z.infer<typeof sponsorWalletBalanceSchema>;
+export type StuckTransactions = z.infer<typeof stuckTransactionsSchema>;
 export type Trigger = z.infer<typeof triggerSchema>;
 export type Triggers = z.infer<typeof triggersSchema>;
 export type Subscription = z.infer<typeof subscriptionSchema>;
 export type Subscriptions = z.infer<typeof subscriptionsSchema>;
 export type Template = z.infer<typeof templateSchema>;
 export type Templates = z.infer<typeof templatesSchema>;
+export type Aggregation = z.infer<typeof aggregationSchema>;
+export type Aggregations = z.infer<typeof aggregationsSchema>;
+export type BeaconSet = z.infer<typeof beaconSetSchema>;
+export type BeaconSets = z.infer<typeof beaconSetsSchema>;
 export type Endpoint = z.infer<typeof endpointSchema>;
 export type Endpoints = z.infer<typeof endpointsSchema>;
 
-export const validateConfig = (config: AirkeeperConfig) => configSchema.safeParse(config);
+export const validateConfig = (config: unknown) => configSchema.safeParse(config);
+
+// Formats a path like ['chains', 0, 'contracts', 'DapiServer'] as chains[0].contracts.DapiServer
+export const formatIssuePath = (path: (string | number)[]) =>
+  path.reduce<string>(
+    (formattedPath, key) =>
+      typeof key === 'number' ? `${formattedPath}[${key}]` : formattedPath ? `${formattedPath}.${key}` : key,
+    ''
+  );
+
+export const formatValidationIssues = (error: ZodError) =>
+  error.issues.map(({ path, message }) => `${path.length > 0 ? formatIssuePath(path) : '<root>'}: ${message}`);
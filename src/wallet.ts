@@ -1 +1,14 @@
+import * as node from '@api3/airnode-node';
+import { ethers } from 'ethers';
+
 export const shortenAddress = (address: string) => address.replace(address.substring(5, 38), '...');
+
+// The Airnode wallet is the first child of the extended public key
+export const deriveAirnodeAddress = (airnodeXpub: string) =>
+  ethers.utils.HDNode.fromExtendedKey(airnodeXpub).derivePath('0/0').address;
+
+// The extended public key of the Airnode is derived at m/44'/60'/0' so sponsor wallets can be derived without the mnemonic
+export const deriveSponsorWalletAddress = (airnodeXpub: string, sponsorAddress: string, protocolId: string) =>
+  ethers.utils.HDNode.fromExtendedKey(airnodeXpub).derivePath(
+    node.evm.deriveWalletPathFromSponsorAddress(sponsorAddress, protocolId)
+  ).address;
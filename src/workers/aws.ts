@@ -1,7 +1,13 @@
 import AWS from 'aws-sdk';
-import { WorkerParameters } from '../types';
+import { BeaconSetPlannedTransaction, PspPlannedTransaction, WorkerParameters } from '../types';
 
-export const spawn = async ({ providerSponsorSubscriptions, baseLogOptions, stage }: WorkerParameters): Promise<void> =>
+export const spawn = async ({
+  providerSponsorSubscriptions,
+  airnodeXpub,
+  baseLogOptions,
+  dryRun,
+  stage,
+}: WorkerParameters): Promise<(PspPlannedTransaction | BeaconSetPlannedTransaction)[]> =>
   // lambda.invoke is synchronous so we need to wrap this in a promise
   new Promise((resolve, reject) => {
     // Uses the current region by default
@@ -12,7 +18,7 @@ export const spawn = async ({ providerSponsorSubscriptions, baseLogOptions, stag
 
     const options = {
       FunctionName: resolvedName,
-      Payload: JSON.stringify({ providerSponsorSubscriptions, baseLogOptions }),
+      Payload: JSON.stringify({ providerSponsorSubscriptions, airnodeXpub, baseLogOptions, dryRun }),
     };
     lambda.invoke(options, (err, data) => {
       // Reject invoke and (unhandled) handler errors
@@ -21,6 +27,7 @@ export const spawn = async ({ providerSponsorSubscriptions, baseLogOptions, stag
         return;
       }
 
-      resolve();
+      // The handler only returns planned transactions when running in dry run mode
+      resolve(JSON.parse((data.Payload as string) || 'null') || []);
     });
   });
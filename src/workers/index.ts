@@ -1,25 +1,42 @@
-import * as utils from '@api3/airnode-utilities';
 import * as aws from './aws';
 import { processSubscriptionsHandler } from '../handlers';
-import { ProviderSponsorSubscriptionsState } from '../types';
+import { processProviderSponsorSubscriptions } from '../handlers/process-subscriptions';
+import {
+  BeaconSetPlannedTransaction,
+  LocalWorkerResources,
+  PspPlannedTransaction,
+  WorkerParameters,
+  WorkerType,
+} from '../types';
 
 export const spawn = ({
   providerSponsorSubscriptions,
+  airnodeXpub,
   baseLogOptions,
+  dryRun,
   type,
   stage,
-}: {
-  providerSponsorSubscriptions: ProviderSponsorSubscriptionsState;
-  baseLogOptions: utils.LogOptions;
-  type: 'local' | 'aws';
-  stage: string;
-}): Promise<any> => {
+  localWorkerResources,
+}: WorkerParameters & { type: WorkerType; localWorkerResources?: LocalWorkerResources }): Promise<
+  (PspPlannedTransaction | BeaconSetPlannedTransaction)[]
+> => {
   switch (type) {
     case 'local':
+      // The local worker loads the config and the signer itself unless they have been loaded already
       return new Promise((resolve, reject) =>
-        processSubscriptionsHandler({ providerSponsorSubscriptions, baseLogOptions }).then(resolve).catch(reject)
+        (localWorkerResources
+          ? processProviderSponsorSubscriptions({
+              providerSponsorSubscriptions,
+              baseLogOptions,
+              dryRun,
+              ...localWorkerResources,
+            })
+          : processSubscriptionsHandler({ providerSponsorSubscriptions, airnodeXpub, baseLogOptions, dryRun })
+        )
+          .then(resolve)
+          .catch(reject)
       );
     case 'aws':
-      return aws.spawn({ providerSponsorSubscriptions, baseLogOptions, stage });
+      return aws.spawn({ providerSponsorSubscriptions, airnodeXpub, baseLogOptions, dryRun, stage });
   }
 };
@@ -184,6 +184,7 @@ export const buildAirkeeperConfig = () => ({
       contracts: {
         RrpBeaconServer: '0x610178dA211FEF7D417bC0e6FeD39F05609AD788',
         DapiServer: '0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0',
+        AirnodeProtocol: '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512',
       },
     },
   ],
@@ -189,13 +189,16 @@ describe('PSP', () => {
         airnodeWallet.address,
         roles.sponsor.address
       );
+
+    // Sponsorships are verified through AirnodeProtocol before the subscriptions are processed
+    for (const subscriptionId of airkeeperConfig.triggers.protoPsp) {
+      await airnodeProtocol.connect(roles.sponsor).setPspSponsorshipStatus(subscriptionId, true);
+    }
   });
 
   it('updates the beacons successfully', async () => {
-    jest
-      .spyOn(config, 'loadAirnodeConfig')
-      .mockImplementationOnce(() => airnodeConfig as any)
-      .mockImplementationOnce(() => airnodeConfig as any);
+    jest.spyOn(config, 'loadAirnodeConfigWithoutMnemonic').mockImplementationOnce(() => airnodeConfig as any);
+    jest.spyOn(config, 'loadAirnodeConfig').mockImplementationOnce(() => airnodeConfig as any);
     jest.spyOn(config, 'loadAirkeeperConfig').mockImplementationOnce(() => airkeeperConfig as any);
     const res = await psp.handler();
 
@@ -211,10 +214,8 @@ describe('PSP', () => {
   });
 
   it('updates the beacons successfully after retrying a failed api call', async () => {
-    jest
-      .spyOn(config, 'loadAirnodeConfig')
-      .mockImplementationOnce(() => airnodeConfig as any)
-      .mockImplementationOnce(() => airnodeConfig as any);
+    jest.spyOn(config, 'loadAirnodeConfigWithoutMnemonic').mockImplementationOnce(() => airnodeConfig as any);
+    jest.spyOn(config, 'loadAirnodeConfig').mockImplementationOnce(() => airnodeConfig as any);
     jest.spyOn(config, 'loadAirkeeperConfig').mockImplementationOnce(() => airkeeperConfig as any);
 
     const callApiSpy = jest.spyOn(api, 'callApi');
@@ -234,24 +235,25 @@ describe('PSP', () => {
   });
 
   it('updates the beacons successfully with one invalid provider present', async () => {
-    jest.spyOn(config, 'loadAirnodeConfig').mockImplementation(
-      () =>
-        ({
-          ...airnodeConfig,
-          chains: [
-            ...airnodeConfig.chains,
-            {
-              ...airnodeConfig.chains[0],
-              providers: {
-                ...airnodeConfig.chains[0].providers,
-                invalidProvider: {
-                  url: 'http://invalid',
-                },
-              },
+    const airnodeConfigWithInvalidProvider = {
+      ...airnodeConfig,
+      chains: [
+        ...airnodeConfig.chains,
+        {
+          ...airnodeConfig.chains[0],
+          providers: {
+            ...airnodeConfig.chains[0].providers,
+            invalidProvider: {
+              url: 'http://invalid',
             },
-          ],
-        } as any)
-    );
+          },
+        },
+      ],
+    } as any;
+    jest
+      .spyOn(config, 'loadAirnodeConfigWithoutMnemonic')
+      .mockImplementationOnce(() => airnodeConfigWithInvalidProvider);
+    jest.spyOn(config, 'loadAirnodeConfig').mockImplementation(() => airnodeConfigWithInvalidProvider);
     jest.spyOn(config, 'loadAirkeeperConfig').mockImplementationOnce(() => airkeeperConfig);
 
     const res = await psp.handler();
@@ -268,10 +270,8 @@ describe('PSP', () => {
   });
 
   it('updates the beacon successfully with one invalid subscription present', async () => {
-    jest
-      .spyOn(config, 'loadAirnodeConfig')
-      .mockImplementationOnce(() => airnodeConfig as any)
-      .mockImplementationOnce(() => airnodeConfig as any);
+    jest.spyOn(config, 'loadAirnodeConfigWithoutMnemonic').mockImplementationOnce(() => airnodeConfig as any);
+    jest.spyOn(config, 'loadAirnodeConfig').mockImplementationOnce(() => airnodeConfig as any);
     jest.spyOn(config, 'loadAirkeeperConfig').mockImplementationOnce(() => ({
       ...airkeeperConfig,
       subscriptions: {
@@ -301,7 +301,7 @@ describe('PSP', () => {
       'config.json',
       JSON.stringify({
         ...airnodeConfig,
-        nodeSettings: { ...airnodeConfig.nodeSettings, airnodeWalletMnemonic: null },
+        nodeSettings: { ...airnodeConfig.nodeSettings, cloudProvider: null },
       })
     );
     mockReadFileSync('airkeeper.json', JSON.stringify(airkeeperConfig));
@@ -0,0 +1,56 @@
+import AWS from 'aws-sdk';
+import * as dynamodb from '../../src/state-store/dynamodb';
+
+// DynamoDB Local accepts any credentials and region
+process.env = Object.assign(process.env, {
+  DYNAMODB_ENDPOINT: process.env.DYNAMODB_ENDPOINT || 'http://127.0.0.1:8000',
+  AWS_REGION: process.env.AWS_REGION || 'us-east-1',
+  AWS_ACCESS_KEY_ID: process.env.AWS_ACCESS_KEY_ID || 'local',
+  AWS_SECRET_ACCESS_KEY: process.env.AWS_SECRET_ACCESS_KEY || 'local',
+});
+
+const tableName = 'airkeeper-state-e2e';
+const runState = {
+  apiValue: '723.39202',
+  txHash: '0x3f2bd7f5ab1bd2c3e1f6d4ba0cd06f3dcb24ff6f3f7e0f2f06f3a1b5a76c8a10',
+  nonce: 3,
+  timestamp: 1_650_000_000,
+  status: 'pending' as const,
+};
+
+describe('DynamoDB state store', () => {
+  const client = new AWS.DynamoDB({ endpoint: process.env.DYNAMODB_ENDPOINT });
+
+  beforeAll(async () => {
+    // The table is created the same way as in serverless.yml
+    await client
+      .createTable({
+        TableName: tableName,
+        AttributeDefinitions: [{ AttributeName: 'id', AttributeType: 'S' }],
+        KeySchema: [{ AttributeName: 'id', KeyType: 'HASH' }],
+        BillingMode: 'PAY_PER_REQUEST',
+      })
+      .promise();
+  });
+
+  afterAll(async () => {
+    await client.deleteTable({ TableName: tableName }).promise();
+  });
+
+  it('saves and loads run states', async () => {
+    const stateStore = dynamodb.create(tableName, process.env.DYNAMODB_ENDPOINT);
+
+    await expect(stateStore.get('subscription', '0x1')).resolves.toBeNull();
+
+    await stateStore.set('subscription', '0x1', runState);
+    await stateStore.set('rrpBeacon', '0x1', { ...runState, status: 'reverted', revertReason: 'Timestamp not valid' });
+    await stateStore.set('subscription', '0x1', { ...runState, status: 'confirmed' });
+
+    await expect(stateStore.get('subscription', '0x1')).resolves.toEqual({ ...runState, status: 'confirmed' });
+    await expect(stateStore.get('rrpBeacon', '0x1')).resolves.toEqual({
+      ...runState,
+      status: 'reverted',
+      revertReason: 'Timestamp not valid',
+    });
+  });
+});